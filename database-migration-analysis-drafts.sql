@@ -0,0 +1,16 @@
+-- Database Migration: Analysis Drafts
+-- This migration adds support for:
+-- 1. A 'draft' analysis status: Prompt #1 topics and queries are stored for review and editing,
+--    and processing only begins once the draft is started (POST /api/analysis/[id]/start)
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Draft status
+-- ============================================================================
+
+-- analyses.status is free text; document the full set of values
+COMMENT ON COLUMN analyses.status IS 'draft (awaiting review) → pending → processing → completed | failed | cancelled';
+
+-- Editing a draft replaces its topics; queries and answers are removed with them
+-- (queries.topic_id and query_answers.query_id already cascade on delete)
+
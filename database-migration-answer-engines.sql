@@ -0,0 +1,40 @@
+-- Database Migration: Pluggable Answer Engines
+-- This migration adds support for:
+-- 1. Selecting the LLM provider (answer engine) per analysis
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Add engine columns to analyses table
+-- ============================================================================
+
+-- Engine used to answer queries (Prompt #2) and validate brand matches (Prompt #3)
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS engine TEXT DEFAULT 'openai';
+
+COMMENT ON COLUMN analyses.engine IS 'Answer engine used for Prompt #2 (web search answers) and Prompt #3 (brand validation). One of: openai, perplexity.';
+
+-- Engine used to generate topics and queries (Prompt #1)
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS topic_engine TEXT DEFAULT 'perplexity';
+
+COMMENT ON COLUMN analyses.topic_engine IS 'Answer engine used for Prompt #1 (topic and query generation). One of: openai, perplexity.';
+
+-- ============================================================================
+-- 2. Verify the migration
+-- ============================================================================
+
+SELECT
+  column_name,
+  data_type,
+  column_default,
+  is_nullable
+FROM information_schema.columns
+WHERE table_name = 'analyses'
+  AND column_name IN ('engine', 'topic_engine');
+
+-- ============================================================================
+-- Notes
+-- ============================================================================
+
+-- Existing analyses pick up the defaults, which match the original pipeline:
+-- Prompt #1 on Perplexity (sonar), Prompts #2/#3 on OpenAI (gpt-5-nano).
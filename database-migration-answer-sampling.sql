@@ -0,0 +1,50 @@
+-- Database Migration: Repeated Answer Sampling
+-- This migration adds support for:
+-- 1. Asking every query several times per engine (samples_per_query)
+-- 2. Answer stability metrics per query and per topic
+-- Run this SQL in Supabase SQL Editor (after database-migration-multi-engine.sql)
+
+-- ============================================================================
+-- 1. Samples per analysis
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS samples_per_query INTEGER DEFAULT 1;
+
+COMMENT ON COLUMN analyses.samples_per_query IS 'How many times each query is asked per engine. 1 = single answer (previous behavior).';
+
+-- ============================================================================
+-- 2. One answer per (query, engine, sample)
+-- ============================================================================
+
+ALTER TABLE query_answers
+ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE query_answers
+DROP CONSTRAINT IF EXISTS query_answers_query_id_engine_key;
+
+ALTER TABLE query_answers
+ADD CONSTRAINT query_answers_query_id_engine_sample_index_key UNIQUE (query_id, engine, sample_index);
+
+COMMENT ON COLUMN query_answers.sample_index IS '0-based sample number. Sample 0 of the primary engine is mirrored onto the queries row.';
+
+-- ============================================================================
+-- 3. Stability metrics
+-- ============================================================================
+
+ALTER TABLE queries
+ADD COLUMN IF NOT EXISTS mention_probability NUMERIC,
+ADD COLUMN IF NOT EXISTS rank_mean NUMERIC,
+ADD COLUMN IF NOT EXISTS rank_variance NUMERIC,
+ADD COLUMN IF NOT EXISTS stability_score NUMERIC;
+
+ALTER TABLE topics
+ADD COLUMN IF NOT EXISTS mention_probability NUMERIC,
+ADD COLUMN IF NOT EXISTS rank_mean NUMERIC,
+ADD COLUMN IF NOT EXISTS rank_variance NUMERIC,
+ADD COLUMN IF NOT EXISTS stability_score NUMERIC;
+
+COMMENT ON COLUMN queries.mention_probability IS 'Share of primary engine samples (0-1) that mention the focus brand';
+COMMENT ON COLUMN queries.rank_mean IS 'Mean rank across samples that mention the focus brand (0 if none)';
+COMMENT ON COLUMN queries.rank_variance IS 'Population variance of rank across mentioning samples';
+COMMENT ON COLUMN queries.stability_score IS '0-1: |2p - 1| x 1/(1 + rank std dev). 1 = every sample agrees.';
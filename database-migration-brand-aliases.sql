@@ -0,0 +1,14 @@
+-- Database Migration: Focus Brand Aliases
+-- This migration adds support for:
+-- 1. A user-supplied alias list for the focus institution (official name, acronyms, campuses, former names)
+-- Aliases are matched deterministically before falling back to LLM validation (Prompt #3)
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Alias list per analysis
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS brand_aliases TEXT[] DEFAULT '{}';
+
+COMMENT ON COLUMN analyses.brand_aliases IS 'Other names of the focus institution. A mentioned brand equal to one of them (ignoring case and punctuation) counts as the focus brand without an LLM call.';
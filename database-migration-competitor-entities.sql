@@ -0,0 +1,26 @@
+-- Database Migration: Competitor Entity Resolution
+-- This migration adds support for:
+-- 1. An alias → entity map per analysis ("IIT Delhi" → "Indian Institute of Technology Delhi")
+-- 2. Competitor rows aggregated per canonical entity, with their aliases and share of voice
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Alias map per analysis
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS competitor_aliases JSONB;
+
+COMMENT ON COLUMN analyses.competitor_aliases IS 'Brand strings as written in answers → canonical competitor entity. Only merged spellings are listed.';
+
+-- ============================================================================
+-- 2. Entity-level competitor stats
+-- ============================================================================
+
+ALTER TABLE competitors
+ADD COLUMN IF NOT EXISTS aliases TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS share_of_voice NUMERIC;
+
+COMMENT ON COLUMN competitors.brand_name IS 'Canonical entity name. Spellings merged into it are listed in aliases.';
+COMMENT ON COLUMN competitors.aliases IS 'Other spellings of this entity found in answers';
+COMMENT ON COLUMN competitors.share_of_voice IS 'Percent of all competitor mentions in the analysis that went to this entity';
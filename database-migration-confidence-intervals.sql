@@ -0,0 +1,33 @@
+-- Database Migration: Confidence Intervals
+-- This migration adds support for:
+-- 1. 95% Wilson confidence intervals on overall and topic visibility
+-- 2. 95% Wilson confidence intervals on competitor mention rates
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Visibility intervals (percent, 0-100)
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS visibility_ci_lower NUMERIC,
+ADD COLUMN IF NOT EXISTS visibility_ci_upper NUMERIC;
+
+ALTER TABLE topics
+ADD COLUMN IF NOT EXISTS visibility_ci_lower NUMERIC,
+ADD COLUMN IF NOT EXISTS visibility_ci_upper NUMERIC;
+
+COMMENT ON COLUMN analyses.visibility_ci_lower IS 'Lower bound of the 95% Wilson interval around overall_visibility_score';
+COMMENT ON COLUMN analyses.visibility_ci_upper IS 'Upper bound of the 95% Wilson interval around overall_visibility_score';
+COMMENT ON COLUMN topics.visibility_ci_lower IS 'Lower bound of the 95% Wilson interval around visibility_percentage';
+COMMENT ON COLUMN topics.visibility_ci_upper IS 'Upper bound of the 95% Wilson interval around visibility_percentage';
+
+-- ============================================================================
+-- 2. Competitor mention rate intervals (percent, 0-100)
+-- ============================================================================
+
+ALTER TABLE competitors
+ADD COLUMN IF NOT EXISTS mention_ci_lower NUMERIC,
+ADD COLUMN IF NOT EXISTS mention_ci_upper NUMERIC;
+
+COMMENT ON COLUMN competitors.mention_ci_lower IS 'Lower bound of the 95% Wilson interval around mention_percentage';
+COMMENT ON COLUMN competitors.mention_ci_upper IS 'Upper bound of the 95% Wilson interval around mention_percentage';
@@ -0,0 +1,34 @@
+-- Database Migration: Focus Competitor Flag
+-- This migration adds support for:
+-- 1. Marking the analysed brand's own row among an analysis' competitors. The row is named after the
+--    canonical brand from Prompt #3, which can differ from analyses.institution_name, so visibility
+--    trends find it by this flag instead of by name
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Add is_focus to competitors
+-- ============================================================================
+
+ALTER TABLE competitors
+ADD COLUMN IF NOT EXISTS is_focus BOOLEAN;
+
+COMMENT ON COLUMN competitors.is_focus IS 'True for the focus brand''s own entity. NULL on rows computed before this column existed.';
+
+-- ============================================================================
+-- 2. Verify the migration
+-- ============================================================================
+
+SELECT
+  column_name,
+  data_type,
+  column_default,
+  is_nullable
+FROM information_schema.columns
+WHERE table_name = 'competitors' AND column_name = 'is_focus';
+
+-- ============================================================================
+-- Notes
+-- ============================================================================
+
+-- Existing rows keep NULL and are matched by name, as before. Recomputing an analysis'
+-- metrics (e.g. a retry or a match override) sets the flag.
@@ -0,0 +1,114 @@
+-- Database Migration: Durable Job Queue for Analysis Processing
+-- This migration adds support for:
+-- 1. A persistent analysis_jobs table so processing survives restarts and redeploys
+-- 2. Lease-based claiming so a crashed worker's job is picked up by another worker
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Create analysis_jobs table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  analysis_id UUID NOT NULL REFERENCES analyses(id) ON DELETE CASCADE,
+
+  kind TEXT NOT NULL DEFAULT 'process_analysis',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+
+  locked_by TEXT,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON TABLE analysis_jobs IS 'Durable work queue for analysis processing. Workers claim jobs with a lease and renew it via heartbeats; jobs whose lease expires are reclaimed by another worker.';
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_claimable ON analysis_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_analysis_id ON analysis_jobs(analysis_id);
+
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role all on analysis_jobs" ON analysis_jobs FOR ALL USING (auth.jwt()->>'role' = 'service_role');
+
+-- ============================================================================
+-- 2. Atomic claim function
+-- ============================================================================
+
+-- Claims the oldest runnable job: either pending and due, or running with an
+-- expired lease (orphaned by a crashed worker). SKIP LOCKED lets several
+-- workers poll concurrently without claiming the same job twice.
+CREATE OR REPLACE FUNCTION claim_analysis_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF analysis_jobs AS $$
+BEGIN
+  -- A job whose worker died on its last attempt is not retried: fail it and its analysis
+  WITH exhausted AS (
+    UPDATE analysis_jobs
+    SET
+      status = 'failed',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      last_error = 'Lease expired on the final attempt',
+      updated_at = NOW()
+    WHERE status = 'running' AND lease_expires_at < NOW() AND attempts >= max_attempts
+    RETURNING analysis_id
+  )
+  UPDATE analyses
+  SET status = 'failed', updated_at = NOW()
+  WHERE id IN (SELECT analysis_id FROM exhausted) AND status <> 'cancelled';
+
+  RETURN QUERY
+  UPDATE analysis_jobs
+  SET
+    status = 'running',
+    locked_by = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = attempts + 1,
+    updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM analysis_jobs
+    WHERE (status = 'pending' AND run_after <= NOW())
+       OR (status = 'running' AND lease_expires_at < NOW() AND attempts < max_attempts)
+    ORDER BY created_at ASC
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 3. Verify the migration
+-- ============================================================================
+
+SELECT
+  column_name,
+  data_type,
+  column_default,
+  is_nullable
+FROM information_schema.columns
+WHERE table_name = 'analysis_jobs';
+
+-- ============================================================================
+-- Notes
+-- ============================================================================
+
+-- Job Lifecycle:
+-- pending → running (claimed, lease held) → completed
+-- running → pending (attempt failed, retried after backoff while attempts < max_attempts)
+-- running → failed (attempts exhausted; analysis is marked failed)
+-- running (lease expired) → running (reclaimed by another worker while attempts < max_attempts)
+-- running (lease expired on the final attempt) → failed (analysis is marked failed)
+-- pending → cancelled (analysis cancelled before a worker claimed the job)
+-- A worker that loses its lease stops processing and leaves the job to its new owner.
+
+-- Backfill for analyses stranded in 'processing' before this migration:
+-- INSERT INTO analysis_jobs (analysis_id)
+-- SELECT id FROM analyses WHERE status IN ('pending', 'processing');
@@ -0,0 +1,38 @@
+-- Database Migration: Brand Match Review
+-- This migration adds support for:
+-- 1. Persisting the brand-match decision (Prompt #3 or alias list) per query and per engine answer
+-- 2. Human overrides of that decision, recorded on the query
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Match decision
+-- ============================================================================
+
+ALTER TABLE queries
+ADD COLUMN IF NOT EXISTS matched_name TEXT,
+ADD COLUMN IF NOT EXISTS match_confidence TEXT, -- high | medium | low
+ADD COLUMN IF NOT EXISTS match_reasoning TEXT;
+
+ALTER TABLE query_answers
+ADD COLUMN IF NOT EXISTS matched_name TEXT,
+ADD COLUMN IF NOT EXISTS match_confidence TEXT, -- high | medium | low
+ADD COLUMN IF NOT EXISTS match_reasoning TEXT;
+
+COMMENT ON COLUMN queries.matched_name IS 'Mentioned brand taken to be the focus brand (NULL if not mentioned)';
+COMMENT ON COLUMN queries.match_confidence IS 'Validator confidence in the match: high | medium | low';
+COMMENT ON COLUMN queries.match_reasoning IS 'Validator explanation of the match';
+
+-- ============================================================================
+-- 2. Human review
+-- ============================================================================
+
+ALTER TABLE queries
+ADD COLUMN IF NOT EXISTS match_overridden BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS match_reviewed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN queries.match_overridden IS 'TRUE when focused_brand_rank/canonical_brand were set by a reviewer (PATCH /api/query/[id]/match)';
+COMMENT ON COLUMN queries.match_reviewed_at IS 'When a reviewer last confirmed or changed the match';
+
+-- Review queue: unreviewed low/medium confidence matches
+CREATE INDEX IF NOT EXISTS idx_queries_match_review ON queries(analysis_id, match_confidence)
+WHERE match_reviewed_at IS NULL;
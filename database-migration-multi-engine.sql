@@ -0,0 +1,60 @@
+-- Database Migration: Multi-Engine Comparison
+-- This migration adds support for:
+-- 1. Answering every query with several answer engines in one analysis
+-- 2. Per-engine visibility metrics at analysis and topic level
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Engines selected per analysis
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS engines TEXT[],
+ADD COLUMN IF NOT EXISTS engine_metrics JSONB;
+
+COMMENT ON COLUMN analyses.engines IS 'Answer engines every query is sent to. The first entry is the primary engine mirrored onto queries rows.';
+COMMENT ON COLUMN analyses.engine_metrics IS 'Per-engine visibility: [{engine, total_answers, answers_mentioned, visibility_score, average_rank}]';
+
+-- Existing analyses ran on a single engine
+UPDATE analyses
+SET engines = ARRAY[COALESCE(engine, 'openai')]
+WHERE engines IS NULL;
+
+ALTER TABLE topics
+ADD COLUMN IF NOT EXISTS engine_metrics JSONB;
+
+-- ============================================================================
+-- 2. One answer per (query, engine)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS query_answers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  query_id UUID NOT NULL REFERENCES queries(id) ON DELETE CASCADE,
+  analysis_id UUID NOT NULL REFERENCES analyses(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+  engine TEXT NOT NULL,
+
+  answer TEXT,
+  brands_mentioned TEXT[] DEFAULT '{}',
+  focused_brand TEXT,
+  canonical_brand TEXT,
+  focused_brand_rank INTEGER DEFAULT 0,
+  visibility INTEGER DEFAULT 0,
+  websites_cited TEXT[] DEFAULT '{}',
+
+  status TEXT NOT NULL DEFAULT 'completed', -- completed | failed
+  error_message TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(query_id, engine)
+);
+
+COMMENT ON TABLE query_answers IS 'Answer from each engine for each query. The queries row keeps a copy of the primary engine answer for single-engine views.';
+
+CREATE INDEX IF NOT EXISTS idx_query_answers_analysis_id ON query_answers(analysis_id);
+CREATE INDEX IF NOT EXISTS idx_query_answers_query_id ON query_answers(query_id);
+
+ALTER TABLE query_answers ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow public read on query_answers" ON query_answers FOR SELECT USING (true);
+CREATE POLICY "Service role all on query_answers" ON query_answers FOR ALL USING (auth.jwt()->>'role' = 'service_role');
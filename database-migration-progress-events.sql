@@ -0,0 +1,103 @@
+-- Database Migration: Progress Events for Live Analysis Progress
+-- This migration adds support for:
+-- 1. An append-only analysis_events table recording each pipeline step (topics generated,
+--    batches started/finished, query results, metrics computed, failure, cancellation)
+-- 2. Streaming those events to the browser (GET /api/analysis/[id]/events) instead of polling
+-- 3. A 'failed' event when claim_analysis_job() fails an analysis whose job ran out of attempts
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Create analysis_events table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS analysis_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  analysis_id UUID NOT NULL REFERENCES analyses(id) ON DELETE CASCADE,
+
+  sequence BIGSERIAL UNIQUE, -- Increasing across all events; streams resume after the last one sent
+  type TEXT NOT NULL, -- topics_generated | queued | processing_started | batch_started | batch_finished | query_completed | metrics_computed | failed | cancelled
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE analysis_events IS 'Pipeline steps of each analysis, in order. Read by the progress stream; events are written by the worker, the job queue and the cancel route.';
+
+CREATE INDEX IF NOT EXISTS idx_analysis_events_analysis_sequence ON analysis_events(analysis_id, sequence);
+
+ALTER TABLE analysis_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role all on analysis_events" ON analysis_events FOR ALL USING (auth.jwt()->>'role' = 'service_role');
+
+-- ============================================================================
+-- 2. Record exhausted-job failures in claim_analysis_job
+-- ============================================================================
+
+-- Same claim as database-migration-job-queue.sql, but an analysis failed because its
+-- lease expired on the final attempt also gets a 'failed' event - without it the
+-- progress stream never sees an outcome and the browser keeps reconnecting.
+CREATE OR REPLACE FUNCTION claim_analysis_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF analysis_jobs AS $$
+BEGIN
+  -- A job whose worker died on its last attempt is not retried: fail it and its analysis
+  WITH exhausted AS (
+    UPDATE analysis_jobs
+    SET
+      status = 'failed',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      last_error = 'Lease expired on the final attempt',
+      updated_at = NOW()
+    WHERE status = 'running' AND lease_expires_at < NOW() AND attempts >= max_attempts
+    RETURNING analysis_id
+  ),
+  failed AS (
+    UPDATE analyses
+    SET status = 'failed', updated_at = NOW()
+    WHERE id IN (SELECT analysis_id FROM exhausted) AND status <> 'cancelled'
+    RETURNING id
+  )
+  INSERT INTO analysis_events (analysis_id, type, data)
+  SELECT id, 'failed', jsonb_build_object('error', 'Lease expired on the final attempt', 'will_retry', false)
+  FROM failed;
+
+  RETURN QUERY
+  UPDATE analysis_jobs
+  SET
+    status = 'running',
+    locked_by = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = attempts + 1,
+    updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM analysis_jobs
+    WHERE (status = 'pending' AND run_after <= NOW())
+       OR (status = 'running' AND lease_expires_at < NOW() AND attempts < max_attempts)
+    ORDER BY created_at ASC
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 3. Verify the migration
+-- ============================================================================
+
+SELECT
+  column_name,
+  data_type,
+  column_default,
+  is_nullable
+FROM information_schema.columns
+WHERE table_name = 'analysis_events';
+
+-- ============================================================================
+-- Notes
+-- ============================================================================
+
+-- Analyses created before this migration have no events; their progress dialog
+-- simply starts from the next event recorded (e.g. when a retry is queued).
+-- Events are kept with the analysis and deleted with it (ON DELETE CASCADE).
+-- Run this after database-migration-job-queue.sql: it replaces claim_analysis_job().
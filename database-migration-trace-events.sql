@@ -0,0 +1,54 @@
+-- Database Migration: Pipeline Trace Events
+-- This migration adds support for:
+-- 1. An append-only trace_events table recording diagnostics while each query is answered
+--    (HTTP status and retry attempts, JSON sanitisation fallbacks, brand validation outcome,
+--    answer latency and token usage)
+-- 2. The admin trace viewer (GET /api/analysis/[id]/trace, /admin/trace/[id])
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Create trace_events table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS trace_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  analysis_id UUID NOT NULL REFERENCES analyses(id) ON DELETE CASCADE,
+  query_id UUID REFERENCES queries(id) ON DELETE CASCADE,
+
+  engine TEXT, -- Answer engine id (openai, perplexity, mock)
+  sample_index INTEGER,
+  step TEXT, -- answer (Prompt #2) | validation (Prompt #3)
+  type TEXT NOT NULL, -- http_attempt | token_usage | json_fallback | brand_validation | answer_finished
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE trace_events IS 'Diagnostics recorded by the worker while answering queries. Read by the admin trace viewer.';
+
+CREATE INDEX IF NOT EXISTS idx_trace_events_analysis_created ON trace_events(analysis_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_trace_events_query ON trace_events(query_id);
+
+ALTER TABLE trace_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role all on trace_events" ON trace_events FOR ALL USING (auth.jwt()->>'role' = 'service_role');
+
+-- ============================================================================
+-- 2. Verify the migration
+-- ============================================================================
+
+SELECT
+  column_name,
+  data_type,
+  column_default,
+  is_nullable
+FROM information_schema.columns
+WHERE table_name = 'trace_events';
+
+-- ============================================================================
+-- Notes
+-- ============================================================================
+
+-- Only query processing is traced: topic generation (Prompt #1) runs before the
+-- analysis exists, so its requests are not recorded.
+-- Set ADMIN_SECRET to require "Authorization: Bearer <secret>" on the trace API.
+-- Events are deleted with their analysis or query (ON DELETE CASCADE).
@@ -0,0 +1,53 @@
+-- Database Migration: Tracked Institutions (Scheduled Runs)
+-- This migration adds support for:
+-- 1. Tracked institutions with a frozen topic/query set and a schedule (daily, weekly, monthly)
+-- 2. Analyses linked to a tracked institution as run snapshots, so runs can be compared over time
+-- Run this SQL in Supabase SQL Editor (after database-migration-verticals.sql)
+
+-- ============================================================================
+-- 1. Create tracked_institutions table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS tracked_institutions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  institution_name TEXT NOT NULL,
+  location TEXT,
+
+  -- Analysis settings copied onto every run
+  engines TEXT[] NOT NULL,
+  samples_per_query INTEGER,
+  rank_weights JSONB,
+  brand_aliases TEXT[] DEFAULT '{}',
+  vertical TEXT,
+  vertical_description TEXT,
+  topics JSONB NOT NULL, -- [{topic, prompts}] - frozen, Prompt #1 is never re-run
+
+  schedule TEXT NOT NULL CHECK (schedule IN ('daily', 'weekly', 'monthly')),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_analysis_id UUID REFERENCES analyses(id) ON DELETE SET NULL,
+  source_analysis_id UUID REFERENCES analyses(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE tracked_institutions IS 'Institutions re-analysed on a schedule with the same queries. The scheduler claims a due row by advancing next_run_at with a compare-and-set, then queues a run.';
+
+CREATE INDEX IF NOT EXISTS idx_tracked_institutions_due ON tracked_institutions(next_run_at) WHERE active;
+
+ALTER TABLE tracked_institutions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow public read on tracked_institutions" ON tracked_institutions FOR SELECT USING (true);
+CREATE POLICY "Service role all on tracked_institutions" ON tracked_institutions FOR ALL USING (auth.jwt()->>'role' = 'service_role');
+
+-- ============================================================================
+-- 2. Runs (snapshots)
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS tracked_institution_id UUID REFERENCES tracked_institutions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN analyses.tracked_institution_id IS 'Tracked institution this analysis is a run of. NULL for one-off analyses.';
+
+CREATE INDEX IF NOT EXISTS idx_analyses_tracked_institution ON analyses(tracked_institution_id, created_at);
@@ -0,0 +1,18 @@
+-- Database Migration: Vertical Profiles
+-- This migration adds support for:
+-- 1. A vertical/profile per analysis (education, b2b_software, consumer, local_services, custom)
+--    that selects the Prompt #1 template, example queries and name-matching heuristics
+-- 2. A free-text description of the brand's domain for the custom profile
+-- Run this SQL in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Vertical per analysis
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS vertical TEXT DEFAULT 'education'
+  CHECK (vertical IN ('education', 'b2b_software', 'consumer', 'local_services', 'custom')),
+ADD COLUMN IF NOT EXISTS vertical_description TEXT;
+
+COMMENT ON COLUMN analyses.vertical IS 'Profile selecting the Prompt #1 template and matching heuristics. Existing analyses are education.';
+COMMENT ON COLUMN analyses.vertical_description IS 'What the brand does, in the user''s words. Required for the custom profile.';
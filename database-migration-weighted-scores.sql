@@ -0,0 +1,38 @@
+-- Database Migration: Weighted Visibility Scores
+-- This migration adds support for:
+-- 1. A rank weighting table per analysis (defaults to 1=100, 2-3=50, 4-5=25, 6+=10)
+-- 2. Weighted visibility at analysis, topic and competitor level
+-- Run this SQL in Supabase SQL Editor (after database-migration-weighted-visibility.sql)
+
+-- ============================================================================
+-- 1. Weighting table per analysis
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS rank_weights JSONB;
+
+COMMENT ON COLUMN analyses.rank_weights IS 'Rank weighting tiers: [{max_rank, weight}] ordered by max_rank, last tier max_rank null. NULL = default table.';
+
+-- ============================================================================
+-- 2. Weighted visibility scores (percent, 0-100)
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS weighted_visibility_score NUMERIC;
+
+ALTER TABLE topics
+ADD COLUMN IF NOT EXISTS weighted_visibility_percentage NUMERIC;
+
+ALTER TABLE competitors
+ADD COLUMN IF NOT EXISTS weighted_visibility_score NUMERIC;
+
+COMMENT ON COLUMN analyses.weighted_visibility_score IS 'Average rank weight across all queries (not mentioned = 0)';
+COMMENT ON COLUMN topics.weighted_visibility_percentage IS 'Average rank weight across the topic queries (not mentioned = 0)';
+COMMENT ON COLUMN competitors.weighted_visibility_score IS 'Average rank weight of the brand best position per answer, across all queries';
+
+-- ============================================================================
+-- Notes
+-- ============================================================================
+
+-- Plain visibility counts any mention; weighted visibility rewards ranking first:
+-- a brand mentioned in every answer at rank 4 scores 100% plain but 25% weighted.
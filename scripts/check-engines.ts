@@ -0,0 +1,129 @@
+// Engine Check - Runs one analysis end to end offline and asserts its metrics (npm run check:engines)
+// 1. record: mock engines (MOCK_ENGINES) answer under the openai id and every call is saved to cassettes
+// 2. replay: the real openai engine is served from those cassettes only - no API key, no network
+// Both runs use the in-memory repository and must produce identical, plausible metrics.
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const INSTITUTION = 'Northwind University';
+
+type Phase = 'record' | 'replay';
+
+interface PhaseResult {
+  status: string;
+  progress: number;
+  total_queries: number;
+  queries_mentioned: number;
+  overall_visibility_score: number | null;
+  average_rank: number | null;
+  topics: Array<number | null>;
+  competitors: string[];
+  answers: number;
+}
+
+/**
+ * Run one analysis in this process (env is set by the parent before any module reads it)
+ */
+async function runPhase(): Promise<PhaseResult> {
+  const { getRepository } = await import('../src/lib/repository');
+  const { getAnswerEngine } = await import('../src/lib/answer-engine');
+  const { createTopicsAndQueries } = await import('../src/lib/analysis-draft');
+  const { enqueueAnalysisJob } = await import('../src/lib/job-queue');
+  const { runWorkerOnce } = await import('../src/lib/worker');
+
+  const repository = getRepository();
+  const topics = await getAnswerEngine('openai').generateTopics(INSTITUTION);
+  const analysis = await repository.createAnalysis({
+    institution_name: topics.institution_name,
+    location: topics.location,
+    engine: 'openai',
+    engines: ['openai'],
+    status: 'pending',
+    total_queries: 0,
+    progress: 0,
+    samples_per_query: 1
+  });
+
+  await createTopicsAndQueries(analysis.id, topics.institution_name, topics.topics);
+  await enqueueAnalysisJob(analysis.id);
+  assert.equal(await runWorkerOnce(), true, 'worker should claim the analysis job');
+
+  const completed = await repository.getAnalysis(analysis.id);
+  assert.ok(completed, 'analysis should exist');
+
+  return {
+    status: completed.status,
+    progress: completed.progress,
+    total_queries: completed.total_queries,
+    queries_mentioned: completed.queries_mentioned ?? 0,
+    overall_visibility_score: completed.overall_visibility_score ?? null,
+    average_rank: completed.average_rank ?? null,
+    topics: (await repository.listTopics(analysis.id)).map(t => t.visibility_percentage ?? null),
+    competitors: (await repository.listCompetitors(analysis.id)).map(c => c.brand_name),
+    answers: (await repository.listQueryAnswers(analysis.id)).length
+  };
+}
+
+/**
+ * Run a phase in a child process so engine and cassette settings are read fresh
+ */
+function spawnPhase(phase: Phase, cassetteDir: string): PhaseResult {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    CHECK_ENGINES_PHASE: phase,
+    STORAGE_BACKEND: 'memory',
+    ENGINE_CASSETTE_MODE: phase,
+    ENGINE_CASSETTE_DIR: cassetteDir,
+    MOCK_ENGINE_LATENCY_MS: '0',
+    MOCK_ENGINE_FOCUS_BRAND: INSTITUTION
+  };
+  delete env.OPENAI_API_KEY;
+  delete env.MOCK_ENGINES;
+  if (phase === 'record') env.MOCK_ENGINES = 'true';
+
+  const output = execFileSync(process.execPath, [...process.execArgv, __filename], { env, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+  const resultLine = output.split('\n').find(line => line.startsWith('RESULT '));
+  assert.ok(resultLine, `${phase} run printed no result`);
+  return JSON.parse(resultLine.slice('RESULT '.length));
+}
+
+async function main() {
+  const phase = process.env.CHECK_ENGINES_PHASE as Phase | undefined;
+  if (phase) {
+    console.log(`RESULT ${JSON.stringify(await runPhase())}`);
+    return;
+  }
+
+  const cassetteDir = mkdtempSync(path.join(tmpdir(), 'engine-cassettes-'));
+
+  try {
+    const recorded = spawnPhase('record', cassetteDir);
+    console.log(`📼 Recorded ${readdirSync(path.join(cassetteDir, 'openai')).length} cassettes`);
+
+    assert.equal(recorded.status, 'completed');
+    assert.equal(recorded.progress, 100);
+    assert.ok(recorded.total_queries > 0, 'analysis should have queries');
+    assert.equal(recorded.answers, recorded.total_queries, 'one answer per query');
+    assert.ok(recorded.queries_mentioned > 0 && recorded.queries_mentioned < recorded.total_queries, 'mock answers mention the brand in some queries only');
+    assert.equal(recorded.overall_visibility_score, (recorded.queries_mentioned / recorded.total_queries) * 100);
+    assert.ok(recorded.average_rank !== null && recorded.average_rank >= 1, 'average rank of mentioned queries');
+    assert.ok(recorded.topics.length > 0 && recorded.topics.every(v => v !== null), 'every topic has a visibility');
+    assert.ok(recorded.competitors.length > 0, 'competitors are aggregated');
+    assert.ok(recorded.competitors.includes(INSTITUTION), 'focus brand is counted alongside competitors (share of voice)');
+
+    const replayed = spawnPhase('replay', cassetteDir);
+    assert.deepEqual(replayed, recorded, 'replayed run matches the recorded one');
+
+    console.log(`✅ Engine check passed: visibility ${recorded.overall_visibility_score?.toFixed(1)}% over ${recorded.total_queries} queries, replay identical`);
+  } finally {
+    rmSync(cassetteDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Engine check failed:', error);
+  process.exit(1);
+});
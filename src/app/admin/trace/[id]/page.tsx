@@ -0,0 +1,363 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import type { TraceEvent, TraceSummary } from '@/types';
+
+interface TracedQuery {
+  id: string;
+  query_text: string;
+  topic_name: string | null;
+  status: string;
+  error_message: string | null;
+  summary: TraceSummary;
+}
+
+interface TraceData {
+  analysis: {
+    id: string;
+    institution_name: string;
+    status: string;
+    created_at: string;
+    engines: string[];
+  };
+  summary: TraceSummary;
+  queries: TracedQuery[];
+  query_id: string | null;
+  events: TraceEvent[];
+}
+
+// Sent as a Bearer token when the server sets ADMIN_SECRET; kept for the browser session only
+const TOKEN_KEY = 'adminTraceToken';
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-50 text-green-700 border-green-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  cancelled: 'bg-gray-100 text-gray-600 border-gray-300'
+};
+
+const VALIDATION_LABELS: Record<string, string> = {
+  alias: 'Alias',
+  llm: 'LLM',
+  no_brands: 'No brands',
+  llm_error: 'LLM error'
+};
+
+const formatMs = (ms: number | null) => (ms == null ? '-' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`);
+const formatCount = (value: number) => value.toLocaleString('en-US');
+
+/**
+ * One line describing what the event recorded
+ */
+function describeEvent(event: TraceEvent): string {
+  switch (event.type) {
+    case 'http_attempt': {
+      const { provider, attempt, max_retries, status, outcome, latency_ms, retry_in_ms, error } = event.data;
+      const result = status === null ? outcome.replace('_', ' ') : `HTTP ${status}`;
+      const retry = retry_in_ms !== null ? ` - retrying in ${formatMs(retry_in_ms)}` : '';
+      return `${provider} attempt ${attempt}/${max_retries}: ${result} after ${formatMs(latency_ms)}${retry}${error ? ` (${error})` : ''}`;
+    }
+    case 'token_usage':
+      return `${event.data.provider} ${event.data.model}: ${formatCount(event.data.input_tokens)} in / ${formatCount(event.data.output_tokens)} out tokens`;
+    case 'json_fallback':
+      return event.data.outcome === 'sanitized'
+        ? `${event.data.context}: parsed after sanitization (${formatCount(event.data.length)} chars)`
+        : `${event.data.context}: parse failed - ${event.data.error}`;
+    case 'brand_validation': {
+      const { method, found, position, confidence, error } = event.data;
+      if (error) return `${VALIDATION_LABELS[method]}: ${error}`;
+      return `${VALIDATION_LABELS[method]}: ${found ? `found at #${position}` : 'not found'} (${confidence} confidence)`;
+    }
+    case 'answer_finished': {
+      const { status, latency_ms, rank, brands, citations, error } = event.data;
+      if (status !== 'completed') return `Answer ${status} after ${formatMs(latency_ms)}${error ? ` - ${error}` : ''}`;
+      return `Answer completed in ${formatMs(latency_ms)}: ${rank > 0 ? `rank #${rank}` : 'not mentioned'}, ${brands} brands, ${citations} citations`;
+    }
+  }
+}
+
+function isProblem(event: TraceEvent): boolean {
+  return (event.type === 'http_attempt' && event.data.outcome !== 'ok')
+    || (event.type === 'json_fallback' && event.data.outcome === 'failed')
+    || (event.type === 'brand_validation' && event.data.method === 'llm_error')
+    || (event.type === 'answer_finished' && event.data.status === 'failed');
+}
+
+function SummaryCards({ summary }: { summary: TraceSummary }) {
+  const statusCodes = Object.entries(summary.status_codes).sort(([a], [b]) => a.localeCompare(b));
+  const validations = Object.entries(summary.validations);
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      <Card className="p-5 bg-white border-gray-200 shadow-sm">
+        <div className="text-xs text-gray-500 uppercase mb-1">HTTP Requests</div>
+        <div className="text-2xl font-bold text-gray-900">{formatCount(summary.http_requests)}</div>
+        <div className="text-xs text-gray-500">{summary.http_retries} retried</div>
+      </Card>
+      <Card className="p-5 bg-white border-gray-200 shadow-sm">
+        <div className="text-xs text-gray-500 uppercase mb-1">Status Codes</div>
+        <div className="text-sm text-gray-900 space-y-0.5">
+          {statusCodes.length === 0 && <span className="text-gray-400">-</span>}
+          {statusCodes.map(([code, count]) => (
+            <div key={code}>
+              <span className={code === '200' ? 'text-green-700' : 'text-red-600'}>{code}</span> × {count}
+            </div>
+          ))}
+        </div>
+      </Card>
+      <Card className="p-5 bg-white border-gray-200 shadow-sm">
+        <div className="text-xs text-gray-500 uppercase mb-1">JSON Fallbacks</div>
+        <div className="text-2xl font-bold text-gray-900">{summary.json_sanitized}</div>
+        <div className="text-xs text-gray-500">{summary.json_failed} failed to parse</div>
+      </Card>
+      <Card className="p-5 bg-white border-gray-200 shadow-sm">
+        <div className="text-xs text-gray-500 uppercase mb-1">Validation</div>
+        <div className="text-sm text-gray-900 space-y-0.5">
+          {validations.length === 0 && <span className="text-gray-400">-</span>}
+          {validations.map(([method, count]) => (
+            <div key={method}>{VALIDATION_LABELS[method]} × {count}</div>
+          ))}
+        </div>
+      </Card>
+      <Card className="p-5 bg-white border-gray-200 shadow-sm">
+        <div className="text-xs text-gray-500 uppercase mb-1">Answers</div>
+        <div className="text-2xl font-bold text-gray-900">{summary.answers_completed}</div>
+        <div className="text-xs text-gray-500">
+          {summary.answers_failed} failed · avg {formatMs(summary.average_latency_ms)}
+        </div>
+      </Card>
+      <Card className="p-5 bg-white border-gray-200 shadow-sm">
+        <div className="text-xs text-gray-500 uppercase mb-1">Tokens</div>
+        <div className="text-2xl font-bold text-gray-900">{formatCount(summary.input_tokens + summary.output_tokens)}</div>
+        <div className="text-xs text-gray-500">
+          {formatCount(summary.input_tokens)} in / {formatCount(summary.output_tokens)} out
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+export default function PipelineTracePage() {
+  const params = useParams();
+  const router = useRouter();
+  const analysisId = params.id as string;
+  const [data, setData] = useState<TraceData | null>(null);
+  const [queryId, setQueryId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [needsToken, setNeedsToken] = useState(false);
+  const [tokenInput, setTokenInput] = useState('');
+
+  const fetchTrace = useCallback(async (selectedQueryId: string | null) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const token = sessionStorage.getItem(TOKEN_KEY);
+      const search = selectedQueryId ? `?query=${encodeURIComponent(selectedQueryId)}` : '';
+      const response = await fetch(`/api/analysis/${analysisId}/trace${search}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {}
+      });
+
+      if (response.status === 401) {
+        setNeedsToken(true);
+        return;
+      }
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load pipeline trace');
+      }
+
+      setNeedsToken(false);
+      setData(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pipeline trace');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [analysisId]);
+
+  // Open on the query in ?query=.. when linked to one
+  useEffect(() => {
+    const selected = new URLSearchParams(window.location.search).get('query');
+    setQueryId(selected);
+    fetchTrace(selected);
+  }, [fetchTrace]);
+
+  const selectQuery = (id: string | null) => {
+    setQueryId(id);
+    router.replace(id ? `/admin/trace/${analysisId}?query=${encodeURIComponent(id)}` : `/admin/trace/${analysisId}`);
+    fetchTrace(id);
+  };
+
+  const handleToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    sessionStorage.setItem(TOKEN_KEY, tokenInput.trim());
+    fetchTrace(queryId);
+  };
+
+  if (needsToken) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <Card className="p-8 bg-white border-gray-200 shadow-sm w-full max-w-sm">
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Admin access</h2>
+          <p className="text-sm text-gray-500 mb-4">Enter the admin secret to view the pipeline trace.</p>
+          <form onSubmit={handleToken} className="space-y-3">
+            <Input type="password" value={tokenInput} onChange={e => setTokenInput(e.target.value)} placeholder="ADMIN_SECRET" />
+            <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={!tokenInput.trim()}>
+              Continue
+            </Button>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        {isLoading
+          ? <Loader2 className="w-12 h-12 animate-spin text-blue-600" />
+          : <p className="text-lg text-gray-600">{error || 'Pipeline trace not found'}</p>}
+      </div>
+    );
+  }
+
+  const selectedQuery = data.queries.find(q => q.id === data.query_id) ?? null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white sticky top-0 z-50 shadow-sm">
+        <div className="container mx-auto px-8 py-5 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Pipeline Trace</h1>
+            <p className="text-sm text-gray-500">
+              {data.analysis.institution_name} · {data.analysis.engines.join(', ')} ·{' '}
+              {new Date(data.analysis.created_at).toLocaleString('en-US')}
+            </p>
+          </div>
+          <Link href={`/report/${data.analysis.id}`}>
+            <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Report
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-8 py-10">
+        <div className="max-w-7xl mx-auto space-y-8">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Summary of the analysis, or of the selected query */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-gray-900">
+                {selectedQuery ? `Query: ${selectedQuery.query_text}` : 'Whole analysis'}
+              </h2>
+              {selectedQuery && (
+                <Button variant="outline" size="sm" onClick={() => selectQuery(null)}>
+                  Back to analysis
+                </Button>
+              )}
+            </div>
+            {selectedQuery?.error_message && (
+              <p className="text-sm text-red-600">{selectedQuery.error_message}</p>
+            )}
+            <SummaryCards summary={selectedQuery ? selectedQuery.summary : data.summary} />
+          </div>
+
+          {/* Events */}
+          <Card className="p-6 bg-white border-gray-200 shadow-sm">
+            <h2 className="text-lg font-bold text-gray-900 mb-1">
+              {selectedQuery ? 'Events' : 'Problems'}
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {selectedQuery
+                ? 'Everything recorded while this query was answered, oldest first.'
+                : 'Retries, HTTP errors, JSON fallbacks, validation errors and failed answers across every query.'}
+            </p>
+            {isLoading && <Loader2 className="w-6 h-6 animate-spin text-blue-600" />}
+            {!isLoading && data.events.length === 0 && (
+              <p className="text-sm text-gray-400">No events recorded.</p>
+            )}
+            <ul className="divide-y divide-gray-100">
+              {data.events.map(event => (
+                <li key={event.id} className="py-2 flex flex-wrap items-baseline gap-x-3 gap-y-1 text-sm">
+                  <span className="font-mono text-xs text-gray-400 w-24 shrink-0">
+                    {new Date(event.created_at).toLocaleTimeString('en-US', { hour12: false })}
+                  </span>
+                  <Badge variant="outline" className={isProblem(event) ? 'border-red-200 bg-red-50 text-red-700' : ''}>
+                    {event.type}
+                  </Badge>
+                  <span className="text-xs text-gray-500">
+                    {[event.engine, event.sample_index !== null ? `sample ${event.sample_index + 1}` : null, event.step]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </span>
+                  <span className="text-gray-800 flex-1 min-w-[16rem]">{describeEvent(event)}</span>
+                  {!selectedQuery && event.query_id && (
+                    <button className="text-xs text-blue-600 hover:underline" onClick={() => selectQuery(event.query_id)}>
+                      View query
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </Card>
+
+          {/* Per-query breakdown */}
+          {!selectedQuery && (
+            <Card className="p-6 bg-white border-gray-200 shadow-sm overflow-x-auto">
+              <h2 className="text-lg font-bold text-gray-900 mb-4">Queries</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+                    <th className="py-2 pr-4">Query</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4 text-right">Requests</th>
+                    <th className="py-2 pr-4 text-right">Retries</th>
+                    <th className="py-2 pr-4 text-right">JSON Fallbacks</th>
+                    <th className="py-2 pr-4 text-right">Avg Latency</th>
+                    <th className="py-2 text-right">Tokens</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.queries.map(query => (
+                    <tr
+                      key={query.id}
+                      className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      onClick={() => selectQuery(query.id)}
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="text-gray-900">{query.query_text}</div>
+                        {query.topic_name && <div className="text-xs text-gray-500">{query.topic_name}</div>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="outline" className={STATUS_STYLES[query.status] || ''}>{query.status}</Badge>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{query.summary.http_requests}</td>
+                      <td className="py-2 pr-4 text-right">{query.summary.http_retries}</td>
+                      <td className="py-2 pr-4 text-right">{query.summary.json_sanitized + query.summary.json_failed}</td>
+                      <td className="py-2 pr-4 text-right">{formatMs(query.summary.average_latency_ms)}</td>
+                      <td className="py-2 text-right">{formatCount(query.summary.input_tokens + query.summary.output_tokens)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
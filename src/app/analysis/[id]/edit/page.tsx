@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { ArrowRight, Home, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+
+interface DraftTopic {
+  topic: string;
+  prompts: string[];
+}
+
+export default function DraftEditorPage() {
+  const params = useParams();
+  const router = useRouter();
+  const analysisId = params.id as string;
+
+  const [institutionName, setInstitutionName] = useState('');
+  const [topics, setTopics] = useState<DraftTopic[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDraft = async () => {
+      try {
+        const response = await fetch(`/api/analysis/${analysisId}/draft`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load draft');
+        }
+
+        // Already started - nothing left to edit
+        if (data.status !== 'draft') {
+          router.replace(data.status === 'completed' ? `/report/${analysisId}` : `/?analysisId=${analysisId}`);
+          return;
+        }
+
+        setInstitutionName(data.institutionName);
+        setTopics(data.topics);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load draft');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (analysisId) {
+      fetchDraft();
+    }
+  }, [analysisId, router]);
+
+  const updateTopic = (topicIndex: number, update: (topic: DraftTopic) => DraftTopic) => {
+    setSavedMessage(null);
+    setTopics(prev => prev.map((topic, index) => index === topicIndex ? update(topic) : topic));
+  };
+
+  const removeTopic = (topicIndex: number) => {
+    setSavedMessage(null);
+    setTopics(prev => prev.filter((_, index) => index !== topicIndex));
+  };
+
+  const addTopic = () => {
+    setSavedMessage(null);
+    setTopics(prev => [...prev, { topic: '', prompts: [''] }]);
+  };
+
+  const totalQueries = topics.reduce((sum, topic) => sum + topic.prompts.filter(p => p.trim()).length, 0);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/analysis/${analysisId}/draft`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ topics })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save draft');
+      }
+
+      setSavedMessage(`Saved ${data.totalTopics} topics and ${data.totalQueries} queries`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save draft');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/analysis/${analysisId}/start`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ topics })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start analysis');
+      }
+
+      // The landing page follows progress and redirects to the report
+      router.push(`/?analysisId=${analysisId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start analysis');
+      setIsStarting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-lg text-gray-600">Loading generated topics...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isBusy = isSaving || isStarting;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white sticky top-0 z-50 shadow-sm">
+        <div className="container mx-auto px-8 py-5">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Review Topics & Queries</h1>
+              <p className="text-sm text-gray-500">
+                {institutionName} · {topics.length} topics · {totalQueries} queries
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+                  <Home className="mr-2 h-4 w-4" />
+                  Home
+                </Button>
+              </Link>
+              <Button variant="outline" size="sm" onClick={handleSave} disabled={isBusy || topics.length === 0}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Draft
+              </Button>
+              <Button
+                size="sm"
+                className="bg-blue-600 hover:bg-blue-700"
+                onClick={handleStart}
+                disabled={isBusy || totalQueries === 0}
+              >
+                {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowRight className="mr-2 h-4 w-4" />}
+                Start Analysis
+              </Button>
+            </div>
+          </div>
+          {(error || savedMessage) && (
+            <p className={`text-sm mt-3 ${error ? 'text-red-600' : 'text-green-700'}`}>{error || savedMessage}</p>
+          )}
+        </div>
+      </header>
+
+      {/* Topics */}
+      <main className="container mx-auto px-8 py-10">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <p className="text-sm text-gray-600">
+            These queries were generated for {institutionName}. Rename, remove or add topics and queries,
+            then start the analysis - every query is asked exactly as written here.
+          </p>
+
+          {topics.map((topic, topicIndex) => (
+            <Card key={topicIndex} className="p-6 bg-white border-gray-200 shadow-sm space-y-3">
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-semibold text-gray-500 w-8">#{topicIndex + 1}</span>
+                <Input
+                  value={topic.topic}
+                  placeholder="Topic name"
+                  className="font-semibold text-gray-900"
+                  onChange={e => updateTopic(topicIndex, t => ({ ...t, topic: e.target.value }))}
+                  disabled={isBusy}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-500 hover:text-red-600"
+                  onClick={() => removeTopic(topicIndex)}
+                  disabled={isBusy}
+                  aria-label="Delete topic"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-2 pl-11">
+                {topic.prompts.map((prompt, promptIndex) => (
+                  <div key={promptIndex} className="flex items-center gap-2">
+                    <Input
+                      value={prompt}
+                      placeholder="Query as a user would ask it"
+                      className="text-sm"
+                      onChange={e => updateTopic(topicIndex, t => ({
+                        ...t,
+                        prompts: t.prompts.map((p, index) => index === promptIndex ? e.target.value : p)
+                      }))}
+                      disabled={isBusy}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => updateTopic(topicIndex, t => ({
+                        ...t,
+                        prompts: t.prompts.filter((_, index) => index !== promptIndex)
+                      }))}
+                      disabled={isBusy}
+                      aria-label="Delete query"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-blue-600 hover:text-blue-700"
+                  onClick={() => updateTopic(topicIndex, t => ({ ...t, prompts: [...t.prompts, ''] }))}
+                  disabled={isBusy}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Query
+                </Button>
+              </div>
+            </Card>
+          ))}
+
+          <Button variant="outline" onClick={addTopic} disabled={isBusy}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Topic
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+// API Route: POST /api/analysis/[id]/cancel
+// Stops a pending or running analysis (or discards a draft); unprocessed queries are marked 'cancelled'
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { cancelPendingJobs } from '@/lib/job-queue';
+import { abortAnalysis } from '@/lib/cancellation';
+import { recordProgressEvent } from '@/lib/progress-events';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+
+    if (!analysisId) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // 1. Fetch analysis
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (analysis.status !== 'draft' && analysis.status !== 'pending' && analysis.status !== 'processing') {
+      return NextResponse.json(
+        { error: `Analysis is already ${analysis.status}` },
+        { status: 409 }
+      );
+    }
+
+    // 2. Mark analysis as cancelled (the worker polls this to stop in-flight work)
+    // Conditional, so an analysis that finished since it was read keeps its outcome
+    const cancelled = await repository.updateAnalysisIfStatus(analysisId, ['draft', 'pending', 'processing'], {
+      status: 'cancelled',
+      updated_at: new Date().toISOString()
+    });
+
+    if (!cancelled) {
+      const current = await repository.getAnalysis(analysisId);
+      return NextResponse.json(
+        { error: `Analysis is already ${current?.status ?? 'deleted'}` },
+        { status: 409 }
+      );
+    }
+
+    // 3. Drop queued jobs and skip every query that has not finished
+    await cancelPendingJobs(analysisId);
+
+    const cancelledQueries = await repository.updateQueriesByStatus(analysisId, ['pending', 'processing'], {
+      status: 'cancelled',
+      processed_at: new Date().toISOString()
+    });
+
+    // 4. Abort in-flight requests immediately if this process is running the analysis
+    const abortedLocally = abortAnalysis(analysisId);
+
+    // 5. Tell open progress streams
+    await recordProgressEvent(analysisId, 'cancelled', { cancelled_queries: cancelledQueries.length });
+
+    console.log(`🛑 Cancelled analysis ${analysisId} (${cancelledQueries.length} queries skipped${abortedLocally ? ', in-flight requests aborted' : ''})`);
+
+    return NextResponse.json({
+      analysisId,
+      status: 'cancelled',
+      cancelledQueries: cancelledQueries.length
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Cancel failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel analysis',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+// API Route: GET/PUT /api/analysis/[id]/draft
+// Reads and saves the topics and queries of a draft analysis before processing starts
+// PUT body: { topics: [{ topic: string, prompts: string[] }] } - replaces the whole set
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { MAX_DRAFT_TOPICS, MAX_QUERIES_PER_TOPIC, parseDraftTopics, saveDraftTopics } from '@/lib/analysis-draft';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+
+    // 1. Fetch analysis
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. Rebuild the editable topic list from the stored rows
+    const topics = await repository.listTopics(analysisId);
+    const queries = await repository.listQueries(analysisId);
+
+    const draftTopics = topics.map(topic => ({
+      topic: topic.topic_name,
+      prompts: queries
+        .filter(q => q.topic_id === topic.id)
+        .sort((a, b) => a.query_order - b.query_order)
+        .map(q => q.query_text)
+    }));
+
+    return NextResponse.json({
+      analysisId,
+      institutionName: analysis.institution_name,
+      status: analysis.status,
+      topics: draftTopics
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to fetch draft:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch draft',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+
+    // 1. Parse request body
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const topics = parseDraftTopics(body.topics);
+
+    if (!topics) {
+      return NextResponse.json(
+        { error: `topics must list 1-${MAX_DRAFT_TOPICS} named topics, each with 1-${MAX_QUERIES_PER_TOPIC} queries` },
+        { status: 400 }
+      );
+    }
+
+    // 2. Only drafts can be edited - processing works on the stored queries
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (analysis.status !== 'draft') {
+      return NextResponse.json(
+        { error: `Only draft analyses can be edited (currently ${analysis.status})` },
+        { status: 409 }
+      );
+    }
+
+    // 3. Replace topics and queries
+    const totalQueries = await saveDraftTopics(analysis, topics);
+
+    return NextResponse.json({
+      analysisId,
+      totalTopics: topics.length,
+      totalQueries
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to save draft:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save draft',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// API Route: GET /api/analysis/[id]/events
+// Server-Sent Events stream of an analysis' progress events (see lib/progress-events).
+// Replays every recorded event, then follows new ones until the analysis has finished.
+// Streams end before the function time limit; browsers then reconnect with Last-Event-ID
+// and the stream resumes after the last event they received.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { isTerminalProgressEvent, listProgressEvents, waitForProgressEvent, withoutSupersededOutcomes } from '@/lib/progress-events';
+
+export const maxDuration = 300;
+
+// Configuration
+const STREAM_CONFIG = {
+  POLL_INTERVAL_MS: 1000, // Events recorded by a worker on another process are read this often
+  KEEP_ALIVE_MS: 15000, // Comment line so proxies don't close an idle stream
+  MAX_DURATION_MS: 280000, // Close before maxDuration; the browser reconnects
+  RECONNECT_MS: 3000
+};
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+
+    if (!analysisId) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // 1. Fetch analysis
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. Resume after the last event the browser received, if reconnecting
+    const lastEventId = Number(request.headers.get('last-event-id'));
+    let lastSequence = Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+    // 3. Stream events until the analysis has finished or the client disconnects
+    const signal = request.signal;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const startedAt = Date.now();
+        let lastWriteAt = startedAt;
+        let endedOnTerminalEvent = false;
+
+        const send = (text: string) => {
+          controller.enqueue(encoder.encode(text));
+          lastWriteAt = Date.now();
+        };
+
+        try {
+          send(`retry: ${STREAM_CONFIG.RECONNECT_MS}\n\n`);
+
+          while (!signal.aborted && Date.now() - startedAt < STREAM_CONFIG.MAX_DURATION_MS) {
+            const events = await listProgressEvents(analysisId, lastSequence);
+
+            for (const event of withoutSupersededOutcomes(events)) {
+              send(`id: ${event.sequence}\ndata: ${JSON.stringify(event)}\n\n`);
+              lastSequence = event.sequence;
+              endedOnTerminalEvent = isTerminalProgressEvent(event);
+            }
+
+            // A terminal event is followed by nothing until a new run is queued
+            if (endedOnTerminalEvent) {
+              const current = await repository.getAnalysis(analysisId);
+              if (!current || FINISHED_STATUSES.includes(current.status)) break;
+            }
+
+            if (Date.now() - lastWriteAt >= STREAM_CONFIG.KEEP_ALIVE_MS) {
+              send(': keep-alive\n\n');
+            }
+
+            await waitForProgressEvent(analysisId, STREAM_CONFIG.POLL_INTERVAL_MS, signal);
+          }
+        } catch (error) {
+          // The browser reconnects and resumes after the last event sent
+          if (!signal.aborted) {
+            console.error(`❌ Progress stream for analysis ${analysisId} failed:`, error);
+          }
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        }
+      }
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to open progress stream:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to open progress stream',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+// API Route: POST /api/analysis/[id]/retry
+// Re-queues only the failed or stuck queries of a completed or failed analysis
+// Completed answers are kept; metrics are recomputed once the retried queries finish
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { enqueueAnalysisJob, findActiveJob } from '@/lib/job-queue';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+
+    if (!analysisId) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // 1. Fetch analysis
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. Only finished runs are retried - drafts were never started and cancelled work stays cancelled
+    if (analysis.status !== 'completed' && analysis.status !== 'failed') {
+      return NextResponse.json(
+        { error: `Only completed or failed analyses can be retried (currently ${analysis.status})` },
+        { status: 409 }
+      );
+    }
+
+    // 3. Refuse while a worker still owns (or is about to own) this analysis
+    const activeJob = await findActiveJob(analysisId);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'Analysis is already being processed' },
+        { status: 409 }
+      );
+    }
+
+    // 4. Claim the retry: only one request moves the analysis out of completed/failed
+    // (completed_at is kept: the run's time on trend charts)
+    const claimed = await repository.updateAnalysisIfStatus(analysisId, ['completed', 'failed'], {
+      status: 'pending',
+      updated_at: new Date().toISOString()
+    });
+
+    if (!claimed) {
+      return NextResponse.json(
+        { error: 'Analysis is already being retried' },
+        { status: 409 }
+      );
+    }
+
+    // 5. Re-queue failed and stuck queries (completed answers are left untouched)
+    const requeued = await repository.updateQueriesByStatus(analysisId, ['failed', 'processing'], {
+      status: 'pending',
+      error_message: null,
+      processed_at: null
+    });
+
+    const requeuedCount = requeued.length;
+
+    if (requeuedCount === 0) {
+      await repository.updateAnalysis(analysisId, { status: analysis.status });
+      return NextResponse.json({
+        analysisId,
+        requeuedQueries: 0,
+        message: 'No failed queries to retry'
+      });
+    }
+
+    console.log(`🔁 Re-queued ${requeuedCount} queries for analysis ${analysisId}`);
+
+    // 6. Put the analysis back in the queue; if that fails, leave it retryable as it was
+    try {
+      await enqueueAnalysisJob(analysisId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await repository.updateQueries(requeued.map(q => q.id), {
+        status: 'failed',
+        error_message: `Failed to queue retry: ${message}`
+      });
+      await repository.updateAnalysis(analysisId, { status: analysis.status });
+      throw error;
+    }
+
+    return NextResponse.json({
+      analysisId,
+      requeuedQueries: requeuedCount,
+      message: 'Retry started'
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Retry failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to retry analysis',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
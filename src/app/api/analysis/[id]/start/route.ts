@@ -0,0 +1,79 @@
+// API Route: POST /api/analysis/[id]/start
+// Starts processing a draft analysis on its (edited) topics and queries
+// Body (optional): { topics: [{ topic: string, prompts: string[] }] } - saved before starting
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { MAX_DRAFT_TOPICS, MAX_QUERIES_PER_TOPIC, parseDraftTopics, saveDraftTopics, startDraftAnalysis } from '@/lib/analysis-draft';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+
+    // 1. Parse request body (may be empty)
+    const body = await request.json().catch(() => ({}));
+    const topics = body?.topics === undefined ? undefined : parseDraftTopics(body.topics);
+
+    if (topics === null) {
+      return NextResponse.json(
+        { error: `topics must list 1-${MAX_DRAFT_TOPICS} named topics, each with 1-${MAX_QUERIES_PER_TOPIC} queries` },
+        { status: 400 }
+      );
+    }
+
+    // 2. Fetch analysis
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (analysis.status !== 'draft') {
+      return NextResponse.json(
+        { error: `Analysis has already been started (currently ${analysis.status})` },
+        { status: 409 }
+      );
+    }
+
+    // 3. Save the last edits, if sent along
+    if (topics) {
+      await saveDraftTopics(analysis, topics);
+    }
+
+    const queries = await repository.listQueries(analysisId);
+    if (queries.length === 0) {
+      return NextResponse.json(
+        { error: 'Draft has no queries to process' },
+        { status: 400 }
+      );
+    }
+
+    // 4. Queue the analysis for the background worker
+    console.log(`🚀 Starting draft ${analysisId} with ${queries.length} queries`);
+    await startDraftAnalysis(analysisId);
+
+    return NextResponse.json({
+      analysisId,
+      status: 'pending',
+      message: 'Analysis started',
+      totalQueries: queries.length
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to start analysis:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start analysis',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
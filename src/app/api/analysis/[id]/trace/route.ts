@@ -0,0 +1,111 @@
+// API Route: GET /api/analysis/[id]/trace?query=<queryId>
+// Admin view of an analysis' pipeline trace (see lib/pipeline-trace): a summary for the analysis and
+// each query, plus the events of one query - or, without ?query, every event that went wrong.
+// Set ADMIN_SECRET to require "Authorization: Bearer <secret>".
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { listTraceEvents, summarizeTrace } from '@/lib/pipeline-trace';
+import { resolveAnalysisEngines } from '@/lib/answer-engine';
+import type { TraceEvent } from '@/types';
+
+/**
+ * Events worth showing across a whole analysis: retries, HTTP errors, JSON fallbacks,
+ * validation errors and failed answers
+ */
+function isProblemEvent(event: TraceEvent): boolean {
+  switch (event.type) {
+    case 'http_attempt':
+      return event.data.outcome !== 'ok';
+    case 'json_fallback':
+      return true;
+    case 'brand_validation':
+      return event.data.method === 'llm_error';
+    case 'answer_finished':
+      return event.data.status === 'failed';
+    default:
+      return false;
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const secret = process.env.ADMIN_SECRET;
+    if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: analysisId } = await params;
+    const queryId = request.nextUrl.searchParams.get('query');
+
+    // 1. Fetch analysis
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. Fetch queries, topics and every trace event
+    const [queries, topics, events] = await Promise.all([
+      repository.listQueries(analysisId),
+      repository.listTopics(analysisId),
+      listTraceEvents(analysisId)
+    ]);
+
+    if (queryId && !queries.some(q => q.id === queryId)) {
+      return NextResponse.json(
+        { error: 'Query not found in this analysis' },
+        { status: 404 }
+      );
+    }
+
+    // 3. Summarize the analysis and each query
+    const topicNames = new Map(topics.map(t => [t.id, t.topic_name]));
+    const eventsByQuery = new Map<string, TraceEvent[]>();
+    for (const event of events) {
+      if (!event.query_id) continue;
+      eventsByQuery.set(event.query_id, [...(eventsByQuery.get(event.query_id) || []), event]);
+    }
+
+    return NextResponse.json({
+      analysis: {
+        id: analysis.id,
+        institution_name: analysis.institution_name,
+        status: analysis.status,
+        created_at: analysis.created_at,
+        engines: resolveAnalysisEngines(analysis)
+      },
+      summary: summarizeTrace(events),
+      queries: queries.map(query => ({
+        id: query.id,
+        query_text: query.query_text,
+        topic_name: topicNames.get(query.topic_id) ?? null,
+        status: query.status,
+        error_message: query.error_message ?? null,
+        summary: summarizeTrace(eventsByQuery.get(query.id) || [])
+      })),
+      query_id: queryId,
+      events: queryId ? eventsByQuery.get(queryId) || [] : events.filter(isProblemEvent)
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to fetch pipeline trace:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch pipeline trace',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// API Route: POST /api/analyze/import
+// Creates a draft analysis from a curated query set (CSV or JSON) instead of Prompt #1
+// Body: { institutionName, location, format: 'csv' | 'json', content: string, ...same options as /api/analyze }
+// Processing begins once the draft is started (POST /api/analysis/[id]/start)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { createTopicsAndQueries } from '@/lib/analysis-draft';
+import { parseAnalysisOptions, resolveBrandAliases } from '@/lib/analysis-options';
+import { parseQueryImport, QueryImportError } from '@/lib/query-import';
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Parse request body
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { institutionName, location, format, content } = body;
+
+    if (!institutionName || typeof institutionName !== 'string' || !institutionName.trim()) {
+      return NextResponse.json(
+        { error: 'Institution name is required' },
+        { status: 400 }
+      );
+    }
+
+    // Without Prompt #1 nothing researches the location, so the user supplies it
+    if (!location || typeof location !== 'string' || !location.trim()) {
+      return NextResponse.json(
+        { error: 'Location is required (e.g. "Pune, Maharashtra, India")' },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'format must be "csv" or "json"' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { error: 'content must be the text of the CSV or JSON file' },
+        { status: 400 }
+      );
+    }
+
+    // Engines, sampling, weights, aliases and vertical profile
+    const parsed = parseAnalysisOptions(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { engines, samplesPerQuery, rankWeights, brandAliases, vertical, verticalDescription } = parsed.options;
+
+    // 2. Validate the query set (Prompt #1 is skipped entirely)
+    const topics = parseQueryImport(content, format);
+    const name = institutionName.trim();
+
+    console.log(`\n📥 Importing ${vertical} analysis for: ${name} (${location.trim()})\n`);
+
+    // 3. Create analysis record
+    const repository = getRepository();
+    const analysis = await repository.createAnalysis({
+      institution_name: name, // Used as typed - there is no Prompt #1 correction
+      location: location.trim(), // Save location for regional web search
+      engine: engines[0], // Primary answer engine for Prompts #2/#3
+      engines, // Every query is answered by each of these
+      samples_per_query: samplesPerQuery, // Times each query is asked per engine
+      rank_weights: rankWeights, // Default table when not supplied
+      vertical,
+      vertical_description: verticalDescription,
+      brand_aliases: resolveBrandAliases(brandAliases, name),
+      topics,
+      status: 'draft', // Reviewed and edited before processing starts
+      total_queries: 0,
+      progress: 0
+    });
+
+    // 4. Create topic and query records
+    const totalQueries = await createTopicsAndQueries(analysis.id, name, topics);
+
+    await repository.updateAnalysis(analysis.id, {
+      total_queries: totalQueries
+    });
+
+    console.log(`✅ Imported draft ${analysis.id}: ${topics.length} topics with ${totalQueries} queries`);
+
+    // 5. Return the draft - nothing is queued until the user starts it
+    return NextResponse.json({
+      analysisId: analysis.id,
+      status: 'draft',
+      message: 'Draft created from import',
+      totalTopics: topics.length,
+      totalQueries
+    });
+
+  } catch (error: unknown) {
+    if (error instanceof QueryImportError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Query import failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import queries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
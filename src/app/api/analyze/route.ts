@@ -1,16 +1,18 @@
 // API Route: POST /api/analyze
-// Starts a new analysis for an institution
+// Creates a draft analysis for an institution: Prompt #1 topics and queries, ready for review
+// Processing begins once the draft is started (POST /api/analysis/[id]/start)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase';
-import { generateTopicsAndQueriesWithPerplexity } from '@/lib/perplexity';
-import { processAnalysis } from '@/lib/batch-processor';
+import { getRepository } from '@/lib/repository';
+import { getAnswerEngine, isEngineId, DEFAULT_TOPIC_ENGINE, ENGINE_IDS } from '@/lib/answer-engine';
+import { createTopicsAndQueries } from '@/lib/analysis-draft';
+import { parseAnalysisOptions, resolveBrandAliases } from '@/lib/analysis-options';
 
 export async function POST(request: NextRequest) {
   try {
     // 1. Parse request body
     const body = await request.json();
-    const { institutionName } = body;
+    const { institutionName, topicEngine = DEFAULT_TOPIC_ENGINE } = body;
 
     if (!institutionName || typeof institutionName !== 'string') {
       return NextResponse.json(
@@ -19,11 +21,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`\n🎓 Starting analysis for: ${institutionName}\n`);
+    if (!isEngineId(topicEngine)) {
+      return NextResponse.json(
+        { error: `Unknown engine. Supported engines: ${ENGINE_IDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Engines, sampling, weights, aliases and vertical profile
+    const parsed = parseAnalysisOptions(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { engines, samplesPerQuery, rankWeights, brandAliases, vertical, verticalDescription } = parsed.options;
 
-    // 2. Generate topics and queries via Prompt #1 (using Perplexity)
-    console.log('📝 Step 1: Generating topics and queries with Perplexity...');
-    const topicsData = await generateTopicsAndQueriesWithPerplexity(institutionName);
+    console.log(`\n🎓 Starting ${vertical} analysis for: ${institutionName}\n`);
+
+    // 2. Generate topics and queries via Prompt #1 (Perplexity by default)
+    console.log(`📝 Step 1: Generating topics and queries with ${getAnswerEngine(topicEngine).label}...`);
+    const topicsData = await getAnswerEngine(topicEngine).generateTopics(institutionName, {
+      vertical,
+      verticalDescription
+    });
     console.log(`✅ Generated ${topicsData.topics.length} topics`);
 
     // Use corrected institution name and location from Prompt 1 (not user input)
@@ -34,98 +57,44 @@ export async function POST(request: NextRequest) {
 
     // 3. Create analysis record
     console.log('💾 Step 2: Creating analysis record...');
-    const { data: analysis, error: analysisError } = await supabaseAdmin
-      .from('analyses')
-      .insert({
-        institution_name: correctedInstitutionName, // Use corrected name
-        institution_type: topicsData.institution_type,
-        location: location, // Save location for regional web search
-        topics: topicsData.topics,
-        status: 'pending',
-        total_queries: topicsData.topics.length * 11,
-        progress: 0
-      })
-      .select()
-      .single();
-
-    if (analysisError) {
-      console.error('❌ Failed to create analysis:', analysisError);
-      throw analysisError;
-    }
+    const repository = getRepository();
+    const analysis = await repository.createAnalysis({
+      institution_name: correctedInstitutionName, // Use corrected name
+      institution_type: topicsData.institution_type,
+      location: location, // Save location for regional web search
+      engine: engines[0], // Primary answer engine for Prompts #2/#3
+      engines, // Every query is answered by each of these
+      topic_engine: topicEngine,
+      samples_per_query: samplesPerQuery, // Times each query is asked per engine
+      rank_weights: rankWeights, // Default table when not supplied
+      vertical,
+      vertical_description: verticalDescription,
+      brand_aliases: resolveBrandAliases(brandAliases, correctedInstitutionName),
+      topics: topicsData.topics,
+      status: 'draft', // Reviewed and edited before processing starts
+      total_queries: topicsData.topics.length * 11,
+      progress: 0
+    });
 
     console.log(`✅ Analysis created: ${analysis.id}`);
 
     // 4. Create topic and query records
     console.log('💾 Step 3: Creating topics and queries...');
-    let totalQueries = 0;
-
-    for (const [topicIndex, topic] of topicsData.topics.entries()) {
-      // Create topic record
-      const { data: topicRecord, error: topicError } = await supabaseAdmin
-        .from('topics')
-        .insert({
-          analysis_id: analysis.id,
-          topic_name: topic.topic,
-          topic_order: topicIndex + 1,
-          total_queries: topic.prompts.length
-        })
-        .select()
-        .single();
-
-      if (topicError) {
-        console.error(`❌ Failed to create topic ${topicIndex + 1}:`, topicError);
-        throw topicError;
-      }
-
-      // Create query records for this topic (pure, unbiased queries)
-      const queryInserts = topic.prompts.map((prompt: string, promptIndex: number) => {
-        totalQueries++;
-
-        return {
-          analysis_id: analysis.id,
-          topic_id: topicRecord.id,
-          query_text: prompt,
-          query_order: promptIndex + 1,
-          focused_brand: correctedInstitutionName, // Use corrected name for brand detection
-          status: 'pending'
-        };
-      });
-
-      const { error: queriesError } = await supabaseAdmin
-        .from('queries')
-        .insert(queryInserts);
-
-      if (queriesError) {
-        console.error(`❌ Failed to create queries for topic ${topicIndex + 1}:`, queriesError);
-        throw queriesError;
-      }
-    }
+    const totalQueries = await createTopicsAndQueries(analysis.id, correctedInstitutionName, topicsData.topics);
 
-    console.log(`✅ Created ${topicsData.topics.length} topics with ${totalQueries} queries`);
-
-    // Update progress to 25% after topics and queries are created
-    // Note: Don't set status='processing' here - processAnalysis() will do it
-    await supabaseAdmin
-      .from('analyses')
-      .update({
-        progress: 25
-      })
-      .eq('id', analysis.id);
-
-    console.log('✅ Progress updated to 25%');
-
-    // 5. Start background processing (non-blocking)
-    console.log('🚀 Step 4: Starting background processing...\n');
-    // Don't await - let it run in background
-    processAnalysis(analysis.id).catch(error => {
-      console.error(`❌ Background processing failed for ${analysis.id}:`, error);
+    await repository.updateAnalysis(analysis.id, {
+      total_queries: totalQueries
     });
 
-    // 6. Return analysis ID immediately
+    console.log(`✅ Created ${topicsData.topics.length} topics with ${totalQueries} queries`);
+
+    // 5. Return the draft - nothing is queued until the user starts it
+    console.log('📝 Draft ready for review\n');
     return NextResponse.json({
       analysisId: analysis.id,
-      message: 'Analysis started',
-      totalQueries: topicsData.topics.length * 11
+      status: 'draft',
+      message: 'Draft created',
+      totalQueries
     });
 
   } catch (error: any) {
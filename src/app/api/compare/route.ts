@@ -0,0 +1,64 @@
+// API Route: GET /api/compare?a=<analysisId>&b=<analysisId>
+// Side-by-side comparison of two completed analyses: visibility, topics, competitor overlap and cited domains
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { compareAnalyses } from '@/lib/analysis-comparison';
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Validate parameters
+    const idA = request.nextUrl.searchParams.get('a');
+    const idB = request.nextUrl.searchParams.get('b');
+
+    if (!idA || !idB) {
+      return NextResponse.json(
+        { error: 'Both analysis IDs are required (?a=...&b=...)' },
+        { status: 400 }
+      );
+    }
+
+    if (idA === idB) {
+      return NextResponse.json(
+        { error: 'Choose two different analyses to compare' },
+        { status: 400 }
+      );
+    }
+
+    // 2. Fetch both analyses
+    const repository = getRepository();
+    const [a, b] = await Promise.all([repository.getAnalysis(idA), repository.getAnalysis(idB)]);
+
+    for (const [id, analysis] of [[idA, a], [idB, b]] as const) {
+      if (!analysis) {
+        return NextResponse.json(
+          { error: `Analysis ${id} not found` },
+          { status: 404 }
+        );
+      }
+
+      // Metrics only exist once processing has finished
+      if (analysis.status !== 'completed') {
+        return NextResponse.json(
+          { error: `Analysis of ${analysis.institution_name} is ${analysis.status}; only completed analyses can be compared` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // 3. Align topics, competitors and domains
+    const comparison = await compareAnalyses(a!, b!);
+
+    return NextResponse.json(comparison);
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to compare analyses:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compare analyses',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
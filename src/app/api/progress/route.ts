@@ -2,7 +2,7 @@
 // Returns the current status and progress of an analysis
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { getRepository } from '@/lib/repository';
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,24 +17,18 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch analysis status and progress
-    const { data: analysis, error } = await supabase
-      .from('analyses')
-      .select('id, status, progress, completed_at')
-      .eq('id', analysisId)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return NextResponse.json(
-          { error: 'Analysis not found' },
-          { status: 404 }
-        );
-      }
-      throw error;
+    const analysis = await getRepository().getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
     }
 
     const isComplete = analysis.status === 'completed';
     const isFailed = analysis.status === 'failed';
+    const isCancelled = analysis.status === 'cancelled';
 
     return NextResponse.json({
       id: analysis.id,
@@ -42,6 +36,7 @@ export async function GET(request: NextRequest) {
       progress: analysis.progress,
       isComplete,
       isFailed,
+      isCancelled,
       completedAt: analysis.completed_at
     });
 
@@ -0,0 +1,101 @@
+// API Route: GET /api/query/[id]/diff?against=<analysisId>
+// Compares a query's answer with the same query in another run: answer text, brands mentioned and websites cited
+// Without `against`, uses the previous completed run of the same tracked institution
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { buildQueryDiff } from '@/lib/answer-diff';
+
+const normalizeQueryText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: queryId } = await params;
+    const against = request.nextUrl.searchParams.get('against');
+
+    // 1. Fetch query and its analysis
+    const repository = getRepository();
+    const query = await repository.getQuery(queryId);
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query not found' },
+        { status: 404 }
+      );
+    }
+
+    const analysis = await repository.getAnalysis(query.analysis_id);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. Other completed runs of the same tracked institution (oldest first)
+    const runs = analysis.tracked_institution_id
+      ? (await repository.listTrackedRuns(analysis.tracked_institution_id))
+          .filter(run => run.status === 'completed' && run.id !== analysis.id)
+      : [];
+
+    const other = against
+      ? runs.find(run => run.id === against) ?? await repository.getAnalysis(against)
+      : [...runs].reverse().find(run => run.created_at < analysis.created_at) ?? runs[runs.length - 1];
+
+    if (!other) {
+      return NextResponse.json(
+        { error: against ? 'Run not found' : 'No other run of this query to compare with' },
+        { status: 404 }
+      );
+    }
+
+    if (other.id === analysis.id) {
+      return NextResponse.json(
+        { error: 'Choose a different run to compare with' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Find the same query in the other run, preferring the same topic
+    const topics = await repository.listTopics(analysis.id);
+    const topicName = topics.find(t => t.id === query.topic_id)?.topic_name || '';
+
+    const otherTopics = await repository.listTopics(other.id);
+    const otherQueries = (await repository.listQueries(other.id))
+      .filter(q => normalizeQueryText(q.query_text) === normalizeQueryText(query.query_text));
+    const sameTopicIds = new Set(otherTopics.filter(t => t.topic_name === topicName).map(t => t.id));
+    const counterpart = otherQueries.find(q => sameTopicIds.has(q.topic_id)) ?? otherQueries[0];
+
+    if (!counterpart) {
+      return NextResponse.json(
+        { error: 'This query was not asked in the selected run' },
+        { status: 404 }
+      );
+    }
+
+    // 4. Diff, earlier run first
+    const diff = buildQueryDiff({ query, run: analysis }, { query: counterpart, run: other }, topicName);
+
+    return NextResponse.json({
+      diff,
+      runs: runs.map(run => ({
+        id: run.id,
+        run_at: run.completed_at || run.created_at
+      }))
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to compare query runs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compare query runs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
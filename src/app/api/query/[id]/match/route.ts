@@ -0,0 +1,122 @@
+// API Route: PATCH /api/query/[id]/match
+// Overrides the brand-match decision for a query after human review, then recomputes metrics
+// Body: { rank: number (0 = focus brand not mentioned), canonicalBrand?: string }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { resolveAnalysisEngines } from '@/lib/answer-engine';
+import { calculateAllMetrics } from '@/lib/metrics';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: queryId } = await params;
+
+    // 1. Parse request body
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { rank, canonicalBrand } = body;
+
+    // 2. Fetch query and its analysis
+    const repository = getRepository();
+    const query = await repository.getQuery(queryId);
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query not found' },
+        { status: 404 }
+      );
+    }
+
+    const analysis = await repository.getAnalysis(query.analysis_id);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    // Metrics are only recomputed for finished analyses
+    if (analysis.status !== 'completed') {
+      return NextResponse.json(
+        { error: `Matches can be reviewed once the analysis is completed (currently ${analysis.status})` },
+        { status: 409 }
+      );
+    }
+
+    const brandsMentioned = query.brands_mentioned || [];
+    if (!Number.isInteger(rank) || rank < 0 || rank > brandsMentioned.length) {
+      return NextResponse.json(
+        { error: `rank must be 0 (not mentioned) or a position from 1 to ${brandsMentioned.length}` },
+        { status: 400 }
+      );
+    }
+
+    if (canonicalBrand !== undefined && typeof canonicalBrand !== 'string') {
+      return NextResponse.json(
+        { error: 'canonicalBrand must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Apply the override to the query row
+    const matchedName = rank > 0 ? brandsMentioned[rank - 1] : null;
+    const canonical = rank > 0 ? canonicalBrand?.trim() || analysis.institution_name : null;
+
+    await repository.updateQueries([queryId], {
+      focused_brand_rank: rank,
+      canonical_brand: canonical,
+      matched_name: matchedName,
+      match_overridden: true,
+      match_reviewed_at: new Date().toISOString()
+    });
+
+    // 4. Keep the primary engine's answer (mirrored onto the query row) in step
+    const [primaryEngine] = resolveAnalysisEngines(analysis);
+    const answers = await repository.listQueryAnswersForQueries([queryId]);
+    const primaryAnswer = answers.find(a => a.engine === primaryEngine && (a.sample_index ?? 0) === 0);
+
+    if (primaryAnswer) {
+      await repository.upsertQueryAnswer({
+        query_id: primaryAnswer.query_id,
+        analysis_id: primaryAnswer.analysis_id,
+        topic_id: primaryAnswer.topic_id,
+        engine: primaryAnswer.engine,
+        sample_index: primaryAnswer.sample_index ?? 0,
+        status: primaryAnswer.status,
+        focused_brand_rank: rank,
+        canonical_brand: canonical,
+        matched_name: matchedName
+      });
+    }
+
+    console.log(`✏️  Match override for query ${queryId}: rank ${query.focused_brand_rank ?? 0} → ${rank}`);
+
+    // 5. Recompute visibility, competitors and topic metrics
+    await calculateAllMetrics(query.analysis_id);
+
+    return NextResponse.json({
+      query: await repository.getQuery(queryId)
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Match override failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to override match',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
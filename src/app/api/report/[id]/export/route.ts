@@ -0,0 +1,68 @@
+// API Route: GET /api/report/[id]/export?format=csv|json|xlsx
+// Downloads the full dataset of an analysis: summary, topic metrics, every query and answer, competitors and sources
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportReport,
+  getExportFileName,
+  isExportFormat,
+  loadReportDataset
+} from '@/lib/report-export';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'csv';
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // 1. Fetch analysis
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. Fetch everything stored for it
+    const dataset = await loadReportDataset(analysis);
+
+    // 3. Serialize and return as a download
+    const body = await exportReport(dataset, format);
+    const fileName = getExportFileName(analysis, format);
+
+    console.log(`📤 Exported ${analysis.institution_name} (${analysisId}) as ${format}`);
+
+    return new NextResponse(typeof body === 'string' ? body : new Uint8Array(body), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to export report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// API Route: GET /api/report/[id]/pdf
+// Renders a branded, multi-page PDF of a completed report on the server
+
+import { createElement, type ReactElement } from 'react';
+import { NextRequest, NextResponse } from 'next/server';
+import { renderToBuffer, type DocumentProps } from '@react-pdf/renderer';
+import { getReportData } from '@/lib/report-data';
+import { buildReportDocument } from '@/lib/report-document';
+import { getExportFileName } from '@/lib/report-export';
+import ReportPdf from '@/components/report/report-pdf';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: analysisId } = await params;
+
+    // 1. Fetch the same data as GET /api/report/[id]
+    const report = await getReportData(analysisId);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (report.analysis.status !== 'completed') {
+      return NextResponse.json(
+        { error: `The PDF is available once the analysis is completed (currently ${report.analysis.status})` },
+        { status: 409 }
+      );
+    }
+
+    // 2. Render the document
+    const document = buildReportDocument(report);
+    const pdf = await renderToBuffer(createElement(ReportPdf, { report: document }) as ReactElement<DocumentProps>);
+
+    console.log(`📄 Rendered PDF for ${report.analysis.institution_name} (${analysisId})`);
+
+    // 3. Return as a download
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getExportFileName(report.analysis, 'pdf')}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to render PDF:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render PDF',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 // API Route: GET /api/report/[id]
 // Fetches complete analysis data including topics, queries, competitors, and sources
+// Responds with the validated ReportResponse contract (see lib/report-response)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { getReportData } from '@/lib/report-data';
+import { toReportResponse } from '@/lib/report-response';
 
 export async function GET(
   request: NextRequest,
@@ -18,85 +20,27 @@ export async function GET(
       );
     }
 
-    // 1. Fetch analysis
-    const { data: analysis, error: analysisError } = await supabase
-      .from('analyses')
-      .select('*')
-      .eq('id', analysisId)
-      .single();
+    // 1. Fetch analysis with topics, queries, answers, competitors and sources
+    const report = await getReportData(analysisId);
 
-    if (analysisError) {
-      if (analysisError.code === 'PGRST116') {
-        return NextResponse.json(
-          { error: 'Analysis not found' },
-          { status: 404 }
-        );
-      }
-      throw analysisError;
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
     }
 
-    // 2. Fetch topics with their queries
-    const { data: topics, error: topicsError } = await supabase
-      .from('topics')
-      .select('*')
-      .eq('analysis_id', analysisId)
-      .order('topic_order', { ascending: true });
-
-    if (topicsError) throw topicsError;
-
-    // 3. Fetch all queries
-    const { data: queries, error: queriesError } = await supabase
-      .from('queries')
-      .select('*')
-      .eq('analysis_id', analysisId)
-      .order('created_at', { ascending: true });
-
-    if (queriesError) throw queriesError;
-
-    // 4. Fetch competitors
-    const { data: competitors, error: competitorsError } = await supabase
-      .from('competitors')
-      .select('*')
-      .eq('analysis_id', analysisId)
-      .order('mention_count', { ascending: false });
-
-    if (competitorsError) throw competitorsError;
-
-    // 5. Fetch sources
-    const { data: sources, error: sourcesError } = await supabase
-      .from('sources')
-      .select('*')
-      .eq('analysis_id', analysisId)
-      .order('citation_count', { ascending: false });
-
-    if (sourcesError) throw sourcesError;
-
-    // 6. Organize queries by topic
-    const topicsWithQueries = topics?.map(topic => ({
-      ...topic,
-      queries: queries?.filter(q => q.topic_id === topic.id) || []
-    })) || [];
+    // 2. Shape and validate the response
+    const response = toReportResponse(report);
 
-    // 7. Return complete report data
-    return NextResponse.json({
-      analysis,
-      topics: topicsWithQueries,
-      competitors: competitors || [],
-      sources: sources || [],
-      summary: {
-        totalTopics: topics?.length || 0,
-        totalQueries: queries?.length || 0,
-        totalCompetitors: competitors?.length || 0,
-        totalSources: sources?.length || 0
-      }
-    });
+    return NextResponse.json(response);
 
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('❌ Failed to fetch report:', error);
     return NextResponse.json(
       {
         error: 'Failed to fetch report',
-        details: error.message
+        details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
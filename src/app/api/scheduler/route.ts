@@ -0,0 +1,31 @@
+// API Route: GET /api/scheduler
+// Queues runs for tracked institutions that are due (for cron-driven / serverless deployments)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueTrackedInstitutions } from '@/lib/tracked-institutions';
+import { isAuthorizedWorkerRequest } from '@/lib/worker-auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedWorkerRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const started = await runDueTrackedInstitutions();
+
+    return NextResponse.json({ started });
+
+  } catch (error: unknown) {
+    console.error('❌ Scheduler tick failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Scheduler tick failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
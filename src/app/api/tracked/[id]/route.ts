@@ -0,0 +1,124 @@
+// API Route: GET/PATCH /api/tracked/[id]
+// Returns a tracked institution with its runs and visibility trend, or changes its schedule / pauses it
+// PATCH body: { schedule?: 'daily' | 'weekly' | 'monthly', active?: boolean }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { TRACKING_SCHEDULES, computeNextRunAt, isTrackingSchedule } from '@/lib/tracked-institutions';
+import { buildVisibilityTrend } from '@/lib/visibility-trends';
+import type { Patch, TrackedInstitution } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: trackedId } = await params;
+
+    // 1. Fetch tracked institution
+    const repository = getRepository();
+    const tracked = await repository.getTrackedInstitution(trackedId);
+
+    if (!tracked) {
+      return NextResponse.json(
+        { error: 'Tracked institution not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. Fetch its runs (snapshots), oldest first
+    const runs = await repository.listTrackedRuns(trackedId);
+
+    // 3. Time series across completed runs, with deltas since the previous run
+    const trend = await buildVisibilityTrend(tracked, runs);
+
+    return NextResponse.json({
+      tracked,
+      runs: runs.map(run => ({
+        id: run.id,
+        status: run.status,
+        progress: run.progress,
+        created_at: run.created_at,
+        completed_at: run.completed_at,
+        overall_visibility_score: run.overall_visibility_score,
+        weighted_visibility_score: run.weighted_visibility_score,
+        average_rank: run.average_rank,
+        queries_mentioned: run.queries_mentioned,
+        total_queries: run.total_queries
+      })),
+      trend
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to fetch tracked institution:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch tracked institution',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: trackedId } = await params;
+
+    // 1. Parse request body
+    const body = await request.json();
+    const { schedule, active } = body;
+
+    if (schedule !== undefined && !isTrackingSchedule(schedule)) {
+      return NextResponse.json(
+        { error: `schedule must be one of: ${TRACKING_SCHEDULES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (active !== undefined && typeof active !== 'boolean') {
+      return NextResponse.json(
+        { error: 'active must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    // 2. Fetch tracked institution
+    const repository = getRepository();
+    const tracked = await repository.getTrackedInstitution(trackedId);
+
+    if (!tracked) {
+      return NextResponse.json(
+        { error: 'Tracked institution not found' },
+        { status: 404 }
+      );
+    }
+
+    // 3. A new schedule, or resuming, counts the next period from now
+    const patch: Patch<TrackedInstitution> = { updated_at: new Date().toISOString() };
+    if (schedule !== undefined) patch.schedule = schedule;
+    if (active !== undefined) patch.active = active;
+    if ((schedule !== undefined && schedule !== tracked.schedule) || (active === true && !tracked.active)) {
+      patch.next_run_at = computeNextRunAt(schedule ?? tracked.schedule);
+    }
+
+    await repository.updateTrackedInstitution(trackedId, patch);
+
+    return NextResponse.json({
+      tracked: await repository.getTrackedInstitution(trackedId)
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to update tracked institution:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update tracked institution',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
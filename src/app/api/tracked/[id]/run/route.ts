@@ -0,0 +1,54 @@
+// API Route: POST /api/tracked/[id]/run
+// Runs a tracked institution's frozen query set now, outside its schedule
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { runTrackedInstitution } from '@/lib/tracked-institutions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: trackedId } = await params;
+
+    // 1. Fetch tracked institution
+    const repository = getRepository();
+    const tracked = await repository.getTrackedInstitution(trackedId);
+
+    if (!tracked) {
+      return NextResponse.json(
+        { error: 'Tracked institution not found' },
+        { status: 404 }
+      );
+    }
+
+    // 2. One run at a time
+    const previous = tracked.last_analysis_id ? await repository.getAnalysis(tracked.last_analysis_id) : null;
+    if (previous && (previous.status === 'pending' || previous.status === 'processing')) {
+      return NextResponse.json(
+        { error: `Previous run is still ${previous.status}`, analysisId: previous.id },
+        { status: 409 }
+      );
+    }
+
+    // 3. Queue a new snapshot
+    const analysis = await runTrackedInstitution(tracked);
+
+    return NextResponse.json({
+      analysisId: analysis.id,
+      status: analysis.status,
+      message: 'Run started'
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to run tracked institution:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run tracked institution',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
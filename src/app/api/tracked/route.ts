@@ -0,0 +1,91 @@
+// API Route: GET/POST /api/tracked
+// Lists tracked institutions, or starts tracking one from an existing analysis
+// POST body: { analysisId, schedule: 'daily' | 'weekly' | 'monthly', runNow?: boolean }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { TRACKING_SCHEDULES, isTrackingSchedule, runTrackedInstitution, trackAnalysis } from '@/lib/tracked-institutions';
+
+export async function GET() {
+  try {
+    const tracked = await getRepository().listTrackedInstitutions();
+
+    // The frozen query set is large; the list only needs its size
+    return NextResponse.json({
+      tracked: tracked.map(({ topics, ...rest }) => ({
+        ...rest,
+        total_topics: topics.length,
+        total_queries: topics.reduce((sum, topic) => sum + topic.prompts.length, 0)
+      }))
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to list tracked institutions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list tracked institutions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Parse request body
+    const body = await request.json();
+    const { analysisId, schedule, runNow = false } = body;
+
+    if (!analysisId || typeof analysisId !== 'string') {
+      return NextResponse.json(
+        { error: 'analysisId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTrackingSchedule(schedule)) {
+      return NextResponse.json(
+        { error: `schedule must be one of: ${TRACKING_SCHEDULES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // 2. Fetch the analysis whose queries get frozen
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (analysis.tracked_institution_id) {
+      return NextResponse.json(
+        { error: 'Analysis is already a run of a tracked institution', trackedId: analysis.tracked_institution_id },
+        { status: 409 }
+      );
+    }
+
+    // 3. Freeze the query set, optionally running it right away
+    const tracked = await trackAnalysis(analysis, schedule);
+    const run = runNow === true ? await runTrackedInstitution(tracked) : null;
+
+    return NextResponse.json({
+      tracked: await repository.getTrackedInstitution(tracked.id),
+      runAnalysisId: run?.id ?? null
+    });
+
+  } catch (error: unknown) {
+    console.error('❌ Failed to track institution:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to track institution',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// API Route: GET /api/worker
+// Claims and runs one queued analysis job (for cron-driven / serverless deployments)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runWorkerOnce } from '@/lib/worker';
+import { isAuthorizedWorkerRequest } from '@/lib/worker-auth';
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedWorkerRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const processed = await runWorkerOnce();
+
+    return NextResponse.json({ processed });
+
+  } catch (error: unknown) {
+    console.error('❌ Worker tick failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Worker tick failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Home, Loader2, Scale } from 'lucide-react';
+
+interface ComparedAnalysis {
+  id: string;
+  institution_name: string;
+  location?: string | null;
+  created_at: string;
+  overall_visibility_score: number | null;
+  weighted_visibility_score: number | null;
+  average_rank: number | null;
+  queries_mentioned: number;
+  total_queries: number;
+}
+
+interface TopicSide {
+  visibility_percentage: number | null;
+  average_rank: number | null;
+}
+
+interface CompetitorSide {
+  mention_count: number;
+  share_of_voice: number;
+  average_rank: number | null;
+}
+
+interface Competitor {
+  brand_name: string;
+  a: CompetitorSide | null;
+  b: CompetitorSide | null;
+}
+
+interface Domain {
+  domain: string;
+  a_citations: number;
+  b_citations: number;
+}
+
+interface Comparison {
+  a: ComparedAnalysis;
+  b: ComparedAnalysis;
+  topics: Array<{ topic_name: string; a: TopicSide | null; b: TopicSide | null }>;
+  competitors: { shared: Competitor[]; only_a: Competitor[]; only_b: Competitor[] };
+  domains: { shared: Domain[]; only_a: Domain[]; only_b: Domain[] };
+}
+
+// Accept a bare analysis ID or a pasted report link (/report/<id>)
+function parseAnalysisId(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.match(/\/report\/([^/?#]+)/)?.[1] ?? trimmed;
+}
+
+const formatPercent = (value: number | null | undefined) => (value == null ? '-' : `${Math.round(value)}%`);
+const formatRank = (value: number | null | undefined) => (value ? `#${value.toFixed(1)}` : '-');
+
+// Percentage-point gap between A and B, coloured for whichever side leads
+function Gap({ a, b }: { a: number | null | undefined; b: number | null | undefined }) {
+  if (a == null || b == null) return <span className="text-gray-400">-</span>;
+  const gap = Math.round(a - b);
+  if (gap === 0) return <span className="text-gray-500">Even</span>;
+  return (
+    <span className={`font-semibold ${gap > 0 ? 'text-blue-600' : 'text-orange-600'}`}>
+      {gap > 0 ? `A +${gap}` : `B +${-gap}`} pts
+    </span>
+  );
+}
+
+export default function ComparePage() {
+  const router = useRouter();
+  const [inputA, setInputA] = useState('');
+  const [inputB, setInputB] = useState('');
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchComparison = useCallback(async (a: string, b: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare analyses');
+      }
+
+      setComparison(data);
+    } catch (err) {
+      setComparison(null);
+      setError(err instanceof Error ? err.message : 'Failed to compare analyses');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Pre-fill from ?a=..&b=.. and compare straight away when both are present
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const a = params.get('a') || '';
+    const b = params.get('b') || '';
+    setInputA(a);
+    setInputB(b);
+    if (a && b) {
+      fetchComparison(a, b);
+    }
+  }, [fetchComparison]);
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    const a = parseAnalysisId(inputA);
+    const b = parseAnalysisId(inputB);
+    if (!a || !b) {
+      setError('Enter two analyses to compare');
+      return;
+    }
+    router.replace(`/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`);
+    fetchComparison(a, b);
+  };
+
+  // Same institution in two regions: tell the sides apart by location
+  const label = (side: ComparedAnalysis, other: ComparedAnalysis) =>
+    side.institution_name === other.institution_name && side.location
+      ? `${side.institution_name} (${side.location})`
+      : side.institution_name;
+
+  const labelA = comparison ? label(comparison.a, comparison.b) : 'A';
+  const labelB = comparison ? label(comparison.b, comparison.a) : 'B';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white sticky top-0 z-50 shadow-sm">
+        <div className="container mx-auto px-8 py-5 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Compare Analyses</h1>
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-8 py-10">
+        <div className="max-w-7xl mx-auto space-y-8">
+          {/* Analysis picker */}
+          <Card className="p-6 bg-white border-gray-200 shadow-sm">
+            <form onSubmit={handleCompare} className="flex flex-col md:flex-row gap-3 md:items-end">
+              <label className="flex-1 space-y-1">
+                <span className="text-sm font-semibold text-gray-600">Analysis A</span>
+                <Input value={inputA} onChange={e => setInputA(e.target.value)} placeholder="Analysis ID or report link" />
+              </label>
+              <label className="flex-1 space-y-1">
+                <span className="text-sm font-semibold text-gray-600">Analysis B</span>
+                <Input value={inputB} onChange={e => setInputB(e.target.value)} placeholder="Analysis ID or report link" />
+              </label>
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Scale className="mr-2 h-4 w-4" />}
+                Compare
+              </Button>
+            </form>
+            {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+          </Card>
+
+          {comparison && (
+            <>
+              {/* Headline numbers */}
+              <div className="grid md:grid-cols-2 gap-6">
+                {([['A', comparison.a, labelA], ['B', comparison.b, labelB]] as const).map(([side, analysis, name]) => (
+                  <Card key={side} className="p-8 bg-white border-gray-200 shadow-sm">
+                    <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Analysis {side}</div>
+                    <Link href={`/report/${analysis.id}`} className="text-2xl font-bold text-gray-900 hover:text-blue-600">
+                      {name}
+                    </Link>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {new Date(analysis.created_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
+                    </p>
+                    <div className="grid grid-cols-3 gap-4 mt-6">
+                      <div>
+                        <div className="text-xs text-gray-500 uppercase mb-1">Visibility</div>
+                        <div className="text-3xl font-bold text-gray-900">{formatPercent(analysis.overall_visibility_score)}</div>
+                        <div className="text-xs text-gray-500">{analysis.queries_mentioned} of {analysis.total_queries} queries</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-gray-500 uppercase mb-1">Weighted</div>
+                        <div className="text-3xl font-bold text-gray-900">{formatPercent(analysis.weighted_visibility_score)}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-gray-500 uppercase mb-1">Avg Rank</div>
+                        <div className="text-3xl font-bold text-gray-900">{formatRank(analysis.average_rank)}</div>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+
+              {/* Topics */}
+              <Card className="p-8 bg-white border-gray-200 shadow-sm">
+                <h3 className="text-xl font-bold text-gray-900 mb-2">Visibility by Topic</h3>
+                <p className="text-sm text-gray-600 mb-6">Topics are matched by name; a dash means only one analysis covered it</p>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Topic</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">A Visibility</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">A Rank</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">B Visibility</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">B Rank</th>
+                        <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Gap</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {comparison.topics.map(topic => (
+                        <tr key={topic.topic_name}>
+                          <td className="px-4 py-3 text-sm text-gray-900">{topic.topic_name}</td>
+                          <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatPercent(topic.a?.visibility_percentage)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600 text-right">{formatRank(topic.a?.average_rank)}</td>
+                          <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatPercent(topic.b?.visibility_percentage)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600 text-right">{formatRank(topic.b?.average_rank)}</td>
+                          <td className="px-4 py-3 text-sm text-right">
+                            <Gap a={topic.a?.visibility_percentage} b={topic.b?.visibility_percentage} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+
+              {/* Competitor overlap */}
+              <Card className="p-8 bg-white border-gray-200 shadow-sm">
+                <h3 className="text-xl font-bold text-gray-900 mb-2">Competitor Overlap</h3>
+                <p className="text-sm text-gray-600 mb-6">
+                  {comparison.competitors.shared.length} brands appear in both analyses
+                </p>
+                {comparison.competitors.shared.length > 0 && (
+                  <div className="overflow-x-auto mb-8">
+                    <table className="w-full">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Brand</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">A Share of Voice</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">A Rank</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">B Share of Voice</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">B Rank</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {comparison.competitors.shared.map(competitor => (
+                          <tr key={competitor.brand_name}>
+                            <td className="px-4 py-3 text-sm text-gray-900">{competitor.brand_name}</td>
+                            <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{competitor.a?.share_of_voice.toFixed(1)}%</td>
+                            <td className="px-4 py-3 text-sm text-gray-600 text-right">{formatRank(competitor.a?.average_rank)}</td>
+                            <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{competitor.b?.share_of_voice.toFixed(1)}%</td>
+                            <td className="px-4 py-3 text-sm text-gray-600 text-right">{formatRank(competitor.b?.average_rank)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <div className="grid md:grid-cols-2 gap-6">
+                  {([[`Only in ${labelA}`, comparison.competitors.only_a, 'a'], [`Only in ${labelB}`, comparison.competitors.only_b, 'b']] as const).map(([title, competitors, side]) => (
+                    <div key={side}>
+                      <h4 className="font-semibold text-sm text-gray-600 uppercase tracking-wide mb-3">{title}</h4>
+                      {competitors.length > 0 ? (
+                        <ul className="space-y-2">
+                          {competitors.map(competitor => (
+                            <li key={competitor.brand_name} className="flex justify-between px-4 py-2 rounded-lg bg-gray-50 border border-gray-200 text-sm">
+                              <span className="text-gray-900">{competitor.brand_name}</span>
+                              <span className="font-semibold text-gray-700">{competitor[side]?.share_of_voice.toFixed(1)}%</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-gray-500">None</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </Card>
+
+              {/* Cited domains */}
+              <Card className="p-8 bg-white border-gray-200 shadow-sm">
+                <h3 className="text-xl font-bold text-gray-900 mb-2">Cited Domains</h3>
+                <p className="text-sm text-gray-600 mb-6">
+                  {comparison.domains.shared.length} domains are cited in both analyses
+                </p>
+                <div className="grid md:grid-cols-3 gap-6">
+                  {([
+                    ['Shared', comparison.domains.shared],
+                    [`Only in ${labelA}`, comparison.domains.only_a],
+                    [`Only in ${labelB}`, comparison.domains.only_b]
+                  ] as const).map(([title, domains]) => (
+                    <div key={title}>
+                      <h4 className="font-semibold text-sm text-gray-600 uppercase tracking-wide mb-3">{title}</h4>
+                      {domains.length > 0 ? (
+                        <ul className="space-y-2">
+                          {domains.map(domain => (
+                            <li key={domain.domain} className="flex justify-between gap-3 px-4 py-2 rounded-lg bg-gray-50 border border-gray-200 text-sm">
+                              <span className="text-gray-900 truncate">{domain.domain}</span>
+                              <span className="text-gray-600 flex-shrink-0">
+                                {title === 'Shared'
+                                  ? `${domain.a_citations} / ${domain.b_citations}`
+                                  : domain.a_citations + domain.b_citations}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-gray-500">None</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
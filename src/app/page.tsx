@@ -1,46 +1,99 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Loader2, Brain, TrendingUp, Lightbulb, Network, ArrowRight, Sparkles } from 'lucide-react';
+import { DEFAULT_VERTICAL, MAX_VERTICAL_DESCRIPTION_LENGTH, VERTICAL_IDS, VERTICAL_PROFILES } from '@/lib/verticals';
+import { applyProgressEvent, INITIAL_PROGRESS_STATE, summarizeProgress, type AnalysisProgressState } from '@/lib/analysis-progress';
+import type { ProgressEvent, VerticalId } from '@/types';
+
+// Answer engines a user can compare (ids match the server-side engine registry)
+const ENGINE_OPTIONS = [
+  { id: 'openai', label: 'ChatGPT' },
+  { id: 'perplexity', label: 'Perplexity' }
+];
+
+// Times each query is asked per engine; more samples measure how stable the answers are
+const SAMPLE_OPTIONS = [1, 3, 5];
 
 export default function LandingPage() {
   const router = useRouter();
   const [institutionName, setInstitutionName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [progressState, setProgressState] = useState<AnalysisProgressState>(INITIAL_PROGRESS_STATE);
   const [analysisId, setAnalysisId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [currentStep, setCurrentStep] = useState(0);
+  const [canRetry, setCanRetry] = useState(false);
+  const [partialReady, setPartialReady] = useState(false); // Completed with failed queries - the report can still be opened
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [selectedEngines, setSelectedEngines] = useState<string[]>(['openai']);
+  const [samplesPerQuery, setSamplesPerQuery] = useState(1);
+  const [brandAliases, setBrandAliases] = useState('');
+  const [vertical, setVertical] = useState<VerticalId>(DEFAULT_VERTICAL);
+  const [verticalDescription, setVerticalDescription] = useState('');
+  // Bring-your-own query set: skips topic generation (Prompt #1)
+  const [showImport, setShowImport] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importLocation, setImportLocation] = useState('');
+
+  const toggleEngine = (engineId: string) => {
+    setSelectedEngines(prev =>
+      prev.includes(engineId)
+        ? prev.filter(id => id !== engineId)
+        : [...prev, engineId]
+    );
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setCanRetry(false);
+    setPartialReady(false);
     setIsLoading(true);
     setIsProcessing(true);
 
     try {
-      const response = await fetch('/api/analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ institutionName })
-      });
+      const options = {
+        institutionName,
+        engines: selectedEngines,
+        samplesPerQuery,
+        brandAliases: brandAliases.split(',').map(alias => alias.trim()).filter(Boolean),
+        vertical,
+        verticalDescription: vertical === 'custom' ? verticalDescription : undefined
+      };
+
+      const response = importFile
+        ? await fetch('/api/analyze/import', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              ...options,
+              location: importLocation,
+              format: importFile.name.toLowerCase().endsWith('.json') ? 'json' : 'csv',
+              content: await importFile.text()
+            })
+          })
+        : await fetch('/api/analyze', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(options)
+          });
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || 'Failed to start analysis');
+        // Import validation lists each problem (first few shown)
+        const issues: string[] = data.issues || [];
+        throw new Error([data.error || 'Failed to start analysis', ...issues.slice(0, 5)].join(' · '));
       }
 
+      // Prompt #1 output is a draft: review and edit it before processing starts
       const data = await response.json();
-      setAnalysisId(data.analysisId);
-      setIsLoading(false);
-
-      pollProgress(data.analysisId);
+      router.push(`/analysis/${data.analysisId}/edit`);
 
     } catch (err: any) {
       setError(err.message);
@@ -49,53 +102,123 @@ export default function LandingPage() {
     }
   };
 
-  const pollProgress = async (id: string) => {
-    const interval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/progress?analysisId=${id}`);
-        const data = await response.json();
+  const handleRetry = async () => {
+    if (!analysisId) return;
+
+    setError(null);
+    setCanRetry(false);
+    setPartialReady(false);
+    setIsProcessing(true);
+
+    try {
+      const response = await fetch(`/api/analysis/${analysisId}/retry`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
 
-        setProgress(data.progress);
-
-        if (data.progress === 0) {
-          setCurrentStep(0);
-        } else if (data.progress > 0 && data.progress <= 24) {
-          setCurrentStep(1);
-        } else if (data.progress === 25) {
-          setCurrentStep(2);
-        } else if (data.progress > 25 && data.progress < 100) {
-          setCurrentStep(3);
-        } else if (data.progress === 100 && !data.isComplete) {
-          setCurrentStep(4);
-        }
-
-        // Only redirect when both status is 'completed' AND progress is 100%
-        if (data.isComplete && data.progress === 100) {
-          clearInterval(interval);
-          setCurrentStep(4);
-          setTimeout(() => {
-            router.push(`/report/${id}`);
-          }, 1500);
-        }
-
-        // Handle edge case: completed without reaching 100%
-        if (data.isComplete && data.progress < 100) {
-          clearInterval(interval);
-          setError(`Analysis completed but only ${data.progress}% of queries succeeded. Please try again.`);
-          setIsProcessing(false);
-        }
-
-        if (data.isFailed) {
-          clearInterval(interval);
-          setError('Analysis failed. Please try again.');
-          setIsProcessing(false);
-        }
-      } catch (err) {
-        console.error('Failed to check progress:', err);
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry analysis');
       }
-    }, 2000);
+
+      followProgress(analysisId);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry analysis');
+      setCanRetry(true);
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!analysisId) return;
+
+    setIsCancelling(true);
+
+    try {
+      const response = await fetch(`/api/analysis/${analysisId}/cancel`, {
+        method: 'POST'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to cancel analysis');
+      }
+      // The progress stream delivers the cancelled event and closes the dialog
+    } catch (err) {
+      console.error('Failed to cancel analysis:', err);
+      setIsCancelling(false);
+    }
   };
 
+  // Live progress: the pipeline's events, streamed from the server (replayed from the start on connect)
+  const eventSourceRef = useRef<EventSource | null>(null);
+
+  const followProgress = useCallback((id: string) => {
+    eventSourceRef.current?.close();
+
+    const eventSource = new EventSource(`/api/analysis/${id}/events`);
+    eventSourceRef.current = eventSource;
+    let state = INITIAL_PROGRESS_STATE;
+
+    eventSource.onmessage = (message: MessageEvent<string>) => {
+      state = applyProgressEvent(state, JSON.parse(message.data) as ProgressEvent);
+      setProgressState(state);
+
+      const { outcome } = state;
+      if (!outcome) return;
+
+      eventSource.close();
+
+      if (outcome.type === 'completed' && outcome.progress === 100) {
+        setTimeout(() => {
+          router.push(`/report/${id}`);
+        }, 1500);
+      } else if (outcome.type === 'completed') {
+        // Handle edge case: completed without every query succeeding
+        setError(`Analysis completed but only ${outcome.progress}% of queries succeeded. You can retry just the failed queries.`);
+        setPartialReady(true);
+        setCanRetry(true);
+        setIsProcessing(false);
+      } else if (outcome.type === 'cancelled') {
+        setError('Analysis cancelled.');
+        setIsCancelling(false);
+        setIsProcessing(false);
+      } else {
+        setError('Analysis failed. You can retry the unfinished queries.');
+        setCanRetry(true);
+        setIsProcessing(false);
+      }
+    };
+
+    // Dropped connections are retried by the browser; a closed source means the stream was refused
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED) {
+        setError('Lost connection to the analysis. Refresh the page to follow its progress.');
+        setIsProcessing(false);
+      }
+    };
+  }, [router]);
+
+  useEffect(() => () => eventSourceRef.current?.close(), []);
+
+  // The draft editor sends users back here (?analysisId=...) to follow processing
+  useEffect(() => {
+    const startedId = new URLSearchParams(window.location.search).get('analysisId');
+    if (!startedId) return;
+
+    setAnalysisId(startedId);
+    setIsProcessing(true);
+    fetch(`/api/analysis/${startedId}/draft`)
+      .then(response => response.json())
+      .then(data => setInstitutionName(data.institutionName || ''))
+      .catch(err => console.error('Failed to load analysis:', err));
+    followProgress(startedId);
+  }, [followProgress]);
+
+  const currentStep = progressState.step;
+  const { progress, answered, failed, mentions } = summarizeProgress(progressState);
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-900 to-black relative overflow-hidden">
       {/* Background decorative elements */}
@@ -146,7 +269,7 @@ export default function LandingPage() {
             <div className="flex items-center gap-3 bg-white/5 backdrop-blur-sm rounded-2xl p-2 border border-white/10 shadow-2xl hover:border-white/20 transition-all">
               <Input
                 type="text"
-                placeholder="Type the full institution name..."
+                placeholder={`Type the full ${VERTICAL_PROFILES[vertical].entityLabel.toLowerCase()} name...`}
                 className="flex-1 h-14 text-lg bg-transparent border-0 text-white placeholder:text-slate-400 focus-visible:ring-0 focus-visible:ring-offset-0"
                 value={institutionName}
                 onChange={(e) => setInstitutionName(e.target.value)}
@@ -157,7 +280,7 @@ export default function LandingPage() {
                 type="submit"
                 size="lg"
                 className="h-14 px-8 bg-white hover:bg-gray-100 text-slate-900 font-semibold rounded-xl shadow-lg transition-all"
-                disabled={isLoading || isProcessing || !institutionName.trim()}
+                disabled={isLoading || isProcessing || !institutionName.trim() || selectedEngines.length === 0 || (vertical === 'custom' && !verticalDescription.trim())}
               >
                 {isLoading ? (
                   <>
@@ -173,9 +296,143 @@ export default function LandingPage() {
               </Button>
             </div>
 
+            {/* Vertical profile - picks the topic prompt and name-matching rules */}
+            <div className="mt-3 flex items-center gap-3">
+              <select
+                className="h-11 bg-slate-800 border border-slate-700 rounded-md px-3 text-slate-200"
+                value={vertical}
+                onChange={e => setVertical(e.target.value as VerticalId)}
+                disabled={isLoading || isProcessing}
+              >
+                {VERTICAL_IDS.map(id => (
+                  <option key={id} value={id}>{VERTICAL_PROFILES[id].label}</option>
+                ))}
+              </select>
+              {vertical === 'custom' ? (
+                <Input
+                  type="text"
+                  placeholder="What does the brand do? e.g. payment apps for freelancers"
+                  className="flex-1 h-11 bg-white/5 border-white/10 text-white placeholder:text-slate-400"
+                  value={verticalDescription}
+                  onChange={(e) => setVerticalDescription(e.target.value)}
+                  maxLength={MAX_VERTICAL_DESCRIPTION_LENGTH}
+                  required
+                  disabled={isLoading || isProcessing}
+                />
+              ) : (
+                <span className="flex-1 text-left text-sm text-slate-400 truncate">
+                  e.g. &quot;{VERTICAL_PROFILES[vertical].exampleQueries[0]}&quot;
+                </span>
+              )}
+            </div>
+
+            {/* Other names the institution goes by - matched before asking the LLM */}
+            <Input
+              type="text"
+              placeholder="Also known as (optional): acronyms, campus or former names, comma-separated"
+              className="mt-3 h-11 bg-white/5 border-white/10 text-white placeholder:text-slate-400"
+              value={brandAliases}
+              onChange={(e) => setBrandAliases(e.target.value)}
+              disabled={isLoading || isProcessing}
+            />
+
+            {/* Curated query set instead of generated topics */}
+            <div className="mt-3 text-left">
+              <button
+                type="button"
+                className="text-sm text-slate-400 hover:text-slate-200 underline-offset-4 hover:underline"
+                onClick={() => {
+                  setShowImport(prev => !prev);
+                  setImportFile(null);
+                }}
+                disabled={isLoading || isProcessing}
+              >
+                {showImport ? 'Generate queries for me instead' : 'Have your own query list? Import CSV or JSON'}
+              </button>
+              {showImport && (
+                <div className="mt-2 flex items-center gap-3">
+                  <Input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    className="flex-1 h-11 bg-white/5 border-white/10 text-slate-300 file:text-slate-200"
+                    onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+                    required
+                    disabled={isLoading || isProcessing}
+                  />
+                  <Input
+                    type="text"
+                    placeholder="Location, e.g. Pune, Maharashtra, India"
+                    className="flex-1 h-11 bg-white/5 border-white/10 text-white placeholder:text-slate-400"
+                    value={importLocation}
+                    onChange={(e) => setImportLocation(e.target.value)}
+                    required
+                    disabled={isLoading || isProcessing}
+                  />
+                </div>
+              )}
+              {showImport && (
+                <p className="mt-1 text-xs text-slate-500">
+                  CSV with topic,query columns, or JSON like [{'{'}&quot;topic&quot;: &quot;...&quot;, &quot;queries&quot;: [&quot;...&quot;]{'}'}]
+                </p>
+              )}
+            </div>
+
+            {/* Answer engines to compare */}
+            <div className="mt-4 flex items-center justify-center gap-4 text-sm text-slate-300">
+              <span>Compare on:</span>
+              {ENGINE_OPTIONS.map(engine => (
+                <label key={engine.id} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-blue-500"
+                    checked={selectedEngines.includes(engine.id)}
+                    onChange={() => toggleEngine(engine.id)}
+                    disabled={isLoading || isProcessing}
+                  />
+                  {engine.label}
+                </label>
+              ))}
+              <label className="flex items-center gap-2">
+                Samples:
+                <select
+                  className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200"
+                  value={samplesPerQuery}
+                  onChange={e => setSamplesPerQuery(Number(e.target.value))}
+                  disabled={isLoading || isProcessing}
+                >
+                  {SAMPLE_OPTIONS.map(count => (
+                    <option key={count} value={count}>{count}×</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
             {error && (
               <div className="mt-4 text-sm text-red-400 bg-red-900/20 border border-red-800/50 p-3 rounded-xl">
                 {error}
+                {canRetry && analysisId && (
+                  <div className="mt-3 flex justify-center gap-2">
+                    {partialReady && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => router.push(`/report/${analysisId}`)}
+                        className="bg-transparent border-white/40 text-white hover:bg-white/10 rounded-lg"
+                      >
+                        View Report Anyway
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={handleRetry}
+                      className="bg-white hover:bg-gray-100 text-slate-900 font-semibold rounded-lg"
+                    >
+                      Retry Failed Queries
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
           </form>
@@ -410,6 +667,16 @@ export default function LandingPage() {
                   style={{ width: `${progress}%` }}
                 />
               </div>
+              {answered + failed > 0 && (
+                <p className="text-sm text-gray-600">
+                  <span className="font-semibold text-blue-600">{institutionName || 'Your institution'}</span> mentioned in{' '}
+                  <span className="font-semibold text-gray-900">{mentions}</span> of {answered} answers so far
+                  {failed > 0 && <span className="text-gray-500"> · {failed} failed</span>}
+                </p>
+              )}
+              {progressState.retrying && (
+                <p className="text-sm text-amber-600">A run failed ({progressState.retrying}) - retrying shortly...</p>
+              )}
             </div>
 
             {/* Milestones */}
@@ -456,7 +723,8 @@ export default function LandingPage() {
                     Running AI Prompts
                   </div>
                   <div className="text-sm text-gray-500">
-                    Querying AI systems with 110 strategic prompts
+                    Querying {progressState.engines.length > 0 ? progressState.engines.join(' and ') : 'AI systems'} with{' '}
+                    {progressState.totalQueries || 'your'} strategic prompts
                   </div>
                 </div>
                 {currentStep === 1 && <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />}
@@ -480,7 +748,9 @@ export default function LandingPage() {
                     Fetching AI Responses
                   </div>
                   <div className="text-sm text-gray-500">
-                    Collecting and processing AI-generated answers
+                    {progressState.totalBatches > 0
+                      ? `${answered} of ${progressState.totalQueries} answers collected · ${progressState.batchesFinished} of ${progressState.totalBatches} batches done`
+                      : 'Collecting and processing AI-generated answers'}
                   </div>
                 </div>
                 {currentStep === 2 && <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />}
@@ -510,6 +780,28 @@ export default function LandingPage() {
                 {currentStep === 3 && <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />}
               </div>
             </div>
+
+            {/* Cancel */}
+            {analysisId && currentStep < 4 && (
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCancel}
+                  disabled={isCancelling}
+                  className="border-gray-300 text-gray-700 hover:bg-gray-100"
+                >
+                  {isCancelling ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Cancelling...
+                    </>
+                  ) : (
+                    'Cancel Analysis'
+                  )}
+                </Button>
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -1,102 +1,55 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
-import { Loader2, Home } from 'lucide-react';
+import { Loader2, Home, Scale } from 'lucide-react';
 import Link from 'next/link';
 import NavigationBar from '@/components/report/navigation-bar';
 import OverviewTab from '@/components/report/overview-tab';
 import PromptsTab from '@/components/report/prompts-tab';
 import SourcesTab from '@/components/report/sources-tab';
 import CompetitorsTab from '@/components/report/competitors-tab';
-
-interface Topic {
-  id: string;
-  topic_name: string;
-  topic_order: number;
-  queries: Query[];
-}
-
-interface Query {
-  id: string;
-  query_text: string;
-  answer: string | null;
-  brands_mentioned: string[] | null;
-  focused_brand: string;
-  focused_brand_rank: number | null;
-  visibility: number;
-  websites_cited: string[] | null;
-  status: string;
-}
-
-interface Competitor {
-  id: string;
-  brand_name: string;
-  mention_count: number;
-  avg_rank: number | null;
-}
-
-interface Source {
-  id: string;
-  domain: string;
-  citation_count: number;
-}
-
-interface ReportData {
-  analysis: {
-    id: string;
-    institution_name: string;
-    status: string;
-    progress: number;
-    created_at: string;
-    overall_visibility: number;
-    avg_rank: number;
-    top_rank_count: number;
-  };
-  topics: Topic[];
-  competitors: Competitor[];
-  sources: Source[];
-  summary: {
-    totalTopics: number;
-    totalQueries: number;
-    totalCompetitors: number;
-    totalSources: number;
-  };
-}
+import ReviewTab from '@/components/report/review-tab';
+import TrackControl from '@/components/report/track-control';
+import ExportButtons from '@/components/report/export-buttons';
+import RetryControl from '@/components/report/retry-control';
+import { getVerticalProfile } from '@/lib/verticals';
+import type { ReportResponse } from '@/lib/report-response';
 
 export default function ReportPage() {
   const params = useParams();
   const analysisId = params.id as string;
 
-  const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [reportData, setReportData] = useState<ReportResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeSection, setActiveSection] = useState('overview');
 
-  useEffect(() => {
-    async function fetchReport() {
-      try {
-        const response = await fetch(`/api/report/${analysisId}`);
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to fetch report');
-        }
+  // Also re-run after a match override, which recomputes the metrics
+  const fetchReport = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/report/${analysisId}`);
 
-        const data = await response.json();
-        setReportData(data);
-      } catch (err: any) {
-        setError(err.message);
-      } finally {
-        setIsLoading(false);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch report');
       }
+
+      const data: ReportResponse = await response.json();
+      setReportData(data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
     }
+  }, [analysisId]);
 
+  useEffect(() => {
     if (analysisId) {
       fetchReport();
     }
-  }, [analysisId]);
+  }, [analysisId, fetchReport]);
 
   if (isLoading) {
     return (
@@ -139,6 +92,9 @@ export default function ReportPage() {
     );
   }
 
+  const allQueries = reportData.topics.flatMap(topic => topic.queries);
+  const failedQueries = allQueries.filter(query => query.status === 'failed').length;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -155,12 +111,20 @@ export default function ReportPage() {
                 </span>
               </div>
             </div>
-            <Link href="/">
-              <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
-                <Home className="mr-2 h-4 w-4" />
-                Generate New Report
-              </Button>
-            </Link>
+            <div className="flex items-center gap-2">
+              <Link href={`/compare?a=${reportData.analysis.id}`}>
+                <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+                  <Scale className="mr-2 h-4 w-4" />
+                  Compare
+                </Button>
+              </Link>
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+                  <Home className="mr-2 h-4 w-4" />
+                  Generate New Report
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
       </header>
@@ -174,6 +138,10 @@ export default function ReportPage() {
               <h1 className="text-5xl font-bold text-gray-900">
                 {reportData.analysis.institution_name}
               </h1>
+              <TrackControl
+                analysisId={reportData.analysis.id}
+                trackedInstitutionId={reportData.analysis.tracked_institution_id}
+              />
             </div>
             <p className="text-gray-500 text-sm">
               Analysis completed on {new Date(reportData.analysis.created_at).toLocaleDateString('en-US', {
@@ -182,6 +150,32 @@ export default function ReportPage() {
                 year: 'numeric'
               })}
             </p>
+            {reportData.analysis.vertical && reportData.analysis.vertical !== 'education' && (
+              <p className="text-gray-500 text-sm mt-1">
+                Profile: {getVerticalProfile(reportData.analysis.vertical).label}
+                {reportData.analysis.vertical_description && ` - ${reportData.analysis.vertical_description}`}
+              </p>
+            )}
+            {reportData.analysis.brand_aliases.length > 0 && (
+              <p className="text-gray-500 text-sm mt-1">
+                Also matched as: {reportData.analysis.brand_aliases.join(', ')}
+              </p>
+            )}
+            {failedQueries > 0 && ['completed', 'failed'].includes(reportData.analysis.status) && (
+              <div className="mt-6">
+                <RetryControl
+                  analysisId={reportData.analysis.id}
+                  failedQueries={failedQueries}
+                  totalQueries={allQueries.length}
+                />
+              </div>
+            )}
+            <div className="mt-6">
+              <ExportButtons
+                analysisId={reportData.analysis.id}
+                canExportPdf={reportData.analysis.status === 'completed'}
+              />
+            </div>
           </div>
 
           {/* Horizontal Navigation */}
@@ -193,9 +187,26 @@ export default function ReportPage() {
           {/* Content Sections */}
           <div className="mt-8">
             {activeSection === 'overview' && <OverviewTab reportData={reportData} />}
-            {activeSection === 'prompts' && <PromptsTab topics={reportData.topics} institutionName={reportData.analysis.institution_name} />}
+            {activeSection === 'prompts' && (
+              <PromptsTab
+                topics={reportData.topics}
+                institutionName={reportData.analysis.institution_name}
+                engines={reportData.engines}
+                samplesPerQuery={reportData.analysis.samples_per_query}
+                analysisId={reportData.analysis.id}
+                canCompareRuns={!!reportData.analysis.tracked_institution_id}
+              />
+            )}
             {activeSection === 'sources' && <SourcesTab sources={reportData.sources} />}
             {activeSection === 'competitors' && <CompetitorsTab competitors={reportData.competitors} institutionName={reportData.analysis.institution_name} />}
+            {activeSection === 'review' && (
+              <ReviewTab
+                topics={reportData.topics}
+                institutionName={reportData.analysis.institution_name}
+                canReview={reportData.analysis.status === 'completed'}
+                onMatchUpdated={fetchReport}
+              />
+            )}
           </div>
         </div>
       </main>
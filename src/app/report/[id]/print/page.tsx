@@ -0,0 +1,162 @@
+// Print-optimised report, rendered on the server from the same data as GET /api/report/[id]
+import { notFound } from 'next/navigation';
+import { getReportData } from '@/lib/report-data';
+import { buildReportDocument } from '@/lib/report-document';
+import PrintActions from '@/components/report/print-actions';
+
+const formatPercent = (value: number | null) => (value == null ? '-' : `${Math.round(value)}%`);
+const formatRank = (value: number | null) => (value ? `#${value.toFixed(1)}` : '-');
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+export default async function PrintReportPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const report = await getReportData(id);
+
+  if (!report) {
+    notFound();
+  }
+
+  const document = buildReportDocument(report);
+  const { summary } = document;
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      <PrintActions analysisId={id} />
+
+      <main className="max-w-4xl mx-auto px-8 py-10 print:px-0 print:py-0 text-sm">
+        {/* Branded header */}
+        <div className="flex items-center justify-between border-b border-gray-200 pb-3 mb-8">
+          <span className="font-bold text-blue-600">AI Visibility</span>
+          <span className="text-xs text-gray-500">Generated {formatDate(new Date().toISOString())}</span>
+        </div>
+
+        {/* Executive summary */}
+        <h1 className="text-4xl font-bold">{document.institutionName}</h1>
+        <p className="text-gray-500 mt-1">AI Visibility Report · {formatDate(document.analysedOn)}</p>
+        {document.location && <p className="text-gray-500">{document.location}</p>}
+        {document.profileLabel && <p className="text-gray-500">Profile: {document.profileLabel}</p>}
+        <p className="text-gray-500">Answer engines: {document.engines.join(', ')}</p>
+
+        <div className="grid grid-cols-4 gap-3 mt-6">
+          {[
+            {
+              label: 'Visibility',
+              value: formatPercent(summary.visibility),
+              note: summary.visibilityLower != null && summary.visibilityUpper != null
+                ? `95% CI ${Math.round(summary.visibilityLower)}-${Math.round(summary.visibilityUpper)}%`
+                : null
+            },
+            { label: 'Weighted by Rank', value: formatPercent(summary.weightedVisibility), note: null },
+            { label: 'Average Rank', value: formatRank(summary.averageRank), note: null },
+            { label: 'Answers Mentioning', value: `${summary.queriesMentioned}/${summary.totalQueries}`, note: null }
+          ].map(metric => (
+            <div key={metric.label} className="p-4 rounded-lg border border-gray-200 bg-gray-50">
+              <div className="text-xs text-gray-500 uppercase mb-1">{metric.label}</div>
+              <div className="text-2xl font-bold">{metric.value}</div>
+              {metric.note && <div className="text-xs text-gray-500 mt-1">{metric.note}</div>}
+            </div>
+          ))}
+        </div>
+
+        <h2 className="text-xl font-bold mt-8 mb-3">Executive Summary</h2>
+        <ul className="list-disc list-inside space-y-1">
+          {summary.highlights.map((highlight, index) => (
+            <li key={index}>{highlight}</li>
+          ))}
+        </ul>
+
+        {/* Topic table */}
+        <h2 className="text-xl font-bold mt-8 mb-3">Visibility by Topic</h2>
+        <table className="w-full">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Topic</th>
+              <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Mentioned</th>
+              <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Visibility</th>
+              <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Weighted</th>
+              <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Avg Rank</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {document.topics.map(topic => (
+              <tr key={topic.name} className="break-inside-avoid">
+                <td className="px-3 py-2">{topic.name}</td>
+                <td className="px-3 py-2 text-right">{topic.mentioned}/{topic.queries}</td>
+                <td className="px-3 py-2 text-right font-semibold">{formatPercent(topic.visibility)}</td>
+                <td className="px-3 py-2 text-right">{formatPercent(topic.weighted)}</td>
+                <td className="px-3 py-2 text-right">{formatRank(topic.averageRank)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Competitor leaderboard */}
+        <section className="break-inside-avoid">
+          <h2 className="text-xl font-bold mt-8 mb-3">Competitor Leaderboard</h2>
+          <table className="w-full">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase w-10">#</th>
+                <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Brand</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Mentions</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Share of Voice</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Avg Rank</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {document.competitors.map(competitor => (
+                <tr key={competitor.name} className={competitor.isFocusBrand ? 'bg-blue-50 font-semibold' : undefined}>
+                  <td className="px-3 py-2">{competitor.rank}</td>
+                  <td className="px-3 py-2">{competitor.name}</td>
+                  <td className="px-3 py-2 text-right">{competitor.mentions}</td>
+                  <td className="px-3 py-2 text-right">{competitor.shareOfVoice.toFixed(1)}%</td>
+                  <td className="px-3 py-2 text-right">{formatRank(competitor.averageRank)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Top sources */}
+        <section className="break-inside-avoid">
+          <h2 className="text-xl font-bold mt-8 mb-3">Top Cited Sources</h2>
+          <table className="w-full">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Domain</th>
+                <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Citations</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {document.sources.map(source => (
+                <tr key={source.domain}>
+                  <td className="px-3 py-2">{source.domain}</td>
+                  <td className="px-3 py-2 text-right">{source.citations}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Sample answers where the brand was missing */}
+        {document.missedAnswers.length > 0 && (
+          <section className="break-before-page">
+            <h2 className="text-xl font-bold mt-8 mb-3">Where {document.institutionName} Was Missing</h2>
+            <div className="space-y-4">
+              {document.missedAnswers.map((answer, index) => (
+                <div key={index} className="p-4 rounded-lg border border-gray-200 break-inside-avoid">
+                  <p className="font-semibold">&ldquo;{answer.query}&rdquo;</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {answer.topic}{answer.brands.length > 0 && ` · Recommended instead: ${answer.brands.join(', ')}`}
+                  </p>
+                  <p className="text-gray-700 leading-relaxed mt-2">{answer.excerpt}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
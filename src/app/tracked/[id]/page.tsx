@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import TrendCharts, { type VisibilityTrend } from '@/components/tracked/trend-charts';
+
+interface TrackedRun {
+  id: string;
+  status: string;
+  progress: number;
+  created_at: string;
+  completed_at?: string | null;
+  overall_visibility_score?: number | null;
+  weighted_visibility_score?: number | null;
+  average_rank?: number | null;
+}
+
+interface TrackedData {
+  tracked: {
+    id: string;
+    institution_name: string;
+    location?: string | null;
+    schedule: string;
+    active: boolean;
+    next_run_at: string;
+    topics: Array<{ topic: string; prompts: string[] }>;
+  };
+  runs: TrackedRun[];
+  trend: VisibilityTrend;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-50 text-green-700 border-green-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  cancelled: 'bg-gray-100 text-gray-600 border-gray-300'
+};
+
+export default function TrackedTrendPage() {
+  const params = useParams();
+  const trackedId = params.id as string;
+  const [data, setData] = useState<TrackedData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTracked = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tracked/${trackedId}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load tracked institution');
+      }
+
+      setData(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tracked institution');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [trackedId]);
+
+  useEffect(() => {
+    fetchTracked();
+  }, [fetchTracked]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <Loader2 className="w-12 h-12 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <p className="text-lg text-gray-600">{error || 'Tracked institution not found'}</p>
+      </div>
+    );
+  }
+
+  const { tracked, runs, trend } = data;
+  const totalQueries = tracked.topics.reduce((sum, topic) => sum + topic.prompts.length, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white sticky top-0 z-50 shadow-sm">
+        <div className="container mx-auto px-8 py-5 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Visibility Trends</h1>
+          <Link href="/tracked">
+            <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Tracked Institutions
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-8 py-10">
+        <div className="max-w-7xl mx-auto space-y-8">
+          {/* Institution Header Card */}
+          <div className="bg-white rounded-2xl p-10 border border-gray-200 shadow-sm">
+            <h1 className="text-5xl font-bold text-gray-900 mb-4">{tracked.institution_name}</h1>
+            <p className="text-gray-500 text-sm">
+              {tracked.location ? `${tracked.location} · ` : ''}
+              {tracked.topics.length} topics · {totalQueries} queries · runs {tracked.schedule}
+              {!tracked.active && ' (paused)'}
+            </p>
+            <p className="text-gray-500 text-sm mt-1">
+              {trend.points.length} completed {trend.points.length === 1 ? 'run' : 'runs'}
+            </p>
+          </div>
+
+          <TrendCharts trend={trend} institutionName={tracked.institution_name} />
+
+          {/* Every run, newest first */}
+          <Card className="p-8 bg-white border-gray-200 shadow-sm">
+            <h3 className="text-xl font-bold text-gray-900 mb-6">Runs</h3>
+            <table className="w-full">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Started</th>
+                  <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Status</th>
+                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Visibility</th>
+                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Weighted</th>
+                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Avg Rank</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {[...runs].reverse().map(run => (
+                  <tr key={run.id}>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {new Date(run.created_at).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit'
+                      })}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Badge variant="secondary" className={STATUS_STYLES[run.status] || 'bg-blue-50 text-blue-700 border-blue-200'}>
+                        {run.status === 'processing' ? `processing ${run.progress}%` : run.status}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                      {run.overall_visibility_score != null ? `${Math.round(run.overall_visibility_score)}%` : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                      {run.weighted_visibility_score != null ? `${Math.round(run.weighted_visibility_score)}%` : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                      {run.average_rank ? `#${run.average_rank.toFixed(1)}` : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      {run.status === 'completed' && (
+                        <Link href={`/report/${run.id}`} className="text-blue-600 hover:text-blue-700">
+                          View report
+                        </Link>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
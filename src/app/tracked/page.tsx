@@ -0,0 +1,202 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock, Home, Loader2, Pause, Play, RefreshCw } from 'lucide-react';
+
+interface TrackedSummary {
+  id: string;
+  institution_name: string;
+  location?: string | null;
+  schedule: string;
+  active: boolean;
+  next_run_at: string;
+  last_run_at?: string | null;
+  last_analysis_id?: string | null;
+  total_topics: number;
+  total_queries: number;
+}
+
+const SCHEDULE_OPTIONS = ['daily', 'weekly', 'monthly'];
+
+function formatDate(value?: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+export default function TrackedInstitutionsPage() {
+  const [tracked, setTracked] = useState<TrackedSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTracked = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tracked');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load tracked institutions');
+      }
+
+      setTracked(data.tracked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tracked institutions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTracked();
+  }, [fetchTracked]);
+
+  // Shared by schedule changes, pause/resume and "Run now"
+  const act = async (id: string, url: string, init: RequestInit) => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      await fetchTracked();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <Loader2 className="w-12 h-12 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white sticky top-0 z-50 shadow-sm">
+        <div className="container mx-auto px-8 py-5 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Tracked Institutions</h1>
+            <p className="text-sm text-gray-500">The same queries, re-run on a schedule</p>
+          </div>
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-8 py-10">
+        <div className="max-w-5xl mx-auto space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {tracked.map(item => {
+            const isBusy = busyId === item.id;
+
+            return (
+              <Card key={item.id} className="p-6 bg-white border-gray-200 shadow-sm">
+                <div className="flex items-start justify-between gap-6">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-3">
+                      <Link href={`/tracked/${item.id}`} className="text-lg font-bold text-gray-900 hover:text-blue-600">
+                        {item.institution_name}
+                      </Link>
+                      {item.active ? (
+                        <Badge className="bg-green-50 text-green-700 border-green-200">Active</Badge>
+                      ) : (
+                        <Badge variant="secondary" className="bg-gray-100 text-gray-600 border-gray-300">Paused</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {item.location ? `${item.location} · ` : ''}{item.total_topics} topics · {item.total_queries} queries
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Last run: {formatDate(item.last_run_at)}
+                      {item.last_analysis_id && (
+                        <Link href={`/report/${item.last_analysis_id}`} className="ml-2 text-blue-600 hover:text-blue-700">
+                          View report
+                        </Link>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Next run: {item.active ? formatDate(item.next_run_at) : 'paused'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <select
+                      className="h-9 border border-gray-200 rounded-md px-2 text-sm text-gray-700 bg-white capitalize"
+                      value={item.schedule}
+                      onChange={e => act(item.id, `/api/tracked/${item.id}`, {
+                        method: 'PATCH',
+                        body: JSON.stringify({ schedule: e.target.value })
+                      })}
+                      disabled={isBusy}
+                    >
+                      {SCHEDULE_OPTIONS.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => act(item.id, `/api/tracked/${item.id}`, {
+                        method: 'PATCH',
+                        body: JSON.stringify({ active: !item.active })
+                      })}
+                      disabled={isBusy}
+                    >
+                      {item.active ? <Pause className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+                      {item.active ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-blue-600 hover:bg-blue-700"
+                      onClick={() => act(item.id, `/api/tracked/${item.id}/run`, { method: 'POST' })}
+                      disabled={isBusy}
+                    >
+                      {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                      Run Now
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+
+          {tracked.length === 0 && (
+            <div className="text-center py-16 text-gray-400">
+              <CalendarClock className="w-12 h-12 mx-auto mb-3 opacity-30" />
+              <p className="text-gray-600">No tracked institutions yet</p>
+              <p className="text-sm text-gray-500 mt-1">Open a report and choose &quot;Track Over Time&quot; to re-run its queries on a schedule.</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
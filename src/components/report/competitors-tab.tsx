@@ -3,6 +3,8 @@
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Users, Trophy, TrendingUp, Award } from 'lucide-react';
+import { formatInterval } from './confidence-bar';
+import type { ReportResponseCompetitor } from '@/lib/report-response';
 import {
   PieChart,
   Pie,
@@ -12,21 +14,16 @@ import {
   Tooltip
 } from 'recharts';
 
-interface Competitor {
-  id: string;
-  brand_name: string; // FIXED: Database uses brand_name
-  mention_count: number;
-  avg_rank: number | null; // Can be null
-}
-
 interface CompetitorsTabProps {
-  competitors: Competitor[];
+  competitors: ReportResponseCompetitor[];
   institutionName: string;
 }
 
 export default function CompetitorsTab({ competitors, institutionName }: CompetitorsTabProps) {
   const topCompetitors = competitors.slice(0, 10);
-  const totalMentions = competitors.reduce((sum, c) => sum + (c.mention_count || 0), 0);
+
+  // Share of all competitor mentions
+  const getShareOfVoice = (competitor: ReportResponseCompetitor) => competitor.share_of_voice.toFixed(1);
 
   // Prepare data for pie chart - top 5 + others
   const top5 = competitors.slice(0, 5);
@@ -62,7 +59,7 @@ export default function CompetitorsTab({ competitors, institutionName }: Competi
           <div className="space-y-2">
             {topCompetitors.map((competitor, index) => {
               const isFocusBrand = competitor.brand_name?.toLowerCase() === institutionName.toLowerCase();
-              const percentage = ((competitor.mention_count / totalMentions) * 100).toFixed(1);
+              const percentage = getShareOfVoice(competitor);
               const rank = index + 1;
 
               return (
@@ -164,7 +161,7 @@ export default function CompetitorsTab({ competitors, institutionName }: Competi
         <h3 className="text-xl font-bold mb-6 text-gray-900">All Competitors</h3>
         <div className="space-y-3">
           {competitors.slice(0, 30).map((competitor, index) => {
-            const mentionPercent = ((competitor.mention_count / totalMentions) * 100).toFixed(1);
+            const mentionPercent = getShareOfVoice(competitor);
 
             return (
               <div
@@ -178,6 +175,11 @@ export default function CompetitorsTab({ competitors, institutionName }: Competi
                   <div className="flex-1 min-w-0">
                     <div className="mb-1">
                       <span className="font-semibold text-gray-900">{competitor.brand_name || 'Unknown'}</span>
+                      {competitor.aliases.length > 0 && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          also written as {competitor.aliases.join(', ')}
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-3">
                       <Badge variant="secondary" className="text-xs bg-white text-gray-700 border-gray-300">
@@ -186,9 +188,22 @@ export default function CompetitorsTab({ competitors, institutionName }: Competi
                       <span className="text-xs text-gray-600">
                         {mentionPercent}% of competitor mentions
                       </span>
-                      {competitor.avg_rank && (
+                      {competitor.mention_percentage != null && (
+                        <span className="text-xs text-gray-600">
+                          In {Math.round(competitor.mention_percentage)}% of responses
+                          {formatInterval(competitor.mention_ci_lower, competitor.mention_ci_upper) && (
+                            <> (95% CI {formatInterval(competitor.mention_ci_lower, competitor.mention_ci_upper)})</>
+                          )}
+                        </span>
+                      )}
+                      {competitor.weighted_visibility_score != null && (
+                        <span className="text-xs text-gray-600">
+                          Weighted visibility: {Math.round(competitor.weighted_visibility_score)}%
+                        </span>
+                      )}
+                      {!!competitor.average_rank && (
                         <span className="text-xs text-gray-600">
-                          Avg rank: #{competitor.avg_rank.toFixed(1)}
+                          Avg rank: #{competitor.average_rank.toFixed(1)}
                         </span>
                       )}
                     </div>
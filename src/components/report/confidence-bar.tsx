@@ -0,0 +1,45 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+interface ConfidenceBarProps {
+  value: number; // Percent (0-100)
+  lower?: number | null; // 95% interval bounds, percent
+  upper?: number | null;
+  barClassName?: string;
+}
+
+/**
+ * Format a 95% interval as "a–b%", or null when it was never calculated
+ */
+export function formatInterval(lower?: number | null, upper?: number | null): string | null {
+  if (lower == null || upper == null) return null;
+  return `${Math.round(lower)}–${Math.round(upper)}%`;
+}
+
+/**
+ * Progress bar with an error bar marking the 95% confidence range
+ */
+export default function ConfidenceBar({ value, lower, upper, barClassName }: ConfidenceBarProps) {
+  const hasInterval = lower != null && upper != null;
+
+  return (
+    <div className="relative w-full h-3">
+      <div className="absolute inset-x-0 top-0.5 h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={cn('h-full rounded-full transition-all', barClassName ?? 'bg-blue-500')}
+          style={{ width: `${value}%` }}
+        />
+      </div>
+      {hasInterval && (
+        <div
+          className="absolute inset-y-0 border-x-2 border-gray-500"
+          style={{ left: `${lower}%`, width: `${Math.max(0, upper - lower)}%` }}
+          title={`95% CI: ${formatInterval(lower, upper)}`}
+        >
+          <div className="absolute inset-x-0 top-1/2 h-px bg-gray-500" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import Link from 'next/link';
+import { Download, Printer } from 'lucide-react';
+
+// Matches EXPORT_FORMATS on the server
+const EXPORT_OPTIONS = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'xlsx', label: 'Excel' },
+  { id: 'json', label: 'JSON' }
+];
+
+const LINK_CLASS = 'px-3 py-1.5 rounded-md text-sm font-medium border border-gray-200 bg-white text-gray-700 hover:bg-gray-100 transition-colors';
+
+interface ExportButtonsProps {
+  analysisId: string;
+  canExportPdf?: boolean; // The PDF is only rendered for completed analyses
+}
+
+export default function ExportButtons({ analysisId, canExportPdf = false }: ExportButtonsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-sm text-gray-500">
+        <Download className="h-4 w-4" />
+        Export
+      </span>
+      {EXPORT_OPTIONS.map(option => (
+        <a
+          key={option.id}
+          href={`/api/report/${analysisId}/export?format=${option.id}`}
+          download
+          className={LINK_CLASS}
+        >
+          {option.label}
+        </a>
+      ))}
+      {canExportPdf && (
+        <>
+          <a href={`/api/report/${analysisId}/pdf`} download className={LINK_CLASS}>
+            PDF
+          </a>
+          <Link href={`/report/${analysisId}/print`} className={`${LINK_CLASS} flex items-center gap-1`}>
+            <Printer className="h-4 w-4" />
+            Print View
+          </Link>
+        </>
+      )}
+    </div>
+  );
+}
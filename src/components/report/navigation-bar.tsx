@@ -12,6 +12,7 @@ const sections = [
   { id: 'prompts', label: 'Prompts' },
   { id: 'sources', label: 'All Cited Sources' },
   { id: 'competitors', label: 'Competitors' },
+  { id: 'review', label: 'Review Matches' },
 ];
 
 export default function NavigationBar({ activeSection, onSectionChange }: NavigationBarProps) {
@@ -4,39 +4,15 @@ import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Share2, Check } from 'lucide-react';
+import ConfidenceBar, { formatInterval } from './confidence-bar';
+import type { ReportResponse, ReportResponseAnalysis } from '@/lib/report-response';
 
 interface OverviewTabProps {
-  reportData: {
-    analysis: {
-      institution_name: string;
-      overall_visibility: number;
-      avg_rank: number;
-      top_rank_count: number;
-    };
-    topics: Array<{
-      id: string;
-      topic_name: string;
-      queries: Array<{
-        visibility: number;
-        focused_brand_rank: number | null;
-      }>;
-    }>;
-    competitors: Array<{
-      brand_name: string; // FIXED: Database uses brand_name
-      mention_count: number;
-    }>;
-    sources: Array<{
-      domain: string;
-      citation_count: number;
-    }>;
-    summary: {
-      totalQueries: number;
-    };
-  };
+  reportData: ReportResponse;
 }
 
 export default function OverviewTab({ reportData }: OverviewTabProps) {
-  const { analysis, topics, competitors, sources, summary } = reportData;
+  const { analysis, engines, topics, competitors, sources, summary } = reportData;
   const [copied, setCopied] = useState(false);
 
   const handleShare = async () => {
@@ -65,19 +41,23 @@ export default function OverviewTab({ reportData }: OverviewTabProps) {
   const focusBrandData = focusBrandIndex === -1 ? null : allBrandsSorted[focusBrandIndex];
   const focusBrandInTop3 = focusBrandRank && focusBrandRank <= 3;
 
-  // Calculate topic-level visibility (FIXED: correct calculation)
+  // Topic-level visibility as stored by the metrics (every sample, like the headline);
+  // derived from the query rows for topics without stored figures
   const topTopics = topics
     .map(topic => {
-      const queriesWithMention = topic.queries.filter(
-        q => (q.focused_brand_rank ?? 0) > 0
-      ).length;
-      const visibilityPercent = (queriesWithMention / topic.queries.length) * 100;
+      const queriesWithMention = topic.visibility_percentage != null
+        ? topic.queries_with_mention
+        : topic.queries.filter(q => (q.focused_brand_rank ?? 0) > 0).length;
+      const visibilityPercent = topic.visibility_percentage ?? (queriesWithMention / topic.queries.length) * 100;
 
       return {
         name: topic.topic_name,
         mentions: queriesWithMention,
         totalQueries: topic.queries.length,
-        visibility: Math.round(visibilityPercent)
+        visibility: Math.round(visibilityPercent),
+        weightedVisibility: topic.weighted_visibility_percentage,
+        ciLower: topic.visibility_ci_lower,
+        ciUpper: topic.visibility_ci_upper
       };
     })
     .sort((a, b) => b.visibility - a.visibility)
@@ -92,6 +72,17 @@ export default function OverviewTab({ reportData }: OverviewTabProps) {
   // Top 10 for competitor mentions card
   const top10Brands = allBrandsSorted.slice(0, 10);
 
+  // Side-by-side engine comparison (only when the analysis used several engines)
+  const showEngineComparison = engines.length > 1 && analysis.engine_metrics.length > 0;
+  const getEngineMetrics = (metrics: ReportResponseAnalysis['engine_metrics'], engineId: string) =>
+    metrics.find(m => m.engine === engineId);
+
+  // Headline figures come from the primary engine, averaged over its samples of each prompt
+  const sampleNote = analysis.samples_per_query > 1 ? `averaged over ${analysis.samples_per_query} samples per prompt` : null;
+  const headlineSource = engines.length > 1
+    ? [`From ${engines[0].label} answers`, sampleNote].filter(Boolean).join(', ')
+    : sampleNote && `Visibility and rank ${sampleNote}`;
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -100,8 +91,88 @@ export default function OverviewTab({ reportData }: OverviewTabProps) {
           {analysis.institution_name}
         </h2>
         <p className="text-gray-600 text-lg">AI Visibility Report</p>
+        {analysis.overall_visibility_score != null && (
+          <p className="text-gray-500 text-sm mt-2">
+            Overall visibility <span className="font-semibold text-gray-900">{Math.round(analysis.overall_visibility_score)}%</span>
+            {formatInterval(analysis.visibility_ci_lower, analysis.visibility_ci_upper) && (
+              <> (95% CI {formatInterval(analysis.visibility_ci_lower, analysis.visibility_ci_upper)})</>
+            )}
+            {analysis.weighted_visibility_score != null && (
+              <> · Weighted by rank <span className="font-semibold text-gray-900">{Math.round(analysis.weighted_visibility_score)}%</span></>
+            )}
+            {analysis.average_rank != null && analysis.average_rank > 0 && (
+              <> · Average rank <span className="font-semibold text-gray-900">#{analysis.average_rank.toFixed(1)}</span></>
+            )}
+          </p>
+        )}
+        {analysis.overall_visibility_score != null && headlineSource && (
+          <p className="text-gray-400 text-xs mt-1">
+            {headlineSource}
+          </p>
+        )}
+        {analysis.top_rank_count > 0 && (
+          <p className="text-gray-500 text-sm mt-1">
+            Ranked #1 in <span className="font-semibold text-gray-900">{analysis.top_rank_count}</span> of {summary.totalQueries} responses
+          </p>
+        )}
       </div>
 
+      {/* Visibility by AI Engine */}
+      {showEngineComparison && (
+        <Card className="p-8 bg-white border-gray-200 shadow-sm">
+          <h3 className="text-xl font-bold text-gray-900 mb-2">Visibility by AI Engine</h3>
+          <p className="text-sm text-gray-600 mb-6">The same prompts answered by each engine</p>
+
+          <div className={`grid gap-4 mb-6 ${engines.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+            {engines.map(engine => {
+              const metrics = getEngineMetrics(analysis.engine_metrics, engine.id);
+
+              return (
+                <div key={engine.id} className="p-6 rounded-lg bg-gray-50 border border-gray-200">
+                  <div className="text-sm font-semibold text-gray-600 uppercase mb-2">{engine.label}</div>
+                  <div className="text-4xl font-bold text-gray-900">
+                    {Math.round(metrics?.visibility_score ?? 0)}%
+                  </div>
+                  <div className="text-sm text-gray-500 mt-1">
+                    {metrics?.answers_mentioned ?? 0} of {metrics?.total_answers ?? 0} responses
+                    {' · '}
+                    Avg rank {metrics && metrics.average_rank > 0 ? metrics.average_rank.toFixed(1) : '-'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Per-topic breakdown */}
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Topic</th>
+                  {engines.map(engine => (
+                    <th key={engine.id} className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">
+                      {engine.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {topics.map(topic => (
+                  <tr key={topic.id}>
+                    <td className="px-4 py-3 text-sm text-gray-900">{topic.topic_name}</td>
+                    {engines.map(engine => (
+                      <td key={engine.id} className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">
+                        {Math.round(getEngineMetrics(topic.engine_metrics, engine.id)?.visibility_score ?? 0)}%
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
       {/* 2x2 Grid Layout */}
       <div className="grid md:grid-cols-2 gap-8 mb-8">
         {/* Card 1: Relative Ranking (Top Left) */}
@@ -177,14 +248,18 @@ export default function OverviewTab({ reportData }: OverviewTabProps) {
                     </span>
                     <span className={`text-sm font-bold ${isFocusBrand ? 'text-indigo-900' : 'text-gray-900'}`}>
                       {percentage}%
+                      {formatInterval(brand.mention_ci_lower, brand.mention_ci_upper) && (
+                        <span className="ml-1 text-xs font-normal text-gray-500">
+                          ({formatInterval(brand.mention_ci_lower, brand.mention_ci_upper)})
+                        </span>
+                      )}
                     </span>
                   </div>
-                  <div className="w-full bg-gray-100 rounded-full h-2">
-                    <div
-                      className="h-full rounded-full bg-blue-500"
-                      style={{ width: `${percentage}%` }}
-                    />
-                  </div>
+                  <ConfidenceBar
+                    value={Math.min(100, Number(percentage))}
+                    lower={brand.mention_ci_lower}
+                    upper={brand.mention_ci_upper}
+                  />
                 </div>
               );
             })}
@@ -204,20 +279,21 @@ export default function OverviewTab({ reportData }: OverviewTabProps) {
                     </div>
                     <div className="text-gray-500 text-xs">
                       {topic.mentions} of {topic.totalQueries} responses
+                      {formatInterval(topic.ciLower, topic.ciUpper) && (
+                        <> · 95% CI {formatInterval(topic.ciLower, topic.ciUpper)}</>
+                      )}
                     </div>
                   </div>
-                  <div className="ml-4">
+                  <div className="ml-4 text-right">
                     <span className="text-gray-900 font-bold text-lg">
                       {topic.visibility}%
                     </span>
+                    {topic.weightedVisibility != null && (
+                      <div className="text-gray-500 text-xs">{Math.round(topic.weightedVisibility)}% weighted</div>
+                    )}
                   </div>
                 </div>
-                <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden">
-                  <div
-                    className="h-full bg-blue-500 rounded-full transition-all"
-                    style={{ width: `${topic.visibility}%` }}
-                  />
-                </div>
+                <ConfidenceBar value={topic.visibility} lower={topic.ciLower} upper={topic.ciUpper} />
                 {index < topTopics.length - 1 && (
                   <div className="border-b border-gray-200 mt-4" />
                 )}
@@ -0,0 +1,37 @@
+'use client';
+
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+
+interface PrintActionsProps {
+  analysisId: string;
+}
+
+// Toolbar for the print view - hidden from the printed page itself
+export default function PrintActions({ analysisId }: PrintActionsProps) {
+  return (
+    <div className="print:hidden border-b border-gray-200 bg-white">
+      <div className="max-w-4xl mx-auto px-8 py-4 flex items-center justify-between">
+        <Link href={`/report/${analysisId}`}>
+          <Button variant="ghost" size="sm" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Report
+          </Button>
+        </Link>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+          <a href={`/api/report/${analysisId}/pdf`} download>
+            <Button size="sm" className="bg-blue-600 hover:bg-blue-700">
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </Button>
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,37 +3,41 @@
 import React, { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle2, XCircle, ChevronDown, ChevronUp, Search, FileText, MessageSquare, Target, Globe } from 'lucide-react';
+import { CheckCircle2, XCircle, ChevronDown, ChevronUp, Search, FileText, MessageSquare, Target, Globe, GitCompare } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-
-interface Query {
-  id: string;
-  query_text: string;
-  answer: string | null;
-  brands_mentioned: string[] | null;
-  focused_brand: string;
-  focused_brand_rank: number | null;
-  visibility: number;
-  websites_cited: string[] | null;
-  status: string;
-}
-
-interface Topic {
-  id: string;
-  topic_name: string;
-  topic_order: number;
-  queries: Query[];
-}
+import QueryDiff from './query-diff';
+import type { ReportEngine, ReportResponseQuery, ReportResponseTopic } from '@/lib/report-response';
 
 interface PromptsTabProps {
-  topics: Topic[];
+  topics: ReportResponseTopic[];
   institutionName: string;
+  engines?: ReportEngine[];
+  samplesPerQuery?: number;
+  analysisId?: string;
+  canCompareRuns?: boolean; // Runs of a tracked institution ask the same queries
 }
 
-export default function PromptsTab({ topics, institutionName }: PromptsTabProps) {
+export default function PromptsTab({ topics, institutionName, engines = [], samplesPerQuery = 1, analysisId, canCompareRuns = false }: PromptsTabProps) {
   const [expandedTopics, setExpandedTopics] = useState<Set<string>>(new Set());
   const [expandedQueries, setExpandedQueries] = useState<Set<string>>(new Set());
+  const [selectedEngines, setSelectedEngines] = useState<Record<string, string>>({});
+  const [comparingQueries, setComparingQueries] = useState<Set<string>>(new Set());
+
+  const isMultiEngine = engines.length > 1;
+  const isSampled = samplesPerQuery > 1;
+
+  // First sample of an engine's answers - the one shown when a query was asked repeatedly
+  const findEngineAnswer = (query: ReportResponseQuery, engineId: string | undefined) =>
+    query.answers.find(a => a.engine === engineId && a.sample_index === 0);
+
+  // Answer shown in the expanded row: the selected engine's, or the primary answer on the query
+  const getDisplayedAnswer = (query: ReportResponseQuery) => {
+    const engineId = selectedEngines[query.id] ?? engines[0]?.id;
+    return findEngineAnswer(query, engineId) ?? query;
+  };
+
+  const formatPercent = (value: number | null | undefined) => `${Math.round((value ?? 0) * 100)}%`;
 
   // Convert answer text to bullet points
   const convertToBulletPoints = (text: string): string[] => {
@@ -68,7 +72,17 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
     setExpandedQueries(newExpanded);
   };
 
-  const getVisibilityBadge = (query: Query) => {
+  const toggleCompare = (queryId: string) => {
+    const newComparing = new Set(comparingQueries);
+    if (newComparing.has(queryId)) {
+      newComparing.delete(queryId);
+    } else {
+      newComparing.add(queryId);
+    }
+    setComparingQueries(newComparing);
+  };
+
+  const getVisibilityBadge = (query: ReportResponseQuery) => {
     const rank = query.focused_brand_rank;
     if (!rank || rank === 0) {
       return <Badge variant="secondary" className="bg-gray-100 text-gray-600 border-gray-300">Not Mentioned</Badge>;
@@ -170,6 +184,12 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                       <div className="text-xs text-gray-500 uppercase mb-1">Visibility</div>
                       <div className="text-lg font-bold text-gray-900">{visibilityPercent}%</div>
                     </div>
+                    {topic.weighted_visibility_percentage != null && (
+                      <div className="text-center min-w-[80px]">
+                        <div className="text-xs text-gray-500 uppercase mb-1">Weighted</div>
+                        <div className="text-lg font-bold text-gray-900">{Math.round(topic.weighted_visibility_percentage)}%</div>
+                      </div>
+                    )}
                     <div className="text-center min-w-[80px]">
                       <div className="text-xs text-gray-500 uppercase mb-1">Relevancy</div>
                       <div className="text-lg font-bold text-gray-900">{relevancyPercent}%</div>
@@ -178,6 +198,12 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                       <div className="text-xs text-gray-500 uppercase mb-1">Avg Rank</div>
                       <div className="text-lg font-bold text-gray-900">{avgRank}</div>
                     </div>
+                    {isSampled && (
+                      <div className="text-center min-w-[80px]">
+                        <div className="text-xs text-gray-500 uppercase mb-1">Stability</div>
+                        <div className="text-lg font-bold text-gray-900">{formatPercent(topic.stability_score)}</div>
+                      </div>
+                    )}
                   </div>
                 </button>
 
@@ -213,6 +239,7 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                             const queryVisibility = query.visibility || 0;
                             const queryRelevancy = queryVisibility; // Same as visibility
                             const queryRank = query.focused_brand_rank || 0;
+                            const displayed = getDisplayedAnswer(query);
 
                             return (
                               <React.Fragment key={query.id}>
@@ -232,6 +259,25 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                                   </td>
                                   <td className="px-6 py-4">
                                     <p className="text-sm text-gray-900 font-medium">{query.query_text}</p>
+                                    {isMultiEngine && (
+                                      <div className="flex flex-wrap gap-2 mt-2">
+                                        {engines.map(engine => {
+                                          const engineRank = findEngineAnswer(query, engine.id)?.focused_brand_rank ?? 0;
+                                          return (
+                                            <span key={engine.id} className="text-xs text-gray-500">
+                                              {engine.label}: <span className="font-semibold text-gray-700">{engineRank > 0 ? `#${engineRank}` : '-'}</span>
+                                            </span>
+                                          );
+                                        })}
+                                      </div>
+                                    )}
+                                    {isSampled && query.mention_probability != null && (
+                                      <p className="text-xs text-gray-500 mt-2">
+                                        Mentioned in <span className="font-semibold text-gray-700">{formatPercent(query.mention_probability)}</span> of {samplesPerQuery} samples
+                                        {(query.rank_mean ?? 0) > 0 && <> · avg rank #{(query.rank_mean ?? 0).toFixed(1)}</>}
+                                        {' '}· stability <span className="font-semibold text-gray-700">{formatPercent(query.stability_score)}</span>
+                                      </p>
+                                    )}
                                   </td>
                                   <td className="px-4 py-4 text-center">
                                     <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-semibold ${
@@ -267,6 +313,44 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                                   <tr>
                                     <td colSpan={5} className="bg-gray-50">
                                       <div className="px-8 py-6 space-y-6">
+                                        {/* Engine Switcher (multi-engine analyses) */}
+                                        {isMultiEngine && (
+                                          <div className="flex flex-wrap gap-2">
+                                            {engines.map(engine => {
+                                              const isSelected = (selectedEngines[query.id] ?? engines[0].id) === engine.id;
+                                              return (
+                                                <button
+                                                  key={engine.id}
+                                                  onClick={() => setSelectedEngines(prev => ({ ...prev, [query.id]: engine.id }))}
+                                                  className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                                                    isSelected
+                                                      ? 'bg-blue-600 text-white border-blue-600'
+                                                      : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-100'
+                                                  }`}
+                                                >
+                                                  {engine.label}
+                                                </button>
+                                              );
+                                            })}
+                                          </div>
+                                        )}
+
+                                        {/* Run-to-run diff (tracked institutions) */}
+                                        {canCompareRuns && analysisId && (
+                                          <div className="space-y-3">
+                                            <button
+                                              onClick={() => toggleCompare(query.id)}
+                                              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border bg-white text-gray-700 border-gray-200 hover:bg-gray-100 transition-colors"
+                                            >
+                                              <GitCompare className="w-4 h-4" />
+                                              {comparingQueries.has(query.id) ? 'Hide Comparison' : 'Compare With Another Run'}
+                                            </button>
+                                            {comparingQueries.has(query.id) && (
+                                              <QueryDiff queryId={query.id} analysisId={analysisId} />
+                                            )}
+                                          </div>
+                                        )}
+
                                         {/* Brands Mentioned Section - TOP */}
                                         <div>
                                           <div className="flex items-center gap-2 mb-3">
@@ -274,12 +358,12 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                                               Brands Mentioned
                                             </h4>
                                             <Badge variant="outline" className="text-xs border-gray-300 text-gray-500">
-                                              {query.brands_mentioned?.length || 0}
+                                              {displayed.brands_mentioned?.length || 0}
                                             </Badge>
                                           </div>
                                           <div className="flex flex-wrap gap-2">
-                                            {query.brands_mentioned && query.brands_mentioned.length > 0 ? (
-                                              query.brands_mentioned.map((brand, brandIndex) => {
+                                            {displayed.brands_mentioned && displayed.brands_mentioned.length > 0 ? (
+                                              displayed.brands_mentioned.map((brand, brandIndex) => {
                                                 const isFocusBrand = brand.toLowerCase() === institutionName.toLowerCase();
 
                                                 return (
@@ -310,9 +394,9 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                                             AI Response
                                           </h4>
                                           <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
-                                            {query.answer ? (
+                                            {displayed.answer ? (
                                               <ul className="list-disc list-inside space-y-2 text-gray-800">
-                                                {convertToBulletPoints(query.answer).map((sentence, idx) => (
+                                                {convertToBulletPoints(displayed.answer).map((sentence, idx) => (
                                                   <li key={idx} className="leading-relaxed">
                                                     {sentence}
                                                   </li>
@@ -332,12 +416,12 @@ export default function PromptsTab({ topics, institutionName }: PromptsTabProps)
                                               Citations
                                             </h4>
                                             <Badge variant="outline" className="text-xs border-gray-300 text-gray-500">
-                                              {query.websites_cited?.length || 0}
+                                              {displayed.websites_cited?.length || 0}
                                             </Badge>
                                           </div>
                                           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                                            {query.websites_cited && query.websites_cited.length > 0 ? (
-                                              query.websites_cited.map((source, sourceIndex) => (
+                                            {displayed.websites_cited && displayed.websites_cited.length > 0 ? (
+                                              displayed.websites_cited.map((source, sourceIndex) => (
                                                 <div
                                                   key={sourceIndex}
                                                   className="px-4 py-3 bg-white rounded-lg border border-gray-200 text-sm text-gray-700 font-medium flex items-center gap-2"
@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, Globe, Loader2 } from 'lucide-react';
+
+interface RunSnapshot {
+  analysis_id: string;
+  run_at: string;
+  focused_brand_rank: number;
+  brands_mentioned: string[];
+  websites_cited: string[];
+}
+
+interface QueryDiffData {
+  diff: {
+    before: RunSnapshot;
+    after: RunSnapshot;
+    answer: Array<{ type: 'equal' | 'added' | 'removed'; text: string }>;
+    brands: { added: string[]; removed: string[]; moved: Array<{ brand: string; from: number; to: number }> };
+    websites: { added: string[]; removed: string[] };
+  };
+  runs: Array<{ id: string; run_at: string }>;
+}
+
+interface QueryDiffProps {
+  queryId: string;
+  analysisId: string;
+}
+
+function formatRunDate(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+function formatRank(rank: number): string {
+  return rank > 0 ? `Rank #${rank}` : 'Not mentioned';
+}
+
+export default function QueryDiff({ queryId, analysisId }: QueryDiffProps) {
+  const [against, setAgainst] = useState<string | null>(null);
+  const [data, setData] = useState<QueryDiffData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDiff = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/query/${queryId}/diff${against ? `?against=${against}` : ''}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to compare runs');
+        }
+
+        setData(result);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to compare runs');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDiff();
+  }, [queryId, against]);
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 py-2">
+        <Loader2 className="w-4 h-4 animate-spin" /> Comparing runs...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-sm text-gray-500 py-2">{error || 'Nothing to compare'}</p>;
+  }
+
+  const { diff, runs } = data;
+  const otherRunId = diff.before.analysis_id === analysisId ? diff.after.analysis_id : diff.before.analysis_id;
+  const wasMentioned = diff.before.focused_brand_rank > 0;
+  const isMentioned = diff.after.focused_brand_rank > 0;
+  const hasBrandChanges = diff.brands.added.length + diff.brands.removed.length + diff.brands.moved.length > 0;
+  const hasWebsiteChanges = diff.websites.added.length + diff.websites.removed.length > 0;
+
+  return (
+    <div className="space-y-5 bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+      {/* Runs being compared */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm text-gray-700">
+          <span>
+            {formatRunDate(diff.before.run_at)} · <span className="font-semibold">{formatRank(diff.before.focused_brand_rank)}</span>
+          </span>
+          <ArrowRight className="w-4 h-4 text-gray-400" />
+          <span>
+            {formatRunDate(diff.after.run_at)} · <span className="font-semibold">{formatRank(diff.after.focused_brand_rank)}</span>
+          </span>
+        </div>
+        {runs.length > 1 && (
+          <select
+            className="h-8 border border-gray-200 rounded-md px-2 text-sm text-gray-700 bg-white"
+            value={otherRunId}
+            onChange={e => setAgainst(e.target.value)}
+            disabled={isLoading}
+          >
+            {runs.map(run => (
+              <option key={run.id} value={run.id}>Compare with {formatRunDate(run.run_at)}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {wasMentioned !== isMentioned && (
+        <div className={`px-4 py-2 rounded-lg text-sm font-medium border ${
+          isMentioned ? 'bg-green-50 text-green-700 border-green-200' : 'bg-red-50 text-red-700 border-red-200'
+        }`}>
+          {isMentioned ? 'Newly mentioned in the later run' : 'No longer mentioned in the later run'}
+        </div>
+      )}
+
+      {/* Brands Mentioned */}
+      <div>
+        <h4 className="font-semibold text-sm text-gray-600 uppercase tracking-wide mb-3">Brands Mentioned</h4>
+        {hasBrandChanges ? (
+          <div className="flex flex-wrap gap-2">
+            {diff.brands.added.map(brand => (
+              <Badge key={`added-${brand}`} className="bg-green-50 text-green-700 border-green-200">+ {brand}</Badge>
+            ))}
+            {diff.brands.removed.map(brand => (
+              <Badge key={`removed-${brand}`} className="bg-red-50 text-red-700 border-red-200 line-through">{brand}</Badge>
+            ))}
+            {diff.brands.moved.map(move => (
+              <Badge key={`moved-${move.brand}`} variant="outline" className="border-gray-300 text-gray-700">
+                {move.brand}: #{move.from} → #{move.to}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Same brands in the same order</p>
+        )}
+      </div>
+
+      {/* Citations */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <Globe className="w-4 h-4 text-gray-500" />
+          <h4 className="font-semibold text-sm text-gray-600 uppercase tracking-wide">Citations</h4>
+        </div>
+        {hasWebsiteChanges ? (
+          <ul className="space-y-1 text-sm">
+            {diff.websites.added.map(site => (
+              <li key={`added-${site}`} className="text-green-700 truncate">+ {site}</li>
+            ))}
+            {diff.websites.removed.map(site => (
+              <li key={`removed-${site}`} className="text-red-700 line-through truncate">{site}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">Same sources cited</p>
+        )}
+      </div>
+
+      {/* AI Response */}
+      <div>
+        <h4 className="font-semibold text-sm text-gray-600 uppercase tracking-wide mb-3">AI Response</h4>
+        <p className="text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+          {diff.answer.map((segment, index) => (
+            <span
+              key={index}
+              className={
+                segment.type === 'added' ? 'bg-green-100 text-green-900' :
+                segment.type === 'removed' ? 'bg-red-100 text-red-900 line-through' :
+                undefined
+              }
+            >
+              {segment.text}
+            </span>
+          ))}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+// Server-rendered PDF version of a report (rendered by GET /api/report/[id]/pdf)
+import { Document, Page, StyleSheet, Text, View } from '@react-pdf/renderer';
+import type { ReportDocument } from '@/lib/report-document';
+
+// Brand blue used across the app (Tailwind blue-600)
+const BRAND_COLOR = '#2563eb';
+
+const styles = StyleSheet.create({
+  page: { paddingTop: 64, paddingBottom: 56, paddingHorizontal: 40, fontSize: 10, color: '#111827', fontFamily: 'Helvetica' },
+  header: { position: 'absolute', top: 24, left: 40, right: 40, flexDirection: 'row', justifyContent: 'space-between', borderBottomWidth: 1, borderBottomColor: '#e5e7eb', paddingBottom: 8 },
+  brand: { fontSize: 11, fontFamily: 'Helvetica-Bold', color: BRAND_COLOR },
+  headerMeta: { fontSize: 9, color: '#6b7280' },
+  footer: { position: 'absolute', bottom: 24, left: 40, right: 40, flexDirection: 'row', justifyContent: 'space-between', fontSize: 8, color: '#9ca3af' },
+  title: { fontSize: 26, fontFamily: 'Helvetica-Bold', marginBottom: 4 },
+  subtitle: { fontSize: 10, color: '#6b7280', marginBottom: 2 },
+  sectionTitle: { fontSize: 14, fontFamily: 'Helvetica-Bold', marginTop: 20, marginBottom: 8 },
+  metrics: { flexDirection: 'row', marginTop: 16, marginBottom: 8 },
+  metric: { flex: 1, padding: 10, marginRight: 8, borderWidth: 1, borderColor: '#e5e7eb', borderRadius: 4, backgroundColor: '#f9fafb' },
+  metricLabel: { fontSize: 8, color: '#6b7280', textTransform: 'uppercase', marginBottom: 4 },
+  metricValue: { fontSize: 20, fontFamily: 'Helvetica-Bold' },
+  metricNote: { fontSize: 8, color: '#6b7280', marginTop: 2 },
+  highlight: { marginBottom: 4 },
+  tableHeader: { flexDirection: 'row', backgroundColor: '#f3f4f6', paddingVertical: 5, paddingHorizontal: 6, fontFamily: 'Helvetica-Bold', fontSize: 8, color: '#4b5563', textTransform: 'uppercase' },
+  tableRow: { flexDirection: 'row', paddingVertical: 5, paddingHorizontal: 6, borderBottomWidth: 1, borderBottomColor: '#e5e7eb' },
+  focusRow: { backgroundColor: '#eff6ff' },
+  cellWide: { flex: 3 },
+  cell: { flex: 1, textAlign: 'right' },
+  answer: { marginBottom: 12, padding: 10, borderWidth: 1, borderColor: '#e5e7eb', borderRadius: 4 },
+  answerQuery: { fontFamily: 'Helvetica-Bold', marginBottom: 3 },
+  answerMeta: { fontSize: 8, color: '#6b7280', marginBottom: 4 },
+  answerText: { color: '#374151' }
+});
+
+const formatPercent = (value: number | null) => (value == null ? '-' : `${Math.round(value)}%`);
+const formatRank = (value: number | null) => (value ? `#${value.toFixed(1)}` : '-');
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+export default function ReportPdf({ report }: { report: ReportDocument }) {
+  const { summary } = report;
+
+  return (
+    <Document title={`AI Visibility Report - ${report.institutionName}`} author="AI Visibility">
+      <Page size="A4" style={styles.page}>
+        {/* Repeated on every page */}
+        <View style={styles.header} fixed>
+          <Text style={styles.brand}>AI Visibility</Text>
+          <Text style={styles.headerMeta}>{report.institutionName}</Text>
+        </View>
+        <View style={styles.footer} fixed>
+          <Text>Generated {formatDate(new Date().toISOString())}</Text>
+          <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
+        </View>
+
+        {/* Executive summary */}
+        <Text style={styles.title}>{report.institutionName}</Text>
+        <Text style={styles.subtitle}>AI Visibility Report · {formatDate(report.analysedOn)}</Text>
+        {report.location && <Text style={styles.subtitle}>{report.location}</Text>}
+        {report.profileLabel && <Text style={styles.subtitle}>Profile: {report.profileLabel}</Text>}
+        <Text style={styles.subtitle}>Answer engines: {report.engines.join(', ')}</Text>
+
+        <View style={styles.metrics}>
+          <View style={styles.metric}>
+            <Text style={styles.metricLabel}>Visibility</Text>
+            <Text style={styles.metricValue}>{formatPercent(summary.visibility)}</Text>
+            {summary.visibilityLower != null && summary.visibilityUpper != null && (
+              <Text style={styles.metricNote}>95% CI {Math.round(summary.visibilityLower)}-{Math.round(summary.visibilityUpper)}%</Text>
+            )}
+          </View>
+          <View style={styles.metric}>
+            <Text style={styles.metricLabel}>Weighted by Rank</Text>
+            <Text style={styles.metricValue}>{formatPercent(summary.weightedVisibility)}</Text>
+          </View>
+          <View style={styles.metric}>
+            <Text style={styles.metricLabel}>Average Rank</Text>
+            <Text style={styles.metricValue}>{formatRank(summary.averageRank)}</Text>
+          </View>
+          <View style={[styles.metric, { marginRight: 0 }]}>
+            <Text style={styles.metricLabel}>Answers Mentioning</Text>
+            <Text style={styles.metricValue}>{summary.queriesMentioned}/{summary.totalQueries}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Executive Summary</Text>
+        {summary.highlights.map((highlight, index) => (
+          <Text key={index} style={styles.highlight}>• {highlight}</Text>
+        ))}
+
+        {/* Topic table */}
+        <Text style={styles.sectionTitle}>Visibility by Topic</Text>
+        <View style={styles.tableHeader}>
+          <Text style={styles.cellWide}>Topic</Text>
+          <Text style={styles.cell}>Mentioned</Text>
+          <Text style={styles.cell}>Visibility</Text>
+          <Text style={styles.cell}>Weighted</Text>
+          <Text style={styles.cell}>Avg Rank</Text>
+        </View>
+        {report.topics.map(topic => (
+          <View key={topic.name} style={styles.tableRow} wrap={false}>
+            <Text style={styles.cellWide}>{topic.name}</Text>
+            <Text style={styles.cell}>{topic.mentioned}/{topic.queries}</Text>
+            <Text style={styles.cell}>{formatPercent(topic.visibility)}</Text>
+            <Text style={styles.cell}>{formatPercent(topic.weighted)}</Text>
+            <Text style={styles.cell}>{formatRank(topic.averageRank)}</Text>
+          </View>
+        ))}
+
+        {/* Competitor leaderboard */}
+        <View wrap={false}>
+          <Text style={styles.sectionTitle}>Competitor Leaderboard</Text>
+          <View style={styles.tableHeader}>
+            <Text style={{ width: 24 }}>#</Text>
+            <Text style={styles.cellWide}>Brand</Text>
+            <Text style={styles.cell}>Mentions</Text>
+            <Text style={styles.cell}>Share of Voice</Text>
+            <Text style={styles.cell}>Avg Rank</Text>
+          </View>
+          {report.competitors.map(competitor => (
+            <View key={competitor.name} style={competitor.isFocusBrand ? [styles.tableRow, styles.focusRow] : styles.tableRow}>
+              <Text style={{ width: 24 }}>{competitor.rank}</Text>
+              <Text style={styles.cellWide}>{competitor.name}</Text>
+              <Text style={styles.cell}>{competitor.mentions}</Text>
+              <Text style={styles.cell}>{competitor.shareOfVoice.toFixed(1)}%</Text>
+              <Text style={styles.cell}>{formatRank(competitor.averageRank)}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Top sources */}
+        <View wrap={false}>
+          <Text style={styles.sectionTitle}>Top Cited Sources</Text>
+          <View style={styles.tableHeader}>
+            <Text style={styles.cellWide}>Domain</Text>
+            <Text style={styles.cell}>Citations</Text>
+          </View>
+          {report.sources.map(source => (
+            <View key={source.domain} style={styles.tableRow}>
+              <Text style={styles.cellWide}>{source.domain}</Text>
+              <Text style={styles.cell}>{source.citations}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Sample answers where the brand was missing */}
+        {report.missedAnswers.length > 0 && (
+          <View break>
+            <Text style={styles.sectionTitle}>Where {report.institutionName} Was Missing</Text>
+            {report.missedAnswers.map((answer, index) => (
+              <View key={index} style={styles.answer} wrap={false}>
+                <Text style={styles.answerQuery}>&ldquo;{answer.query}&rdquo;</Text>
+                <Text style={styles.answerMeta}>
+                  {answer.topic}{answer.brands.length > 0 ? ` · Recommended instead: ${answer.brands.join(', ')}` : ''}
+                </Text>
+                <Text style={styles.answerText}>{answer.excerpt}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </Page>
+    </Document>
+  );
+}
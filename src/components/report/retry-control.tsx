@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+
+interface RetryControlProps {
+  analysisId: string;
+  failedQueries: number;
+  totalQueries: number;
+}
+
+// Shown on reports where some queries failed: re-runs only those, then follows progress on the home page
+export default function RetryControl({ analysisId, failedQueries, totalQueries }: RetryControlProps) {
+  const router = useRouter();
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/analysis/${analysisId}/retry`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry analysis');
+      }
+
+      router.push(`/?analysisId=${analysisId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry analysis');
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-xl bg-amber-50 border border-amber-200">
+      <div className="text-sm text-amber-800">
+        <span className="font-semibold">{failedQueries} of {totalQueries} queries failed.</span>{' '}
+        They are left out of the scores below until they are retried.
+        {error && <div className="text-red-600 mt-1">{error}</div>}
+      </div>
+      <Button variant="outline" size="sm" onClick={handleRetry} disabled={isRetrying} className="bg-white">
+        {isRetrying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+        Retry Failed Queries
+      </Button>
+    </div>
+  );
+}
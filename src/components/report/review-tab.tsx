@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Loader2, ShieldQuestion } from 'lucide-react';
+import type { ReportResponseTopic } from '@/lib/report-response';
+
+interface ReviewTabProps {
+  topics: ReportResponseTopic[];
+  institutionName: string;
+  canReview: boolean; // Overrides recompute metrics, so only completed analyses can be reviewed
+  onMatchUpdated: () => Promise<void>;
+}
+
+export default function ReviewTab({ topics, institutionName, canReview, onMatchUpdated }: ReviewTabProps) {
+  const [showAll, setShowAll] = useState(false);
+  const [savingQueryId, setSavingQueryId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const completedQueries = topics.flatMap(topic =>
+    topic.queries
+      .filter(q => q.status === 'completed')
+      .map(q => ({ ...q, topicName: topic.topic_name }))
+  );
+
+  // Review queue: matches the validator was unsure about and nobody has reviewed yet
+  const needsReview = completedQueries.filter(q =>
+    (q.match_confidence === 'low' || q.match_confidence === 'medium') && !q.match_reviewed_at
+  );
+  const reviewed = completedQueries.filter(q => q.match_reviewed_at);
+  const listed = showAll ? completedQueries : needsReview;
+
+  const saveMatch = async (queryId: string, rank: number) => {
+    setSavingQueryId(queryId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/query/${queryId}/match`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rank })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save match');
+      }
+
+      await onMatchUpdated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save match');
+    } finally {
+      setSavingQueryId(null);
+    }
+  };
+
+  const getConfidenceBadge = (confidence?: string | null) => {
+    if (confidence === 'low') {
+      return <Badge className="bg-red-50 text-red-700 border-red-200">Low confidence</Badge>;
+    }
+    if (confidence === 'medium') {
+      return <Badge className="bg-yellow-50 text-yellow-700 border-yellow-200">Medium confidence</Badge>;
+    }
+    if (confidence === 'high') {
+      return <Badge className="bg-green-50 text-green-700 border-green-200">High confidence</Badge>;
+    }
+    return <Badge variant="secondary" className="bg-gray-100 text-gray-600 border-gray-300">Not recorded</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <Card className="p-6 bg-white border-gray-200 shadow-sm">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-gray-100 rounded-xl flex items-center justify-center">
+              <ShieldQuestion className="w-6 h-6 text-gray-600" />
+            </div>
+            <div>
+              <div className="text-lg font-bold text-gray-900">
+                {needsReview.length} match{needsReview.length !== 1 ? 'es' : ''} to review
+              </div>
+              <div className="text-sm text-gray-500">
+                Pick which brand in each answer is {institutionName}, or mark it as not mentioned. {reviewed.length} reviewed so far.
+              </div>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer whitespace-nowrap">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-blue-600"
+              checked={showAll}
+              onChange={() => setShowAll(prev => !prev)}
+            />
+            Show all matches
+          </label>
+        </div>
+        {!canReview && (
+          <p className="text-sm text-gray-500 mt-4">Matches can be changed once the analysis has completed.</p>
+        )}
+        {error && (
+          <p className="text-sm text-red-600 mt-4">{error}</p>
+        )}
+      </Card>
+
+      {/* Queue */}
+      {listed.map(query => {
+        const rank = query.focused_brand_rank ?? 0;
+        const isSaving = savingQueryId === query.id;
+        const disabled = !canReview || savingQueryId !== null;
+
+        return (
+          <Card key={query.id} className="p-6 bg-white border-gray-200 shadow-sm space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="text-xs text-gray-500 uppercase mb-1">{query.topicName}</div>
+                <p className="text-sm font-medium text-gray-900">{query.query_text}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {query.match_overridden && (
+                  <Badge className="bg-blue-50 text-blue-700 border-blue-200">Overridden</Badge>
+                )}
+                {getConfidenceBadge(query.match_confidence)}
+              </div>
+            </div>
+
+            <div className="text-sm text-gray-600">
+              Current match:{' '}
+              <span className="font-semibold text-gray-900">
+                {rank > 0 ? `#${rank} ${query.matched_name || query.brands_mentioned?.[rank - 1] || ''}` : 'Not mentioned'}
+              </span>
+              {query.match_reasoning && (
+                <span className="block text-xs text-gray-500 mt-1">{query.match_reasoning}</span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {(query.brands_mentioned || []).map((brand, index) => (
+                <button
+                  key={index}
+                  onClick={() => saveMatch(query.id, index + 1)}
+                  disabled={disabled}
+                  className={`px-3 py-1.5 rounded-lg text-sm border transition-colors disabled:opacity-60 ${
+                    rank === index + 1
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-100'
+                  }`}
+                >
+                  #{index + 1} {brand}
+                </button>
+              ))}
+              <button
+                onClick={() => saveMatch(query.id, 0)}
+                disabled={disabled}
+                className={`px-3 py-1.5 rounded-lg text-sm border transition-colors disabled:opacity-60 ${
+                  rank === 0
+                    ? 'bg-gray-700 text-white border-gray-700'
+                    : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                Not mentioned
+              </button>
+              {!query.match_reviewed_at && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => saveMatch(query.id, rank)}
+                  disabled={disabled}
+                >
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                  Confirm
+                </Button>
+              )}
+            </div>
+          </Card>
+        );
+      })}
+
+      {listed.length === 0 && (
+        <div className="text-center py-12 text-gray-400">
+          <CheckCircle2 className="w-12 h-12 mx-auto mb-3 opacity-30" />
+          <p className="text-gray-600">No matches waiting for review</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,10 @@
 
 import { Card } from '@/components/ui/card';
 import { Globe } from 'lucide-react';
-
-interface Source {
-  id: string;
-  domain: string;
-  citation_count: number;
-}
+import type { ReportResponseSource } from '@/lib/report-response';
 
 interface SourcesTabProps {
-  sources: Source[];
+  sources: ReportResponseSource[];
 }
 
 export default function SourcesTab({ sources }: SourcesTabProps) {
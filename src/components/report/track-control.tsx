@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { CalendarClock, Loader2 } from 'lucide-react';
+
+// Matches TRACKING_SCHEDULES on the server
+const SCHEDULE_OPTIONS = [
+  { id: 'daily', label: 'Daily' },
+  { id: 'weekly', label: 'Weekly' },
+  { id: 'monthly', label: 'Monthly' }
+];
+
+interface TrackControlProps {
+  analysisId: string;
+  trackedInstitutionId?: string | null;
+}
+
+export default function TrackControl({ analysisId, trackedInstitutionId }: TrackControlProps) {
+  const [schedule, setSchedule] = useState('weekly');
+  const [trackedId, setTrackedId] = useState<string | null>(trackedInstitutionId ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTrack = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/tracked', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ analysisId, schedule })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to track institution');
+      }
+
+      setTrackedId(data.tracked.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to track institution');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Runs of a tracked institution link back to it instead
+  if (trackedId) {
+    return (
+      <Link href={`/tracked/${trackedId}`} className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700">
+        <CalendarClock className="h-4 w-4" />
+        Tracked over time · View trends
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2">
+        <select
+          className="h-9 border border-gray-200 rounded-md px-2 text-sm text-gray-700 bg-white"
+          value={schedule}
+          onChange={e => setSchedule(e.target.value)}
+          disabled={isSaving}
+        >
+          {SCHEDULE_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={handleTrack} disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="mr-2 h-4 w-4" />}
+          Track Over Time
+        </Button>
+      </div>
+      <span className="text-xs text-gray-500">Re-runs these exact queries on a schedule</span>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
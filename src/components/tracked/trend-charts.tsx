@@ -0,0 +1,268 @@
+'use client';
+
+import { Card } from '@/components/ui/card';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+
+interface TrendPoint {
+  analysis_id: string;
+  run_at: string;
+  overall_visibility_score: number | null;
+  weighted_visibility_score: number | null;
+  average_rank: number | null;
+  topics: Record<string, number | null>;
+  competitors: Record<string, number>;
+}
+
+interface TrendDeltas {
+  overall_visibility_score: number | null;
+  weighted_visibility_score: number | null;
+  average_rank: number | null;
+  topics: Record<string, number | null>;
+  competitors: Record<string, number>;
+}
+
+export interface VisibilityTrend {
+  points: TrendPoint[];
+  topics: string[];
+  competitors: string[];
+  deltas: TrendDeltas | null;
+}
+
+interface TrendChartsProps {
+  trend: VisibilityTrend;
+  institutionName: string;
+}
+
+// Distinct hues so several series stay readable on one chart
+const SERIES_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#ffffff',
+  border: '1px solid #e5e7eb',
+  borderRadius: '8px',
+  fontSize: '12px'
+};
+
+function formatRunDate(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Change since the previous run, green when it is an improvement
+ * `lowerIsBetter` flips the colours for ranks
+ */
+export function DeltaBadge({ value, unit = 'pts', lowerIsBetter = false }: {
+  value: number | null | undefined;
+  unit?: string;
+  lowerIsBetter?: boolean;
+}) {
+  if (value == null) {
+    return <span className="text-xs text-gray-400">No previous run</span>;
+  }
+
+  const rounded = Math.round(value * 10) / 10;
+  if (rounded === 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-semibold text-gray-500">
+        <Minus className="w-3 h-3" /> No change
+      </span>
+    );
+  }
+
+  const improved = lowerIsBetter ? rounded < 0 : rounded > 0;
+  const Icon = rounded > 0 ? TrendingUp : TrendingDown;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs font-semibold ${improved ? 'text-green-600' : 'text-red-600'}`}>
+      <Icon className="w-3 h-3" />
+      {rounded > 0 ? '+' : ''}{rounded} {unit}
+    </span>
+  );
+}
+
+function formatPercent(value: number | null | undefined): string {
+  return value == null ? '-' : `${Math.round(value)}%`;
+}
+
+export default function TrendCharts({ trend, institutionName }: TrendChartsProps) {
+  const { points, topics, competitors, deltas } = trend;
+  const latest = points[points.length - 1];
+
+  if (!latest) {
+    return (
+      <Card className="p-8 bg-white border-gray-200 shadow-sm text-center">
+        <p className="text-gray-600">No completed runs yet</p>
+        <p className="text-sm text-gray-500 mt-1">Trends appear once the first run finishes.</p>
+      </Card>
+    );
+  }
+
+  const chartData = points.map(point => ({ ...point, label: formatRunDate(point.run_at) }));
+  type ChartPoint = (typeof chartData)[number];
+
+  const summaryCards = [
+    { label: 'Overall Visibility', value: formatPercent(latest.overall_visibility_score), delta: deltas?.overall_visibility_score },
+    { label: 'Weighted Visibility', value: formatPercent(latest.weighted_visibility_score), delta: deltas?.weighted_visibility_score },
+    {
+      label: 'Average Rank',
+      value: latest.average_rank ? `#${latest.average_rank.toFixed(1)}` : '-',
+      delta: deltas?.average_rank,
+      unit: 'places',
+      lowerIsBetter: true
+    }
+  ];
+
+  return (
+    <div className="space-y-8">
+      {/* Latest run with change since the previous one */}
+      <div className="grid md:grid-cols-3 gap-4">
+        {summaryCards.map(card => (
+          <Card key={card.label} className="p-6 bg-white border-gray-200 shadow-sm">
+            <div className="text-sm font-semibold text-gray-600 uppercase mb-2">{card.label}</div>
+            <div className="text-4xl font-bold text-gray-900">{card.value}</div>
+            <div className="mt-2">
+              <DeltaBadge value={card.delta} unit={card.unit} lowerIsBetter={card.lowerIsBetter} />
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {/* Visibility over time */}
+      <Card className="p-8 bg-white border-gray-200 shadow-sm">
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Visibility Over Time</h3>
+        <p className="text-sm text-gray-600 mb-6">Share of queries mentioning {institutionName}, plain and weighted by rank</p>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => formatPercent(value as number)} />
+            <Legend />
+            <Line type="monotone" dataKey="overall_visibility_score" name="Overall" stroke={SERIES_COLORS[0]} strokeWidth={2} connectNulls />
+            <Line type="monotone" dataKey="weighted_visibility_score" name="Weighted" stroke={SERIES_COLORS[1]} strokeWidth={2} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      </Card>
+
+      {/* Average rank - rank 1 at the top */}
+      <Card className="p-8 bg-white border-gray-200 shadow-sm">
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Average Rank</h3>
+        <p className="text-sm text-gray-600 mb-6">Position in answers that mention {institutionName} (lower is better)</p>
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <YAxis reversed allowDecimals={false} domain={[1, 'auto']} tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => `#${(value as number).toFixed(1)}`} />
+            <Line type="monotone" dataKey="average_rank" name="Average rank" stroke={SERIES_COLORS[0]} strokeWidth={2} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      </Card>
+
+      {/* Per-topic visibility */}
+      <Card className="p-8 bg-white border-gray-200 shadow-sm">
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Visibility by Topic</h3>
+        <p className="text-sm text-gray-600 mb-6">Every run asks the same queries, so topics are directly comparable</p>
+        <ResponsiveContainer width="100%" height={320}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => formatPercent(value as number)} />
+            <Legend />
+            {topics.map((name, index) => (
+              <Line
+                key={name}
+                type="monotone"
+                // Function keys: topic names may contain dots, which dataKey strings treat as paths
+                dataKey={(point: ChartPoint) => point.topics[name] ?? null}
+                name={name}
+                stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                strokeWidth={2}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+
+        <table className="w-full mt-6">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Topic</th>
+              <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Latest</th>
+              <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Since Previous Run</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {topics.map(name => (
+              <tr key={name}>
+                <td className="px-4 py-3 text-sm text-gray-900">{name}</td>
+                <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatPercent(latest.topics[name])}</td>
+                <td className="px-4 py-3 text-right"><DeltaBadge value={deltas?.topics[name]} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+
+      {/* Competitor share of voice */}
+      <Card className="p-8 bg-white border-gray-200 shadow-sm">
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Share of Voice</h3>
+        <p className="text-sm text-gray-600 mb-6">{institutionName} and the leading brands in the latest run, as a share of all brand mentions</p>
+        <ResponsiveContainer width="100%" height={320}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <YAxis unit="%" tick={{ fontSize: 12, fill: '#6b7280' }} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => `${(value as number).toFixed(1)}%`} />
+            <Legend />
+            {competitors.map((name, index) => (
+              <Line
+                key={name}
+                type="monotone"
+                dataKey={(point: ChartPoint) => point.competitors[name] ?? 0}
+                name={name}
+                stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                strokeWidth={name.toLowerCase() === institutionName.toLowerCase() ? 3 : 2}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+
+        <table className="w-full mt-6">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Brand</th>
+              <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Latest</th>
+              <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Since Previous Run</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {competitors.map(name => (
+              <tr key={name} className={name.toLowerCase() === institutionName.toLowerCase() ? 'bg-blue-50' : undefined}>
+                <td className="px-4 py-3 text-sm text-gray-900">{name}</td>
+                <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{latest.competitors[name].toFixed(1)}%</td>
+                <td className="px-4 py-3 text-right"><DeltaBadge value={deltas?.competitors[name]} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+}
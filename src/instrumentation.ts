@@ -0,0 +1,16 @@
+// Next.js instrumentation hook - runs once when the server starts
+// Starts the background analysis worker and the tracking scheduler in the Node.js runtime
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (process.env.DISABLE_TRACKING_SCHEDULER !== 'true') {
+    const { startScheduler } = await import('@/lib/scheduler');
+    startScheduler();
+  }
+
+  if (process.env.DISABLE_ANALYSIS_WORKER === 'true') return;
+
+  const { startWorker } = await import('@/lib/worker');
+  startWorker();
+}
@@ -0,0 +1,138 @@
+// Analysis Comparison - Aligns two analyses (two institutions, or one in two regions) side by side
+// Topics are matched by name, competitors by brand name and sources by domain, all case-insensitively.
+import type {
+  Analysis,
+  AnalysisComparison,
+  ComparedAnalysis,
+  ComparedCompetitor,
+  ComparedCompetitorSide,
+  ComparedDomain,
+  ComparedTopicSide,
+  Competitor,
+  Source,
+  Topic
+} from '@/types';
+import { getRepository } from './repository';
+
+// Brands and domains listed as unique to one side
+export const MAX_UNIQUE_ITEMS = 15;
+
+const normalizeKey = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+function summarize(analysis: Analysis): ComparedAnalysis {
+  return {
+    id: analysis.id,
+    institution_name: analysis.institution_name,
+    location: analysis.location,
+    vertical: analysis.vertical,
+    created_at: analysis.created_at,
+    overall_visibility_score: analysis.overall_visibility_score ?? null,
+    weighted_visibility_score: analysis.weighted_visibility_score ?? null,
+    average_rank: analysis.average_rank || null, // 0 means never mentioned
+    queries_mentioned: analysis.queries_mentioned,
+    total_queries: analysis.total_queries
+  };
+}
+
+function toTopicSide(topic: Topic): ComparedTopicSide {
+  return {
+    visibility_percentage: topic.visibility_percentage ?? null,
+    weighted_visibility_percentage: topic.weighted_visibility_percentage ?? null,
+    average_rank: topic.average_rank || null,
+    total_queries: topic.total_queries
+  };
+}
+
+/**
+ * Competitors keyed by normalized name, with share of voice derived for older analyses
+ */
+function indexCompetitors(competitors: Competitor[]): Map<string, { name: string; side: ComparedCompetitorSide }> {
+  const totalMentions = competitors.reduce((sum, c) => sum + (c.mention_count || 0), 0);
+  return new Map(competitors.map(c => [normalizeKey(c.brand_name), {
+    name: c.brand_name,
+    side: {
+      mention_count: c.mention_count,
+      share_of_voice: c.share_of_voice ?? (totalMentions > 0 ? (c.mention_count / totalMentions) * 100 : 0),
+      average_rank: c.average_rank || null
+    }
+  }]));
+}
+
+function indexDomains(sources: Source[]): Map<string, number> {
+  const citations = new Map<string, number>();
+  for (const source of sources) {
+    const domain = normalizeKey(source.domain || source.url);
+    citations.set(domain, (citations.get(domain) || 0) + source.citation_count);
+  }
+  return citations;
+}
+
+const shareOf = (competitor: ComparedCompetitor) => (competitor.a?.share_of_voice ?? 0) + (competitor.b?.share_of_voice ?? 0);
+const citationsOf = (domain: ComparedDomain) => domain.a_citations + domain.b_citations;
+
+/**
+ * Build the side-by-side comparison of two analyses
+ */
+export async function compareAnalyses(a: Analysis, b: Analysis): Promise<AnalysisComparison> {
+  const repository = getRepository();
+  const [topicsA, topicsB, competitorsA, competitorsB, sourcesA, sourcesB] = await Promise.all([
+    repository.listTopics(a.id),
+    repository.listTopics(b.id),
+    repository.listCompetitors(a.id),
+    repository.listCompetitors(b.id),
+    repository.listSources(a.id),
+    repository.listSources(b.id)
+  ]);
+
+  // Topics: A's order first, then topics only B covers
+  const topicsByNameB = new Map(topicsB.map(t => [normalizeKey(t.topic_name), t]));
+  const topicNamesA = new Set(topicsA.map(t => normalizeKey(t.topic_name)));
+  const topics = [
+    ...topicsA.map(topic => {
+      const match = topicsByNameB.get(normalizeKey(topic.topic_name));
+      return { topic_name: topic.topic_name, a: toTopicSide(topic), b: match ? toTopicSide(match) : null };
+    }),
+    ...topicsB
+      .filter(topic => !topicNamesA.has(normalizeKey(topic.topic_name)))
+      .map(topic => ({ topic_name: topic.topic_name, a: null, b: toTopicSide(topic) }))
+  ];
+
+  // Competitors: overlap between the two answer sets
+  const indexA = indexCompetitors(competitorsA);
+  const indexB = indexCompetitors(competitorsB);
+  const shared: ComparedCompetitor[] = [];
+  const onlyA: ComparedCompetitor[] = [];
+  for (const [key, { name, side }] of indexA) {
+    const match = indexB.get(key);
+    (match ? shared : onlyA).push({ brand_name: name, a: side, b: match?.side ?? null });
+  }
+  const onlyB: ComparedCompetitor[] = Array.from(indexB)
+    .filter(([key]) => !indexA.has(key))
+    .map(([, { name, side }]) => ({ brand_name: name, a: null, b: side }));
+
+  // Cited domains
+  const domainsA = indexDomains(sourcesA);
+  const domainsB = indexDomains(sourcesB);
+  const allDomains = new Set([...domainsA.keys(), ...domainsB.keys()]);
+  const domains = Array.from(allDomains, domain => ({
+    domain,
+    a_citations: domainsA.get(domain) || 0,
+    b_citations: domainsB.get(domain) || 0
+  }));
+
+  return {
+    a: summarize(a),
+    b: summarize(b),
+    topics,
+    competitors: {
+      shared: shared.sort((x, y) => shareOf(y) - shareOf(x)),
+      only_a: onlyA.sort((x, y) => shareOf(y) - shareOf(x)).slice(0, MAX_UNIQUE_ITEMS),
+      only_b: onlyB.sort((x, y) => shareOf(y) - shareOf(x)).slice(0, MAX_UNIQUE_ITEMS)
+    },
+    domains: {
+      shared: domains.filter(d => d.a_citations > 0 && d.b_citations > 0).sort((x, y) => citationsOf(y) - citationsOf(x)),
+      only_a: domains.filter(d => d.b_citations === 0).sort((x, y) => citationsOf(y) - citationsOf(x)).slice(0, MAX_UNIQUE_ITEMS),
+      only_b: domains.filter(d => d.a_citations === 0).sort((x, y) => citationsOf(y) - citationsOf(x)).slice(0, MAX_UNIQUE_ITEMS)
+    }
+  };
+}
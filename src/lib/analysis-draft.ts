@@ -0,0 +1,152 @@
+// Analysis Drafts - Topics and queries from Prompt #1 that the user reviews before processing
+// A draft analysis has its topic/query rows but no queued job; starting it enqueues the job.
+import type { Analysis, TopicData } from '@/types';
+import { getRepository } from './repository';
+import { enqueueAnalysisJob } from './job-queue';
+import { recordProgressEvent } from './progress-events';
+
+export const MAX_DRAFT_TOPICS = 30;
+export const MAX_QUERIES_PER_TOPIC = 30;
+export const MAX_DRAFT_TEXT_LENGTH = 500;
+
+/**
+ * Validate an edited topic list, e.g. [{ topic: "MBA Programs", prompts: ["best MBA colleges in Pune", ...] }]
+ * Names are trimmed, blank prompts dropped and duplicate prompts within a topic removed.
+ * Returns null when the list is malformed or leaves nothing to process.
+ */
+export function parseDraftTopics(value: unknown): TopicData[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_DRAFT_TOPICS) return null;
+
+  const topics: TopicData[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const { topic, prompts } = item as Record<string, unknown>;
+
+    if (typeof topic !== 'string' || !topic.trim() || topic.length > MAX_DRAFT_TEXT_LENGTH) return null;
+    if (!Array.isArray(prompts) || prompts.length > MAX_QUERIES_PER_TOPIC) return null;
+    if (!prompts.every(p => typeof p === 'string' && p.length <= MAX_DRAFT_TEXT_LENGTH)) return null;
+
+    const cleaned = Array.from(new Set((prompts as string[]).map(p => p.trim()).filter(Boolean)));
+    if (cleaned.length === 0) return null;
+
+    topics.push({ topic: topic.trim(), prompts: cleaned });
+  }
+
+  return topics;
+}
+
+/**
+ * Insert topic and query rows for an analysis
+ * @returns number of queries created
+ */
+async function insertTopicsAndQueries(
+  analysisId: string,
+  focusBrand: string,
+  topics: TopicData[]
+): Promise<number> {
+  const repository = getRepository();
+  let totalQueries = 0;
+
+  for (const [topicIndex, topic] of topics.entries()) {
+    // Create topic record
+    const topicRecord = await repository.createTopic({
+      analysis_id: analysisId,
+      topic_name: topic.topic,
+      topic_order: topicIndex + 1,
+      total_queries: topic.prompts.length
+    });
+
+    // Create query records for this topic (pure, unbiased queries)
+    const queryInserts = topic.prompts.map((prompt: string, promptIndex: number) => {
+      totalQueries++;
+
+      return {
+        analysis_id: analysisId,
+        topic_id: topicRecord.id,
+        query_text: prompt,
+        query_order: promptIndex + 1,
+        focused_brand: focusBrand, // Use corrected name for brand detection
+        status: 'pending' as const
+      };
+    });
+
+    await repository.createQueries(queryInserts);
+  }
+
+  return totalQueries;
+}
+
+/**
+ * Create topic and query rows for newly generated (or imported) topics
+ * @returns number of queries created
+ */
+export async function createTopicsAndQueries(
+  analysisId: string,
+  focusBrand: string,
+  topics: TopicData[]
+): Promise<number> {
+  const totalQueries = await insertTopicsAndQueries(analysisId, focusBrand, topics);
+  await recordProgressEvent(analysisId, 'topics_generated', { topics: topics.length, queries: totalQueries });
+
+  return totalQueries;
+}
+
+/**
+ * Replace a draft's topics and queries with an edited set
+ * The new rows are written before the old ones are deleted, so a failed save leaves the
+ * previous draft intact (any rows it had added are removed again)
+ * @returns number of queries in the draft
+ */
+export async function saveDraftTopics(analysis: Analysis, topics: TopicData[]): Promise<number> {
+  const repository = getRepository();
+  const previousTopicIds = (await repository.listTopics(analysis.id)).map(t => t.id);
+
+  let totalQueries: number;
+  try {
+    totalQueries = await insertTopicsAndQueries(analysis.id, analysis.institution_name, topics);
+  } catch (error) {
+    const addedTopicIds = (await repository.listTopics(analysis.id))
+      .map(t => t.id)
+      .filter(id => !previousTopicIds.includes(id));
+    if (addedTopicIds.length > 0) await repository.deleteTopics(analysis.id, addedTopicIds);
+    throw error;
+  }
+
+  if (previousTopicIds.length > 0) await repository.deleteTopics(analysis.id, previousTopicIds);
+
+  await repository.updateAnalysis(analysis.id, {
+    topics,
+    total_queries: totalQueries,
+    updated_at: new Date().toISOString()
+  });
+
+  console.log(`✏️  Saved draft ${analysis.id}: ${topics.length} topics, ${totalQueries} queries`);
+  return totalQueries;
+}
+
+/**
+ * Move a draft into the queue; the worker then runs processAnalysis() on its queries
+ * The status changes first (a worker skips drafts); if queueing fails the analysis goes back
+ * to being a draft, so it can be started again
+ */
+export async function startDraftAnalysis(analysisId: string): Promise<void> {
+  const repository = getRepository();
+
+  // Topics and queries exist, so processing starts at 25% as it did before drafts
+  await repository.updateAnalysis(analysisId, {
+    status: 'pending',
+    progress: 25,
+    updated_at: new Date().toISOString()
+  });
+
+  try {
+    await enqueueAnalysisJob(analysisId);
+  } catch (error) {
+    await repository.updateAnalysis(analysisId, {
+      status: 'draft',
+      progress: 0,
+      updated_at: new Date().toISOString()
+    });
+    throw error;
+  }
+}
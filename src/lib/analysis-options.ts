@@ -0,0 +1,91 @@
+// Analysis Options - Validates the settings shared by every way of creating an analysis
+// (Prompt #1 via /api/analyze, or an imported query set via /api/analyze/import)
+import type { EngineId, RankWeightTier, VerticalId } from '@/types';
+import { isEngineId, DEFAULT_ANSWER_ENGINE, ENGINE_IDS } from './answer-engine';
+import { DEFAULT_SAMPLES_PER_QUERY, MAX_SAMPLES_PER_QUERY } from './query-processor';
+import { parseRankWeights } from './metrics';
+import { DEFAULT_VERTICAL, MAX_VERTICAL_DESCRIPTION_LENGTH, VERTICAL_IDS, isVerticalId } from './verticals';
+
+export const MAX_BRAND_ALIASES = 50;
+
+export interface AnalysisOptions {
+  engines: EngineId[]; // Primary engine first
+  samplesPerQuery: number;
+  rankWeights?: RankWeightTier[]; // Default table when not supplied
+  brandAliases: string[];
+  vertical: VerticalId;
+  verticalDescription?: string;
+}
+
+/**
+ * Validate analysis settings from a request body
+ * @returns the options, or an error message for a 400 response
+ */
+export function parseAnalysisOptions(body: Record<string, unknown>): { options: AnalysisOptions } | { error: string } {
+  const {
+    engine = DEFAULT_ANSWER_ENGINE,
+    samplesPerQuery = DEFAULT_SAMPLES_PER_QUERY,
+    vertical = DEFAULT_VERTICAL,
+    verticalDescription
+  } = body;
+  // `engines` compares several engines in one analysis; the first is the primary engine
+  const engines: unknown[] = Array.isArray(body.engines) && body.engines.length > 0 ? body.engines : [engine];
+
+  if (!engines.every(isEngineId)) {
+    return { error: `Unknown engine. Supported engines: ${ENGINE_IDS.join(', ')}` };
+  }
+
+  if (typeof samplesPerQuery !== 'number' || !Number.isInteger(samplesPerQuery) || samplesPerQuery < 1 || samplesPerQuery > MAX_SAMPLES_PER_QUERY) {
+    return { error: `samplesPerQuery must be a whole number from 1 to ${MAX_SAMPLES_PER_QUERY}` };
+  }
+
+  // Optional weighting table, e.g. [{ max_rank: 1, weight: 100 }, ..., { max_rank: null, weight: 10 }]
+  const rankWeights = body.rankWeights === undefined ? undefined : parseRankWeights(body.rankWeights);
+  if (rankWeights === null) {
+    return { error: 'rankWeights must list tiers with increasing max_rank, weights from 0 to 100, and a final tier with max_rank null' };
+  }
+
+  // Optional other names of the institution, matched before asking the LLM
+  const brandAliases: unknown = body.brandAliases ?? [];
+  if (!Array.isArray(brandAliases) || brandAliases.length > MAX_BRAND_ALIASES || !brandAliases.every(a => typeof a === 'string' && a.length <= 200)) {
+    return { error: `brandAliases must be a list of at most ${MAX_BRAND_ALIASES} names` };
+  }
+
+  // Vertical profile: selects the Prompt #1 template and matching heuristics
+  if (!isVerticalId(vertical)) {
+    return { error: `Unknown vertical. Supported verticals: ${VERTICAL_IDS.join(', ')}` };
+  }
+
+  if (verticalDescription !== undefined && (typeof verticalDescription !== 'string' || verticalDescription.length > MAX_VERTICAL_DESCRIPTION_LENGTH)) {
+    return { error: `verticalDescription must be text of at most ${MAX_VERTICAL_DESCRIPTION_LENGTH} characters` };
+  }
+
+  // The custom profile has no built-in domain, so the user describes it
+  const description = verticalDescription?.trim() || undefined;
+  if (vertical === 'custom' && !description) {
+    return { error: 'verticalDescription is required for the custom vertical' };
+  }
+
+  return {
+    options: {
+      engines: Array.from(new Set(engines)),
+      samplesPerQuery,
+      rankWeights,
+      brandAliases,
+      vertical,
+      verticalDescription: description
+    }
+  };
+}
+
+/**
+ * Aliases to store for an analysis: only the ones the user supplied, without repeats of the name itself
+ * (a name Prompt #1 corrected is not added - a typo would then count as a match)
+ */
+export function resolveBrandAliases(brandAliases: string[], institutionName: string): string[] {
+  return Array.from(new Set(
+    brandAliases
+      .map(alias => alias.trim())
+      .filter(alias => alias && alias !== institutionName)
+  ));
+}
@@ -0,0 +1,113 @@
+// Analysis Progress - Folds the progress event stream into what the progress dialog shows
+// Pure (no server imports) so the landing page can use it in the browser.
+import type { ProgressEvent } from '@/types';
+
+// Dialog milestones: 0 researching, 1 running prompts, 2 fetching responses, 3 analyzing, 4 done
+export const PROGRESS_STEPS = {
+  RESEARCHING: 0,
+  QUEUED: 1,
+  FETCHING: 2,
+  ANALYZING: 3,
+  DONE: 4
+} as const;
+
+export type ProgressOutcome =
+  | { type: 'completed'; progress: number }
+  | { type: 'failed'; error: string }
+  | { type: 'cancelled' };
+
+export interface AnalysisProgressState {
+  step: number;
+  totalQueries: number;
+  totalBatches: number; // Of the current run
+  batchesFinished: number;
+  engines: string[];
+  queryResults: Record<string, { status: 'completed' | 'failed'; mentioned: boolean }>; // Latest result per query
+  retrying: string | null; // Error of a failed attempt the job queue will retry
+  outcome: ProgressOutcome | null;
+}
+
+export const INITIAL_PROGRESS_STATE: AnalysisProgressState = {
+  step: PROGRESS_STEPS.RESEARCHING,
+  totalQueries: 0,
+  totalBatches: 0,
+  batchesFinished: 0,
+  engines: [],
+  queryResults: {},
+  retrying: null,
+  outcome: null
+};
+
+/**
+ * Apply one event to the dialog state
+ */
+export function applyProgressEvent(state: AnalysisProgressState, event: ProgressEvent): AnalysisProgressState {
+  switch (event.type) {
+    case 'topics_generated':
+      return { ...state, step: Math.max(state.step, PROGRESS_STEPS.QUEUED), totalQueries: event.data.queries };
+
+    case 'queued':
+      // A new run (first start or retry) - earlier outcomes no longer apply
+      return { ...state, step: PROGRESS_STEPS.QUEUED, retrying: null, outcome: null };
+
+    case 'processing_started':
+      return {
+        ...state,
+        step: PROGRESS_STEPS.FETCHING,
+        totalQueries: event.data.total_queries,
+        totalBatches: event.data.batches,
+        batchesFinished: 0,
+        engines: event.data.engines,
+        retrying: null
+      };
+
+    case 'batch_started':
+      return state;
+
+    case 'batch_finished': {
+      const batchesFinished = state.batchesFinished + 1;
+      return {
+        ...state,
+        batchesFinished,
+        step: batchesFinished >= state.totalBatches ? PROGRESS_STEPS.ANALYZING : state.step
+      };
+    }
+
+    case 'query_completed':
+      return {
+        ...state,
+        queryResults: {
+          ...state.queryResults,
+          [event.data.query_id]: { status: event.data.status, mentioned: event.data.mentioned }
+        }
+      };
+
+    case 'metrics_computed':
+      return { ...state, step: PROGRESS_STEPS.DONE, outcome: { type: 'completed', progress: event.data.progress } };
+
+    case 'failed':
+      return event.data.will_retry
+        ? { ...state, retrying: event.data.error }
+        : { ...state, retrying: null, outcome: { type: 'failed', error: event.data.error } };
+
+    case 'cancelled':
+      return { ...state, outcome: { type: 'cancelled' } };
+  }
+}
+
+/**
+ * Counts shown in the dialog
+ */
+export function summarizeProgress(state: AnalysisProgressState) {
+  const results = Object.values(state.queryResults);
+  const answered = results.filter(r => r.status === 'completed').length;
+
+  return {
+    answered,
+    failed: results.length - answered,
+    mentions: results.filter(r => r.mentioned).length,
+    progress: state.outcome?.type === 'completed'
+      ? state.outcome.progress
+      : state.totalQueries > 0 ? Math.min(100, Math.round((answered / state.totalQueries) * 100)) : 0
+  };
+}
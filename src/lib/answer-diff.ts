@@ -0,0 +1,144 @@
+// Answer Diff - Compares two runs' answers to the same query (text, brands mentioned, websites cited)
+import type { Analysis, BrandMove, DiffSegment, Query, QueryDiff, QueryRunSnapshot } from '@/types';
+
+// Word-level LCS table size above which the differing middle is shown as one replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Word-level diff of two texts (whitespace is kept so segments join back into the original text)
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\s+|[^\s]+/g) || [];
+  const b = after.match(/\s+|[^\s]+/g) || [];
+
+  // Common prefix and suffix never need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else if (text) {
+      segments.push({ type, text });
+    }
+  };
+
+  push('equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    push('removed', midA.join(''));
+    push('added', midB.join(''));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push('equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push('removed', midA[i++]);
+      } else {
+        push('added', midB[j++]);
+      }
+    }
+    push('removed', midA.slice(i).join(''));
+    push('added', midB.slice(j).join(''));
+  }
+
+  push('equal', a.slice(endA).join(''));
+  return segments;
+}
+
+/**
+ * Items only in `after` (added) and only in `before` (removed)
+ */
+export function diffLists(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter(item => !beforeSet.has(item)),
+    removed: before.filter(item => !afterSet.has(item))
+  };
+}
+
+/**
+ * Brands added, removed, or listed at a different position (compared case-insensitively)
+ */
+export function diffBrands(before: string[], after: string[]): { added: string[]; removed: string[]; moved: BrandMove[] } {
+  const positionBefore = new Map(before.map((brand, index) => [brand.toLowerCase(), index + 1]));
+  const positionAfter = new Map(after.map((brand, index) => [brand.toLowerCase(), index + 1]));
+
+  const moved: BrandMove[] = [];
+  for (const brand of after) {
+    const from = positionBefore.get(brand.toLowerCase());
+    const to = positionAfter.get(brand.toLowerCase())!;
+    if (from !== undefined && from !== to) {
+      moved.push({ brand, from, to });
+    }
+  }
+
+  return {
+    added: after.filter(brand => !positionBefore.has(brand.toLowerCase())),
+    removed: before.filter(brand => !positionAfter.has(brand.toLowerCase())),
+    moved
+  };
+}
+
+function toSnapshot(query: Query, run: Analysis): QueryRunSnapshot {
+  return {
+    analysis_id: run.id,
+    query_id: query.id,
+    run_at: run.completed_at || run.created_at,
+    focused_brand_rank: query.focused_brand_rank ?? 0,
+    brands_mentioned: query.brands_mentioned || [],
+    websites_cited: query.websites_cited || []
+  };
+}
+
+/**
+ * Compare the same query in two runs - whichever run is older becomes `before`
+ */
+export function buildQueryDiff(
+  first: { query: Query; run: Analysis },
+  second: { query: Query; run: Analysis },
+  topicName: string
+): QueryDiff {
+  const [older, newer] = first.run.created_at <= second.run.created_at ? [first, second] : [second, first];
+  const before = toSnapshot(older.query, older.run);
+  const after = toSnapshot(newer.query, newer.run);
+
+  return {
+    query_text: newer.query.query_text,
+    topic_name: topicName,
+    before,
+    after,
+    answer: diffText(older.query.answer || '', newer.query.answer || ''),
+    brands: diffBrands(before.brands_mentioned, after.brands_mentioned),
+    websites: diffLists(before.websites_cited, after.websites_cited)
+  };
+}
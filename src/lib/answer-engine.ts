@@ -0,0 +1,59 @@
+// Answer Engine Registry - Selects the LLM provider used by an analysis
+import type { AnswerEngine, EngineId } from '@/types';
+import { openAIEngine } from './openai';
+import { perplexityEngine } from './perplexity';
+import { mockEngine } from './mock-engine';
+import { CASSETTE_MODE, withCassette } from './engine-cassette';
+
+const ENGINES: Record<EngineId, AnswerEngine> = {
+  openai: openAIEngine,
+  perplexity: perplexityEngine,
+  mock: mockEngine
+};
+
+// MOCK_ENGINES=true serves every engine from offline fixtures (ids and labels are kept)
+const USE_MOCK_ENGINES = process.env.MOCK_ENGINES === 'true';
+
+export const ENGINE_IDS = Object.keys(ENGINES) as EngineId[];
+
+// Defaults preserve the original pipeline: Perplexity for Prompt #1, OpenAI for Prompts #2/#3
+export const DEFAULT_TOPIC_ENGINE: EngineId = isEngineId(process.env.DEFAULT_TOPIC_ENGINE)
+  ? process.env.DEFAULT_TOPIC_ENGINE
+  : 'perplexity';
+export const DEFAULT_ANSWER_ENGINE: EngineId = isEngineId(process.env.DEFAULT_ANSWER_ENGINE)
+  ? process.env.DEFAULT_ANSWER_ENGINE
+  : 'openai';
+
+/**
+ * Type guard for engine identifiers coming from requests or the database
+ */
+export function isEngineId(value: unknown): value is EngineId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ENGINES, value);
+}
+
+/**
+ * Look up an engine by id
+ */
+export function getAnswerEngine(id: EngineId): AnswerEngine {
+  if (!isEngineId(id)) {
+    throw new Error(`Unknown answer engine "${id}" (expected one of: ${ENGINE_IDS.join(', ')})`);
+  }
+
+  const engine = USE_MOCK_ENGINES
+    ? { ...mockEngine, id, label: ENGINES[id].label }
+    : ENGINES[id];
+
+  // With ENGINE_CASSETTE_MODE set, calls are recorded to / replayed from disk
+  return CASSETTE_MODE ? withCassette(engine, CASSETTE_MODE) : engine;
+}
+
+/**
+ * Engines an analysis fans its queries out to, primary engine first
+ * Analyses created before multi-engine support only have `engine`
+ */
+export function resolveAnalysisEngines(analysis: { engine?: unknown; engines?: unknown }): EngineId[] {
+  const engines = Array.isArray(analysis.engines) ? analysis.engines.filter(isEngineId) : [];
+  if (engines.length > 0) return Array.from(new Set(engines));
+
+  return [isEngineId(analysis.engine) ? analysis.engine : DEFAULT_ANSWER_ENGINE];
+}
@@ -1,8 +1,12 @@
 // Batch Processor - Concurrent Query Processing
-import { supabaseAdmin } from './supabase';
-import { processBatchQueries, createErrorResult, OpenAIError } from './openai';
+import { getRepository } from './repository';
+import { processBatchQueries } from './query-processor';
+import { getAnswerEngine, resolveAnalysisEngines } from './answer-engine';
 import { calculateAllMetrics, updateAnalysisProgress } from './metrics';
-import type { Query, BatchQueryResult, BATCH_CONFIG as BatchConfig } from '@/types';
+import { abortableSleep, AnalysisCancelledError, isCancellationError, isLeaseLost, throwIfCancelled } from './cancellation';
+import { recordProgressEvent } from './progress-events';
+import { getVerticalProfile, type VerticalProfile } from './verticals';
+import type { AnswerEngine, Query, BatchQueryResult, BATCH_CONFIG as BatchConfig } from '@/types';
 
 // Configuration
 const BATCH_CONFIG = {
@@ -28,13 +32,6 @@ function timeout(ms: number): Promise<never> {
   );
 }
 
-/**
- * Sleep helper
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Create batches from queries array
  */
@@ -57,31 +54,37 @@ function createBatches(queries: Query[], batchSize: number): QueryBatch[] {
  */
 async function processSingleBatch(
   analysisId: string,
+  engines: AnswerEngine[],
   focusBrand: string,
+  brandAliases: string[],
+  profile: VerticalProfile,
   location: string,
-  batch: QueryBatch
+  samplesPerQuery: number,
+  batch: QueryBatch,
+  signal?: AbortSignal
 ): Promise<void> {
   const { MAX_RETRIES, TIMEOUT_MS } = BATCH_CONFIG;
   let lastError: Error | null = null;
 
+  throwIfCancelled(signal);
+
   console.log(`[Batch ${batch.batchId}] Starting with ${batch.queries.length} queries`);
 
-  // Mark all queries in batch as processing
-  await Promise.all(
-    batch.queries.map(q =>
-      supabaseAdmin
-        .from('queries')
-        .update({ status: 'processing' })
-        .eq('id', q.id)
-    )
-  );
+  // Mark all queries in batch as processing - unless a cancel from another process got there first
+  const queryIds = batch.queries.map(q => q.id);
+  const marked = await getRepository().updateQueries(queryIds, { status: 'processing' }, 'cancelled');
+  if (marked < batch.queries.length) {
+    // The cancel may have swept the analysis before the rows marked above - don't leave them 'processing'
+    await getRepository().updateQueries(queryIds, { status: 'cancelled', processed_at: new Date().toISOString() }, 'cancelled');
+    throw new AnalysisCancelledError();
+  }
 
   // Retry logic
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      // Call OpenAI API - pass full query objects for real-time DB updates with location for web search
+      // Call the answer engine - pass full query objects for real-time DB updates with location for web search
       // No batch-level timeout needed since individual queries have 5-min timeouts
-      const results = await processBatchQueries(focusBrand, location, batch.queries);
+      const results = await processBatchQueries(engines, focusBrand, brandAliases, profile, location, batch.queries, samplesPerQuery, signal);
 
       // No need to save results - they're already saved individually in processBatchQueries()
 
@@ -89,6 +92,8 @@ async function processSingleBatch(
       return;
 
     } catch (error) {
+      if (isCancellationError(error, signal)) throw error;
+
       lastError = error as Error;
       console.error(`[Batch ${batch.batchId}] ❌ Attempt ${attempt} failed:`, error);
 
@@ -96,7 +101,7 @@ async function processSingleBatch(
         // Exponential backoff
         const waitTime = 2000 * attempt;
         console.log(`[Batch ${batch.batchId}] Retrying in ${waitTime}ms...`);
-        await sleep(waitTime);
+        await abortableSleep(waitTime, signal);
       }
     }
   }
@@ -104,18 +109,11 @@ async function processSingleBatch(
   // All retries failed - mark queries as failed
   console.error(`[Batch ${batch.batchId}] ❌ All retries failed`);
 
-  await Promise.all(
-    batch.queries.map(q =>
-      supabaseAdmin
-        .from('queries')
-        .update({
-          status: 'failed',
-          error_message: lastError?.message || 'Unknown error',
-          processed_at: new Date().toISOString()
-        })
-        .eq('id', q.id)
-    )
-  );
+  await getRepository().updateQueries(batch.queries.map(q => q.id), {
+    status: 'failed',
+    error_message: lastError?.message || 'Unknown error',
+    processed_at: new Date().toISOString()
+  });
 
   throw lastError;
 }
@@ -125,9 +123,14 @@ async function processSingleBatch(
  */
 async function processBatchesConcurrently(
   analysisId: string,
+  engines: AnswerEngine[],
   focusBrand: string,
+  brandAliases: string[],
+  profile: VerticalProfile,
   location: string,
-  batches: QueryBatch[]
+  samplesPerQuery: number,
+  batches: QueryBatch[],
+  signal?: AbortSignal
 ): Promise<void> {
   const { CONCURRENT_BATCHES } = BATCH_CONFIG;
   const totalBatches = batches.length;
@@ -136,27 +139,49 @@ async function processBatchesConcurrently(
   console.log(`   Total batches: ${totalBatches}`);
   console.log(`   Concurrent: ${CONCURRENT_BATCHES}`);
   console.log(`   Queries per batch: ${batches[0]?.queries.length || 5}`);
+  console.log(`   Engines: ${engines.map(e => e.label).join(', ')}`);
+  console.log(`   Samples per query: ${samplesPerQuery}`);
+  console.log(`   Brand aliases: ${brandAliases.length > 0 ? brandAliases.join(', ') : 'none'}`);
+  console.log(`   Vertical: ${profile.label}`);
   console.log(`   Location: ${location}\n`);
 
   // Process in rounds
   for (let i = 0; i < totalBatches; i += CONCURRENT_BATCHES) {
+    // Stop scheduling new rounds once the analysis is cancelled
+    if (signal?.aborted) {
+      console.log(`\n🛑 Cancelled - skipping remaining ${totalBatches - i} batches`);
+      return;
+    }
+
     const roundBatches = batches.slice(i, i + CONCURRENT_BATCHES);
     const roundNumber = Math.floor(i / CONCURRENT_BATCHES) + 1;
     const totalRounds = Math.ceil(totalBatches / CONCURRENT_BATCHES);
 
     console.log(`\n📦 Round ${roundNumber}/${totalRounds}: Processing batches ${i + 1}-${i + roundBatches.length}`);
 
-    // Process this round's batches in parallel
-    const batchPromises = roundBatches.map(batch =>
-      processSingleBatch(analysisId, focusBrand, location, batch)
-    );
+    // Process this round's batches in parallel, reporting each one as it starts and finishes
+    const batchPromises = roundBatches.map(async batch => {
+      const batchInfo = { batch: batch.batchId, total_batches: totalBatches };
+      await recordProgressEvent(analysisId, 'batch_started', { ...batchInfo, queries: batch.queries.length });
+
+      try {
+        await processSingleBatch(analysisId, engines, focusBrand, brandAliases, profile, location, samplesPerQuery, batch, signal);
+        await recordProgressEvent(analysisId, 'batch_finished', { ...batchInfo, status: 'completed' });
+      } catch (error) {
+        if (!isCancellationError(error, signal)) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          await recordProgressEvent(analysisId, 'batch_finished', { ...batchInfo, status: 'failed', error: message });
+        }
+        throw error;
+      }
+    });
 
     // Wait for all batches in this round to complete
     const results = await Promise.allSettled(batchPromises);
 
     // Log any failures
     results.forEach((result, index) => {
-      if (result.status === 'rejected') {
+      if (result.status === 'rejected' && !isCancellationError(result.reason, signal)) {
         console.error(`[Batch ${roundBatches[index].batchId}] Failed:`, result.reason);
       }
     });
@@ -168,86 +193,128 @@ async function processBatchesConcurrently(
     // Add delay between rounds to avoid rate limiting (except after last round)
     if (i + CONCURRENT_BATCHES < totalBatches) {
       console.log(`⏳ Waiting ${BATCH_CONFIG.BATCH_DELAY_MS}ms before next round...`);
-      await sleep(BATCH_CONFIG.BATCH_DELAY_MS);
+      try {
+        await abortableSleep(BATCH_CONFIG.BATCH_DELAY_MS, signal);
+      } catch {
+        // Cancelled during the delay - the check at the top of the loop stops processing
+      }
     }
   }
 
   console.log(`\n✅ All batches processed!\n`);
 }
 
+/**
+ * Mark every query that never finished as cancelled
+ */
+async function markRemainingQueriesCancelled(analysisId: string): Promise<void> {
+  await getRepository().updateQueriesByStatus(analysisId, ['pending', 'processing'], {
+    status: 'cancelled',
+    processed_at: new Date().toISOString()
+  });
+}
+
 /**
  * Main function - Process entire analysis
- * This is called after analysis and queries are created in DB
+ * Called by the worker (see worker.ts) once it has claimed the analysis job.
+ * Safe to re-run: only queries that have not completed are processed, so a job
+ * reclaimed after a crash resumes where the previous worker stopped.
+ * Aborting the signal skips the remaining queries and leaves the analysis cancelled.
  */
-export async function processAnalysis(analysisId: string): Promise<void> {
+export async function processAnalysis(analysisId: string, signal?: AbortSignal): Promise<void> {
   console.log(`\n🎯 Starting analysis processing: ${analysisId}\n`);
 
   try {
     // 1. Fetch analysis to get institution name and location
-    const { data: analysis, error: analysisError} = await supabaseAdmin
-      .from('analyses')
-      .select('institution_name, location, status')
-      .eq('id', analysisId)
-      .single();
+    const repository = getRepository();
+    const analysis = await repository.getAnalysis(analysisId);
 
-    if (analysisError) throw analysisError;
     if (!analysis) throw new Error('Analysis not found');
 
-    if (analysis.status !== 'pending') {
+    if (analysis.status !== 'pending' && analysis.status !== 'processing') {
       console.log(`⚠️  Analysis ${analysisId} is already ${analysis.status}`);
       return;
     }
 
-    const location = analysis.location || 'Unknown';
+    if (analysis.status === 'processing') {
+      console.log(`♻️  Resuming analysis ${analysisId} after interrupted run`);
+    }
 
-    // 2. Mark analysis as processing
-    await supabaseAdmin
-      .from('analyses')
-      .update({
-        status: 'processing',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', analysisId);
-
-    // 3. Fetch all queries
-    const { data: queries, error: queriesError } = await supabaseAdmin
-      .from('queries')
-      .select('*')
-      .eq('analysis_id', analysisId)
-      .order('created_at', { ascending: true });
-
-    if (queriesError) throw queriesError;
-    if (!queries || queries.length === 0) {
-      throw new Error('No queries found for analysis');
+    const location = analysis.location || 'Unknown';
+    const engines = resolveAnalysisEngines(analysis).map(getAnswerEngine);
+    const samplesPerQuery = Math.max(1, analysis.samples_per_query ?? 1);
+    const brandAliases = analysis.brand_aliases ?? [];
+    const profile = getVerticalProfile(analysis.vertical);
+
+    // 2. Mark analysis as processing (a cancel that landed since it was read is kept)
+    const marked = await repository.updateAnalysis(analysisId, {
+      status: 'processing',
+      updated_at: new Date().toISOString()
+    }, 'cancelled');
+
+    if (!marked) {
+      console.log(`🛑 Analysis ${analysisId} was cancelled before processing started`);
+      return;
     }
 
-    console.log(`📝 Found ${queries.length} queries to process`);
+    // 3. Release queries orphaned mid-flight by a previous worker
+    await repository.updateQueriesByStatus(analysisId, ['processing'], { status: 'pending' });
+
+    // 4. Fetch queries still waiting to be processed
+    const queries = await repository.listQueries(analysisId, ['pending']);
 
-    // 4. Create batches
-    const batches = createBatches(queries, BATCH_CONFIG.QUERIES_PER_BATCH);
-    console.log(`📦 Created ${batches.length} batches`);
+    if (queries.length > 0) {
+      console.log(`📝 Found ${queries.length} queries to process`);
 
-    // 5. Process batches concurrently with location
-    await processBatchesConcurrently(analysisId, analysis.institution_name, location, batches);
+      // 5. Create batches
+      const batches = createBatches(queries, BATCH_CONFIG.QUERIES_PER_BATCH);
+      console.log(`📦 Created ${batches.length} batches`);
 
-    // 6. Calculate all metrics
+      await recordProgressEvent(analysisId, 'processing_started', {
+        total_queries: analysis.total_queries || queries.length,
+        pending_queries: queries.length,
+        batches: batches.length,
+        engines: engines.map(e => e.label)
+      });
+
+      // 6. Process batches concurrently with location
+      await processBatchesConcurrently(analysisId, engines, analysis.institution_name, brandAliases, profile, location, samplesPerQuery, batches, signal);
+    } else {
+      console.log(`📝 No pending queries - all queries already processed`);
+    }
+
+    // After a lost lease the remaining queries belong to the worker that took the job over
+    if (signal && isLeaseLost(signal)) throw signal.reason;
+
+    if (signal?.aborted) {
+      await markRemainingQueriesCancelled(analysisId);
+      await updateAnalysisProgress(analysisId);
+      console.log(`\n🛑 Analysis ${analysisId} cancelled\n`);
+      return;
+    }
+
+    // 7. Calculate all metrics
     console.log(`\n🧮 Calculating metrics...`);
-    await calculateAllMetrics(analysisId);
+    const completedMetrics = await calculateAllMetrics(analysisId);
+
+    if (!completedMetrics) {
+      console.log(`\n🛑 Analysis ${analysisId} cancelled before metrics were saved\n`);
+      return;
+    }
+
+    const completed = await repository.getAnalysis(analysisId);
+    await recordProgressEvent(analysisId, 'metrics_computed', {
+      progress: completed?.progress ?? 100,
+      total_queries: completed?.total_queries ?? 0,
+      queries_mentioned: completed?.queries_mentioned ?? 0,
+      overall_visibility_score: completed?.overall_visibility_score ?? null
+    });
 
     console.log(`\n✅ Analysis ${analysisId} completed successfully!\n`);
 
   } catch (error) {
+    // Failure status is decided by the worker, which may retry the job
     console.error(`\n❌ Analysis ${analysisId} failed:`, error);
-
-    // Mark analysis as failed
-    await supabaseAdmin
-      .from('analyses')
-      .update({
-        status: 'failed',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', analysisId);
-
     throw error;
   }
 }
@@ -256,11 +323,9 @@ export async function processAnalysis(analysisId: string): Promise<void> {
  * Get analysis status and progress
  */
 export async function getAnalysisStatus(analysisId: string) {
-  const { data: analysis } = await supabaseAdmin
-    .from('analyses')
-    .select('id, status, progress, completed_at')
-    .eq('id', analysisId)
-    .single();
+  const analysis = await getRepository().getAnalysis(analysisId);
+  if (!analysis) return null;
 
-  return analysis;
+  const { id, status, progress, completed_at } = analysis;
+  return { id, status, progress, completed_at };
 }
@@ -0,0 +1,312 @@
+// Brand Matching - Deterministic string matching of a focus brand against mentioned brands
+import { findBestMatch } from 'string-similarity';
+import { VERTICAL_PROFILES } from './verticals';
+
+// Original heuristics, built for Indian institutions: city names are not part of an acronym
+const DEFAULT_LOCATION_WORDS = VERTICAL_PROFILES.education.locationWords;
+
+/**
+ * EXPERT Brand Detection with 5-Layer Fuzzy Matching
+ * Expertly matches focus brand with abbreviations, short forms, full forms, and variations
+ *
+ * @param brandsMentioned - Array of brand names from LLM response (in order of appearance)
+ * @param focusBrand - The brand we're looking for (can be abbreviation or full name)
+ * @param locationWords - City names ignored when comparing names (the vertical profile's; Indian cities by default)
+ * @returns { rank: number, visibility: string } - rank (1-based) and visibility percentage
+ */
+export function detectBrandInAnswer(
+  brandsMentioned: string[],
+  focusBrand: string,
+  locationWords: string[] = DEFAULT_LOCATION_WORDS
+): { rank: number; visibility: string } {
+  if (!brandsMentioned || brandsMentioned.length === 0) {
+    return { rank: 0, visibility: '0%' };
+  }
+
+  const focusLower = focusBrand.toLowerCase().trim();
+  const focusClean = focusLower.replace(/[^\w\s]/g, ''); // Remove punctuation
+  let foundIndex = -1;
+
+  // Layer 1: Exact Match (case-insensitive, ignore punctuation)
+  foundIndex = brandsMentioned.findIndex(brand => {
+    const brandClean = brand.toLowerCase().trim().replace(/[^\w\s]/g, '');
+    return brandClean === focusClean;
+  });
+
+  if (foundIndex !== -1) {
+    console.log(`  ✓ Layer 1 (Exact): Found "${focusBrand}" at position ${foundIndex + 1}`);
+  } else {
+    // Layer 2: Substring Match (bidirectional, handles abbreviations in full names)
+    // Handles: "MIT" in "Massachusetts Institute of Technology (MIT)"
+    // Handles: "LPU" in "Lovely Professional University"
+    // Handles: "Lovely Professional University" when LLM wrote "LPU"
+    foundIndex = brandsMentioned.findIndex(brand => {
+      const brandLower = brand.toLowerCase().trim();
+      const brandClean = brandLower.replace(/[^\w\s]/g, '');
+
+      // Direct substring match
+      if (brandLower.includes(focusLower) || focusLower.includes(brandLower)) {
+        return true;
+      }
+
+      // Match without punctuation
+      if (brandClean.includes(focusClean) || focusClean.includes(brandClean)) {
+        return true;
+      }
+
+      // Check if focus brand is in parentheses (common abbreviation pattern)
+      const parenMatch = brand.match(/\(([^)]+)\)/);
+      if (parenMatch && parenMatch[1].toLowerCase().trim() === focusLower) {
+        return true;
+      }
+
+      return false;
+    });
+
+    if (foundIndex !== -1) {
+      console.log(`  ✓ Layer 2 (Substring): Found "${focusBrand}" in "${brandsMentioned[foundIndex]}" at position ${foundIndex + 1}`);
+    } else {
+      // Layer 2.5: Special handling for Xavier institutions and spelling variants
+      // Handles: "XIM Bhubaneswar" vs "Xavier Institute of Management Bhubaneswar"
+      // Handles: "Bhubaneswar" vs "Bhubaneshwar" spelling variants
+      foundIndex = brandsMentioned.findIndex(brand => {
+        const brandLower = brand.toLowerCase().trim();
+        const focusLowerTrimmed = focusLower.trim();
+
+        // Strip city names from both
+        let focusWithoutCity = focusLowerTrimmed;
+        let brandWithoutCity = brandLower;
+
+        for (const city of locationWords) {
+          focusWithoutCity = focusWithoutCity.replace(new RegExp(`\\b${city}\\b`, 'gi'), '').trim();
+          brandWithoutCity = brandWithoutCity.replace(new RegExp(`\\b${city}\\b`, 'gi'), '').trim();
+        }
+
+        // Check if focus is an acronym that matches the brand (without city)
+        const brandAcronymWithoutCity = getAcronym(brandWithoutCity, locationWords);
+        if (focusWithoutCity.length <= 6 && focusWithoutCity.toUpperCase() === brandAcronymWithoutCity) {
+          return true;
+        }
+
+        // Check reverse: if brand is acronym and focus has the full form
+        const focusAcronymWithoutCity = getAcronym(focusWithoutCity, locationWords);
+        if (brandWithoutCity.length <= 6 && brandWithoutCity.toUpperCase() === focusAcronymWithoutCity) {
+          return true;
+        }
+
+        // Spelling variant matching using Levenshtein distance (for Bhubaneswar vs Bhubaneshwar)
+        const similarity = findBestMatch(focusLowerTrimmed, [brandLower]).bestMatch.rating;
+        if (similarity >= 0.85) { // 85% similarity for spelling variants
+          return true;
+        }
+
+        return false;
+      });
+
+      if (foundIndex !== -1) {
+        console.log(`  ✓ Layer 2.5 (Xavier/Spelling): Matched "${focusBrand}" with "${brandsMentioned[foundIndex]}" at position ${foundIndex + 1}`);
+      } else {
+        // Layer 3: Acronym Detection (expert matching)
+        // Handles: "IIT Delhi" vs "Indian Institute of Technology Delhi"
+        // Handles: "LPU" vs "Lovely Professional University"
+        const focusAcronym = getAcronym(focusBrand, locationWords);
+        const focusWords = focusBrand.toLowerCase().split(/\s+/);
+
+        foundIndex = brandsMentioned.findIndex(brand => {
+          const brandAcronym = getAcronym(brand, locationWords);
+          const brandLower = brand.toLowerCase();
+          const brandWords = brand.toLowerCase().split(/\s+/);
+
+          // Check if acronyms match
+          if (focusAcronym && brandAcronym && focusAcronym === brandAcronym) {
+            return true;
+          }
+
+          // Check if focus brand IS the acronym of mentioned brand
+          // e.g., focus="LPU", brand="Lovely Professional University"
+          if (focusBrand.length <= 6 && brandAcronym === focusBrand.toUpperCase()) {
+            return true;
+          }
+
+          // Check if mentioned brand IS the acronym of focus brand
+          // e.g., focus="Lovely Professional University", brand="LPU"
+          if (brand.length <= 6 && focusAcronym === brand.toUpperCase()) {
+            return true;
+          }
+
+          // Check significant word overlap (70% threshold)
+          if (focusWords.length >= 2) {
+            const significantFocusWords = focusWords.filter(w => w.length > 2);
+            const significantBrandWords = brandWords.filter(w => w.length > 2);
+
+            if (significantFocusWords.length > 0) {
+              const matchCount = significantFocusWords.filter(word => brandLower.includes(word)).length;
+              if (matchCount >= Math.ceil(significantFocusWords.length * 0.7)) {
+                return true;
+              }
+            }
+
+            if (significantBrandWords.length > 0) {
+              const reverseMatchCount = significantBrandWords.filter(word => focusLower.includes(word)).length;
+              if (reverseMatchCount >= Math.ceil(significantBrandWords.length * 0.7)) {
+                return true;
+              }
+            }
+          }
+
+          return false;
+        });
+
+        if (foundIndex !== -1) {
+          console.log(`  ✓ Layer 3 (Acronym/Words): Matched "${focusBrand}" with "${brandsMentioned[foundIndex]}" at position ${foundIndex + 1}`);
+        } else {
+          // Layer 4: Common Abbreviation Patterns
+          // Handles: "IIT" in "IIT Delhi", "MIT" in "MIT Manipal", etc.
+          foundIndex = brandsMentioned.findIndex(brand => {
+            const brandParts = brand.split(/\s+/);
+            const focusParts = focusBrand.split(/\s+/);
+
+            // Check if any word in focus brand matches any word in mentioned brand
+            for (const focusPart of focusParts) {
+              for (const brandPart of brandParts) {
+                if (focusPart.toLowerCase() === brandPart.toLowerCase() && focusPart.length > 2) {
+                  // Found a matching significant word - check if it's the main identifier
+                  const focusFirstWord = focusParts[0].toLowerCase();
+                  const brandFirstWord = brandParts[0].toLowerCase();
+                  if (focusFirstWord === brandFirstWord || focusFirstWord.includes(brandFirstWord) || brandFirstWord.includes(focusFirstWord)) {
+                    return true;
+                  }
+                }
+              }
+            }
+
+            return false;
+          });
+
+          if (foundIndex !== -1) {
+            console.log(`  ✓ Layer 4 (Abbreviation Patterns): Matched "${focusBrand}" with "${brandsMentioned[foundIndex]}" at position ${foundIndex + 1}`);
+          } else {
+            // Layer 5: Similarity Score (Levenshtein Distance)
+            // Handles typos and minor variations
+            const similarities = brandsMentioned.map(brand => ({
+              brand,
+              score: findBestMatch(focusLower, [brand.toLowerCase()]).bestMatch.rating
+            }));
+
+            const bestMatch = similarities.reduce((best, current) =>
+              current.score > best.score ? current : best
+            , { brand: '', score: 0 });
+
+            if (bestMatch.score >= 0.65) { // 65% similarity threshold (lowered for better recall)
+              foundIndex = brandsMentioned.findIndex(b => b === bestMatch.brand);
+              console.log(`  ✓ Layer 5 (Similarity ${(bestMatch.score * 100).toFixed(0)}%): Matched "${focusBrand}" with "${bestMatch.brand}" at position ${foundIndex + 1}`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Calculate rank and visibility
+  if (foundIndex === -1) {
+    console.log(`  ✗ Brand "${focusBrand}" NOT found in ${brandsMentioned.length} mentioned brands`);
+    console.log(`  📋 Brands mentioned: ${brandsMentioned.join(', ')}`);
+    return { rank: 0, visibility: '0%' };
+  }
+
+  const rank = foundIndex + 1; // Convert to 1-based index
+
+  // Weighted ranking system: Rank 1=100%, 2-3=50%, 4-5=25%, 6+=10%
+  let visibility: string;
+  if (rank === 1) {
+    visibility = '100%';
+  } else if (rank <= 3) {
+    visibility = '50%';
+  } else if (rank <= 5) {
+    visibility = '25%';
+  } else {
+    visibility = '10%';
+  }
+
+  return { rank, visibility };
+}
+
+/**
+ * Lowercase, drop punctuation and a leading "the" - for exact name comparisons
+ * `legalSuffixes` (e.g. "inc", "ltd") are also dropped from the end: "Acme, Inc." → "acme"
+ */
+export function normalizeBrandName(name: string, legalSuffixes: string[] = []): string {
+  const words = name
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the /, '')
+    .split(' ');
+
+  while (words.length > 1 && legalSuffixes.includes(words[words.length - 1])) words.pop();
+  return words.join(' ');
+}
+
+/**
+ * Split "Indian Institute of Technology Delhi (IIT Delhi)" into its name and parenthesised alias
+ */
+export function splitParenthetical(name: string): { main: string; alias: string | null } {
+  const match = name.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+  if (!match || !match[1].trim()) return { main: name.trim(), alias: null };
+  return { main: match[1].trim(), alias: match[2].trim() };
+}
+
+/**
+ * Deterministic alias lookup: first mentioned brand that IS one of the aliases
+ * Exact after normalisation (case, punctuation, "the", and the vertical profile's `legalSuffixes`,
+ * so "Acme Inc." matches the alias "Acme"); "Name (Acronym)" matches on either part.
+ * No fuzzy layers - an unmatched answer goes to the LLM instead of risking a false positive.
+ *
+ * @returns rank (1-based) and the mention that matched, or null
+ */
+export function matchBrandAliases(
+  brandsMentioned: string[],
+  aliases: string[],
+  legalSuffixes: string[] = []
+): { rank: number; matched_name: string; alias: string } | null {
+  const aliasByNormalized = new Map(
+    aliases.map(alias => [normalizeBrandName(alias, legalSuffixes), alias] as const).filter(([normalized]) => normalized)
+  );
+
+  for (const [index, brand] of (brandsMentioned || []).entries()) {
+    if (!brand) continue;
+    const { main, alias } = splitParenthetical(brand);
+
+    for (const form of [brand, main, alias]) {
+      const matched = form ? aliasByNormalized.get(normalizeBrandName(form, legalSuffixes)) : undefined;
+      if (matched) {
+        return { rank: index + 1, matched_name: brand, alias: matched };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract acronym from a brand name
+ * Example: "Massachusetts Institute of Technology" → "MIT"
+ * Enhanced to handle city names and spelling variants
+ *
+ * @param locationWords - Words excluded from the acronym (the vertical profile's; Indian cities by default)
+ */
+export function getAcronym(name: string, locationWords: string[] = DEFAULT_LOCATION_WORDS): string {
+  const words = name.split(/\s+/);
+  const acronym = words
+    .filter(word => {
+      if (word.length === 0) return false;
+      // Exclude city names from acronym
+      if (locationWords.includes(word.toLowerCase())) return false;
+      return word[0] === word[0].toUpperCase();
+    })
+    .map(word => word[0])
+    .join('');
+  return acronym.length >= 2 ? acronym : ''; // Only return if 2+ characters
+}
+
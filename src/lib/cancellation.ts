@@ -0,0 +1,99 @@
+// Cancellation - Abort signals for running analyses
+// The worker registers a controller per analysis it is processing; the cancel route
+// aborts it directly when it lands on the same process, and the worker also polls
+// the analysis status so cancellation reaches workers on other processes.
+
+const controllers = new Map<string, AbortController>();
+
+// Error thrown when work is skipped because the analysis was cancelled
+export class AnalysisCancelledError extends Error {
+  constructor(message = 'Analysis was cancelled') {
+    super(message);
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+// Abort reason when the worker's job lease lapsed and another worker may have taken the job over:
+// the work stops like a cancellation, but nothing more is written for the analysis
+export class LeaseLostError extends Error {
+  constructor(message = 'Job lease was lost') {
+    super(message);
+    this.name = 'LeaseLostError';
+  }
+}
+
+/**
+ * Create (or replace) the abort controller for an analysis being processed
+ */
+export function registerAnalysisController(analysisId: string): AbortController {
+  const controller = new AbortController();
+  controllers.set(analysisId, controller);
+  return controller;
+}
+
+/**
+ * Forget the controller once processing has finished
+ */
+export function releaseAnalysisController(analysisId: string): void {
+  controllers.delete(analysisId);
+}
+
+/**
+ * Abort an analysis running in this process
+ * Returns false if this process is not processing it
+ */
+export function abortAnalysis(analysisId: string): boolean {
+  const controller = controllers.get(analysisId);
+  if (!controller) return false;
+
+  controller.abort(new AnalysisCancelledError());
+  return true;
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AnalysisCancelledError();
+  }
+}
+
+/**
+ * Check whether an error was caused by cancellation (directly or via an aborted fetch)
+ */
+export function isCancellationError(error: unknown, signal?: AbortSignal): boolean {
+  if (error instanceof AnalysisCancelledError) return true;
+  return !!signal?.aborted && error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Whether the signal was aborted because the job lease was lost (rather than the analysis cancelled)
+ */
+export function isLeaseLost(signal?: AbortSignal): boolean {
+  return !!signal?.aborted && signal.reason instanceof LeaseLostError;
+}
+
+/**
+ * Sleep that resolves early (by rejecting) when the signal aborts
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AnalysisCancelledError());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new AnalysisCancelledError());
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
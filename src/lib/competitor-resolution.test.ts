@@ -0,0 +1,57 @@
+// Competitor Resolution Tests - Spellings of one institution merge, different campuses do not
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Query } from '@/types';
+import { resolveCompetitorEntities } from './competitor-resolution';
+import { getVerticalProfile } from './verticals';
+
+/**
+ * Query rows carrying only what resolution reads: the brands in answer order and the focus rank
+ */
+function answers(...brandLists: Array<[string[], number?]>): Query[] {
+  return brandLists.map(([brands, rank = 0]) => ({ brands_mentioned: brands, focused_brand_rank: rank }) as Query);
+}
+
+describe('resolveCompetitorEntities', () => {
+  it('merges acronyms, parenthesised aliases and spelling variants into the most-mentioned name', () => {
+    const { entityByAlias } = resolveCompetitorEntities(answers(
+      [['Indian Institute of Technology Delhi', 'IIT Bombay']],
+      [['Indian Institute of Technology Delhi (IIT Delhi)', 'KIIT University Bhubaneswar']],
+      [['IIT Delhi', 'Indian Institute of Technology Delhi', 'KIIT University Bhubaneshwar']]
+    ), 'Northwind University');
+
+    assert.equal(entityByAlias['IIT Delhi'], 'Indian Institute of Technology Delhi');
+    assert.equal(entityByAlias['Indian Institute of Technology Delhi (IIT Delhi)'], 'Indian Institute of Technology Delhi');
+    assert.equal(entityByAlias['KIIT University Bhubaneshwar'], entityByAlias['KIIT University Bhubaneswar']);
+  });
+
+  it('keeps campuses that share an acronym apart', () => {
+    const { entityByAlias } = resolveCompetitorEntities(answers(
+      [['IIT Delhi', 'IIT Bombay']]
+    ), 'Northwind University');
+
+    assert.equal(entityByAlias['IIT Delhi'], 'IIT Delhi');
+    assert.equal(entityByAlias['IIT Bombay'], 'IIT Bombay');
+  });
+
+  it('names the focus entity after the focus brand, including strings matched at its rank', () => {
+    const { entityByAlias, aliasesByEntity } = resolveCompetitorEntities(answers(
+      [['NWU', 'Southgate College'], 1],
+      [['Southgate College', 'Northwind University (NWU)'], 2]
+    ), 'Northwind University');
+
+    assert.equal(entityByAlias['NWU'], 'Northwind University');
+    assert.equal(entityByAlias['Northwind University (NWU)'], 'Northwind University');
+    assert.equal(entityByAlias['Southgate College'], 'Southgate College');
+    assert.deepEqual(aliasesByEntity['Southgate College'], []);
+  });
+
+  it('ignores company suffixes under a company profile', () => {
+    const { entityByAlias } = resolveCompetitorEntities(answers(
+      [['Acme Corp', 'Acme Corporation Inc.', 'Globex']]
+    ), 'Initech', getVerticalProfile('b2b_software'));
+
+    assert.equal(entityByAlias['Acme Corp'], entityByAlias['Acme Corporation Inc.']);
+    assert.notEqual(entityByAlias['Globex'], entityByAlias['Acme Corp']);
+  });
+});
@@ -0,0 +1,156 @@
+// Competitor Resolution - Clusters brand strings from answers into canonical entities
+// "IIT Delhi", "Indian Institute of Technology Delhi" and "Indian Institute of Technology Delhi (IIT Delhi)"
+// resolve to one entity so mentions, ranks and share of voice are not split across spellings.
+// Stricter than detectBrandInAnswer: "IIT Delhi" and "IIT Bombay" stay separate entities.
+import { compareTwoStrings } from 'string-similarity';
+import type { CompetitorResolution, Query } from '@/types';
+import { getAcronym, normalizeBrandName, splitParenthetical } from './brand-matching';
+import { getVerticalProfile, type VerticalProfile } from './verticals';
+
+// Name-matching heuristics that differ by vertical (city names, company suffixes)
+type MatchingHeuristics = Pick<VerticalProfile, 'locationWords' | 'legalSuffixes'>;
+
+// Spelling variants only (e.g. "Bhubaneswar" vs "Bhubaneshwar")
+const SPELLING_SIMILARITY_THRESHOLD = 0.9;
+
+/**
+ * Is `short` an acronym form of `full`?
+ * The leading all-caps token must be the acronym of a prefix of `full`, and any words after it
+ * (campus, city) must equal the rest of `full`: "IIT Delhi" ~ "Indian Institute of Technology Delhi"
+ */
+function isAcronymOf(short: string, full: string, heuristics: MatchingHeuristics): boolean {
+  const [token, ...qualifier] = short.trim().split(/\s+/);
+  if (!/^[A-Z]{2,6}$/.test(token)) return false;
+
+  const fullWords = full.trim().split(/\s+/);
+  if (fullWords.length < 2) return false;
+
+  const shortRest = normalizeBrandName(qualifier.join(' '), heuristics.legalSuffixes);
+
+  for (let prefixLength = 2; prefixLength <= fullWords.length; prefixLength++) {
+    const prefix = fullWords.slice(0, prefixLength).join(' ');
+    if (getAcronym(prefix, heuristics.locationWords) !== token) continue;
+
+    const fullRest = normalizeBrandName(fullWords.slice(prefixLength).join(' '), heuristics.legalSuffixes);
+    if (fullRest === shortRest) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Do two brand strings name the same institution?
+ */
+function isSameEntity(a: string, b: string, heuristics: MatchingHeuristics): boolean {
+  const partsA = splitParenthetical(a);
+  const partsB = splitParenthetical(b);
+  const formsA = [partsA.main, partsA.alias].filter((f): f is string => !!f);
+  const formsB = [partsB.main, partsB.alias].filter((f): f is string => !!f);
+
+  for (const formA of formsA) {
+    for (const formB of formsB) {
+      const normA = normalizeBrandName(formA, heuristics.legalSuffixes);
+      const normB = normalizeBrandName(formB, heuristics.legalSuffixes);
+      if (!normA || !normB) continue;
+
+      if (normA === normB) return true;
+      if (isAcronymOf(formA, formB, heuristics) || isAcronymOf(formB, formA, heuristics)) return true;
+
+      // Spelling variants of long names only - short names differ by one meaningful letter
+      if (Math.min(normA.length, normB.length) >= 12 && compareTwoStrings(normA, normB) >= SPELLING_SIMILARITY_THRESHOLD) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Resolve every brand string in an analysis to a canonical entity
+ * - Strings the focus-brand validation (Prompt #3) matched are merged into the focus brand
+ * - Other strings are clustered by normalised name, parenthesised alias, acronym and spelling
+ * - An entity is named after its most-mentioned name (longest on ties); "X (Y)" counts towards X
+ * `heuristics` come from the analysis' vertical profile (education by default)
+ */
+export function resolveCompetitorEntities(
+  queries: Query[],
+  focusBrand: string,
+  heuristics: MatchingHeuristics = getVerticalProfile()
+): CompetitorResolution {
+  const mentionCounts = new Map<string, number>();
+  const focusVariants = new Set<string>();
+
+  for (const query of queries) {
+    const brands = query.brands_mentioned || [];
+    for (const brand of brands) {
+      const name = brand?.trim();
+      if (!name) continue;
+      mentionCounts.set(name, (mentionCounts.get(name) || 0) + 1);
+    }
+
+    const rank = query.focused_brand_rank ?? 0;
+    const focusMention = rank > 0 ? brands[rank - 1]?.trim() : undefined;
+    if (focusMention) focusVariants.add(focusMention);
+  }
+
+  const names = Array.from(mentionCounts.keys());
+
+  // Union-find over distinct brand strings
+  const parent = new Map(names.map(name => [name, name]));
+  const find = (name: string): string => {
+    let root = name;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(name, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  };
+
+  const focusNames = names.filter(name => focusVariants.has(name) || isSameEntity(name, focusBrand, heuristics));
+  for (const name of focusNames.slice(1)) union(focusNames[0], name);
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      if (find(names[i]) !== find(names[j]) && isSameEntity(names[i], names[j], heuristics)) {
+        union(names[i], names[j]);
+      }
+    }
+  }
+
+  // Group variants by cluster
+  const clusters = new Map<string, string[]>();
+  for (const name of names) {
+    const root = find(name);
+    clusters.set(root, [...(clusters.get(root) || []), name]);
+  }
+
+  const focusRoot = focusNames.length > 0 ? find(focusNames[0]) : null;
+  const entityByAlias: Record<string, string> = {};
+  const aliasesByEntity: Record<string, string[]> = {};
+
+  for (const [root, variants] of clusters) {
+    const nameCounts = new Map<string, number>();
+    for (const variant of variants) {
+      const { main } = splitParenthetical(variant);
+      nameCounts.set(main, (nameCounts.get(main) || 0) + (mentionCounts.get(variant) || 0));
+    }
+
+    const entity = root === focusRoot
+      ? focusBrand
+      : Array.from(nameCounts.entries())
+          .sort(([nameA, countA], [nameB, countB]) => countB - countA || nameB.length - nameA.length)[0][0];
+
+    for (const variant of variants) entityByAlias[variant] = entity;
+    aliasesByEntity[entity] = Array.from(new Set([...(aliasesByEntity[entity] || []), ...variants]))
+      .filter(variant => variant !== entity);
+  }
+
+  const merged = Object.values(aliasesByEntity).filter(aliases => aliases.length > 0).length;
+  console.log(`🔗 Resolved ${names.length} brand strings into ${Object.keys(aliasesByEntity).length} entities (${merged} with aliases)`);
+
+  return { entityByAlias, aliasesByEntity };
+}
@@ -0,0 +1,128 @@
+// Engine Cassettes - Record real answer engine responses to disk and replay them offline
+// ENGINE_CASSETTE_MODE=record  → call the real engine and save every response
+// ENGINE_CASSETTE_MODE=replay  → serve saved responses only; never touches the network
+// Cassettes are keyed by engine, prompt and input, so a replayed run is byte-for-byte repeatable.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnswerEngine } from '@/types';
+import { throwIfCancelled } from './cancellation';
+
+export type CassetteMode = 'record' | 'replay';
+
+const CASSETTE_DIR = process.env.ENGINE_CASSETTE_DIR || path.join(process.cwd(), 'cassettes');
+
+export const CASSETTE_MODE: CassetteMode | null =
+  process.env.ENGINE_CASSETTE_MODE === 'record' || process.env.ENGINE_CASSETTE_MODE === 'replay'
+    ? process.env.ENGINE_CASSETTE_MODE
+    : null;
+
+interface CassetteEntry {
+  engine: string;
+  method: string;
+  input: unknown;
+  response: unknown;
+  recorded_at: string;
+}
+
+// Thrown in replay mode when a request was never recorded
+export class CassetteMissError extends Error {
+  constructor(public cassettePath: string) {
+    super(`No recorded response at ${cassettePath} - re-run with ENGINE_CASSETTE_MODE=record`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * File holding the response for one engine call
+ */
+function getCassettePath(engineId: string, method: string, input: unknown): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(input))
+    .digest('hex')
+    .substring(0, 16);
+
+  return path.join(CASSETTE_DIR, engineId, `${method}-${hash}.json`);
+}
+
+/**
+ * Replay a recorded response, or call the engine and record it
+ */
+async function playCassette<T>(
+  mode: CassetteMode,
+  engineId: string,
+  method: string,
+  input: unknown,
+  call: () => Promise<T>
+): Promise<T> {
+  const cassettePath = getCassettePath(engineId, method, input);
+
+  if (mode === 'replay') {
+    try {
+      const entry: CassetteEntry = JSON.parse(await fs.readFile(cassettePath, 'utf-8'));
+      return entry.response as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new CassetteMissError(cassettePath);
+      }
+      throw error;
+    }
+  }
+
+  const response = await call();
+
+  const entry: CassetteEntry = {
+    engine: engineId,
+    method,
+    input,
+    response,
+    recorded_at: new Date().toISOString()
+  };
+
+  await fs.mkdir(path.dirname(cassettePath), { recursive: true });
+  await fs.writeFile(cassettePath, JSON.stringify(entry, null, 2));
+  console.log(`📼 Recorded ${engineId}.${method} → ${path.relative(process.cwd(), cassettePath)}`);
+
+  return response;
+}
+
+/**
+ * Wrap an engine so its Prompt #1/#2/#3 calls go through cassettes
+ * AbortSignals are not part of the key; cancellation still applies in replay mode
+ */
+export function withCassette(engine: AnswerEngine, mode: CassetteMode): AnswerEngine {
+  return {
+    ...engine,
+    generateTopics: (institutionName, options) => {
+      // Education (the original profile) keeps the original key
+      const input = options && options.vertical !== 'education'
+        ? { institutionName, vertical: options.vertical, verticalDescription: options.verticalDescription }
+        : { institutionName };
+      return playCassette(mode, engine.id, 'generateTopics', input, () =>
+        engine.generateTopics(institutionName, options)
+      );
+    },
+    answerQuery: (queryText, options) => {
+      throwIfCancelled(options.signal);
+      // Repeat samples and other verticals are recorded separately; the first education ask keeps the original key
+      const input = {
+        queryText,
+        location: options.location,
+        ...(options.sample ? { sample: options.sample } : {}),
+        ...(options.vertical && options.vertical !== 'education' ? { vertical: options.vertical } : {})
+      };
+      return playCassette(mode, engine.id, 'answerQuery', input, () =>
+        engine.answerQuery(queryText, options)
+      );
+    },
+    validateBrand: (brandsMentioned, focusBrand, options) => {
+      throwIfCancelled(options?.signal);
+      const input = options?.vertical && options.vertical !== 'education'
+        ? { brandsMentioned, focusBrand, vertical: options.vertical }
+        : { brandsMentioned, focusBrand };
+      return playCassette(mode, engine.id, 'validateBrand', input, () =>
+        engine.validateBrand(brandsMentioned, focusBrand, options)
+      );
+    }
+  };
+}
@@ -0,0 +1,105 @@
+// Job Queue - Durable, lease-based queue for analysis processing
+import { getRepository } from './repository';
+import { recordProgressEvent } from './progress-events';
+import type { AnalysisJob } from '@/types';
+
+// Configuration
+export const JOB_CONFIG = {
+  LEASE_MS: 120000, // 2 minutes - a job whose lease lapses is treated as orphaned
+  MAX_ATTEMPTS: 3,
+  RETRY_BACKOFF_MS: 30000 // Base delay before a failed job becomes claimable again
+};
+
+/**
+ * Find the pending/running job for an analysis, if any
+ */
+export async function findActiveJob(analysisId: string): Promise<AnalysisJob | null> {
+  return getRepository().findActiveJob(analysisId);
+}
+
+/**
+ * Enqueue an analysis for processing
+ * Returns the existing job if one is already pending/running for this analysis
+ */
+export async function enqueueAnalysisJob(analysisId: string): Promise<AnalysisJob> {
+  const existing = await findActiveJob(analysisId);
+  if (existing) {
+    console.log(`📬 Analysis ${analysisId} already queued (job ${existing.id}, ${existing.status})`);
+    return existing;
+  }
+
+  const job = await getRepository().createJob({
+    analysis_id: analysisId,
+    kind: 'process_analysis',
+    status: 'pending',
+    max_attempts: JOB_CONFIG.MAX_ATTEMPTS
+  });
+
+  console.log(`📬 Enqueued job ${job.id} for analysis ${analysisId}`);
+  await recordProgressEvent(analysisId, 'queued', { job_id: job.id });
+  return job;
+}
+
+/**
+ * Cancel jobs for an analysis that no worker has claimed yet
+ * Running jobs stop on their own once the worker sees the analysis is cancelled
+ */
+export async function cancelPendingJobs(analysisId: string): Promise<void> {
+  await getRepository().cancelPendingJobs(analysisId);
+}
+
+/**
+ * Atomically claim the next runnable job (pending, or running with an expired lease)
+ * Returns null when the queue is empty
+ */
+export async function claimNextJob(workerId: string): Promise<AnalysisJob | null> {
+  return getRepository().claimJob(workerId, JOB_CONFIG.LEASE_MS);
+}
+
+/**
+ * Renew the lease on a running job
+ * Returns false if the lease was lost (job reclaimed by another worker or finished)
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const now = new Date();
+
+  return getRepository().updateOwnedJob(jobId, workerId, {
+    heartbeat_at: now.toISOString(),
+    lease_expires_at: new Date(now.getTime() + JOB_CONFIG.LEASE_MS).toISOString(),
+    updated_at: now.toISOString()
+  }, 'running');
+}
+
+/**
+ * Mark a job as completed and release its lease
+ */
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  const now = new Date().toISOString();
+
+  await getRepository().updateOwnedJob(jobId, workerId, {
+    status: 'completed',
+    lease_expires_at: null,
+    completed_at: now,
+    updated_at: now
+  });
+}
+
+/**
+ * Record a failed attempt
+ * Reschedules the job with backoff while attempts remain, otherwise marks it failed
+ * Returns true if the job will be retried
+ */
+export async function failJob(job: AnalysisJob, workerId: string, errorMessage: string): Promise<boolean> {
+  const willRetry = job.attempts < job.max_attempts;
+  const now = new Date();
+
+  await getRepository().updateOwnedJob(job.id, workerId, {
+    status: willRetry ? 'pending' : 'failed',
+    locked_by: null,
+    lease_expires_at: null,
+    last_error: errorMessage,
+    run_after: new Date(now.getTime() + JOB_CONFIG.RETRY_BACKOFF_MS * job.attempts).toISOString(),
+    updated_at: now.toISOString()
+  });
+  return willRetry;
+}
@@ -0,0 +1,199 @@
+// Shared LLM HTTP + JSON helpers used by every answer engine
+// Retries and JSON fallbacks are also recorded to the pipeline trace of the query being answered
+import { abortableSleep, throwIfCancelled } from './cancellation';
+import { recordTraceEvent } from './pipeline-trace';
+import type { HttpAttemptOutcome } from '@/types';
+
+export interface FetchRetryOptions {
+  maxRetries?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal; // Cancellation - aborts the in-flight request and any pending backoff
+  label?: string; // Provider name used in log lines
+}
+
+/**
+ * Sanitize JSON string by fixing common LLM output issues
+ * Handles unescaped control characters and malformed strings
+ */
+function sanitizeJSONString(jsonString: string): string {
+  // Fix unescaped control characters inside string values
+  // This regex finds strings and escapes control characters within them
+  return jsonString.replace(
+    /"([^"\\]*(\\.[^"\\]*)*)"/g,
+    (match, content) => {
+      // Don't process if already properly escaped
+      if (!content || typeof content !== 'string') return match;
+
+      // Escape control characters
+      const fixed = content
+        .replace(/\n/g, '\\n')     // Newlines
+        .replace(/\r/g, '\\r')     // Carriage returns
+        .replace(/\t/g, '\\t')     // Tabs
+        .replace(/\f/g, '\\f')     // Form feeds
+        .replace(/\b/g, '\\b');    // Backspaces
+
+      return `"${fixed}"`;
+    }
+  );
+}
+
+/**
+ * Extract and parse JSON from API response
+ * Handles markdown code blocks and malformed responses
+ * Shared by all answer engines; `T` is the shape the caller expects (not validated here)
+ */
+export function extractAndParseJSON<T = unknown>(content: string, context: string): T {
+  // Parsing is synchronous, so trace events are recorded without waiting for them
+  const recordFallback = (length: number, outcome: 'sanitized' | 'failed', error?: string, excerpt?: string) => {
+    void recordTraceEvent('json_fallback', { context, length, outcome, ...(error !== undefined && { error, excerpt }) });
+  };
+
+  if (!content || content.trim().length === 0) {
+    recordFallback(0, 'failed', 'Response content is empty', '');
+    throw new Error(`${context}: Response content is empty`);
+  }
+
+  console.log(`📄 ${context} - Raw response length: ${content.length} chars`);
+
+  let jsonString = content.trim();
+
+  // Step 1: Remove markdown code blocks if present
+  // Matches: ```json\n{...}\n``` or ```\n{...}\n```
+  const markdownMatch = jsonString.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (markdownMatch) {
+    jsonString = markdownMatch[1].trim();
+    console.log(`✂️  ${context} - Removed markdown code blocks`);
+  }
+
+  // Step 2: Extract JSON object {...}
+  const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    jsonString = jsonMatch[0];
+  }
+
+  // Step 3: Validate we have something to parse
+  if (!jsonString || jsonString.length === 0) {
+    console.error(`❌ ${context} - No JSON found in response`);
+    console.error(`First 500 chars of response: ${content.substring(0, 500)}`);
+    recordFallback(content.length, 'failed', 'No valid JSON found in response', content.substring(0, 500));
+    throw new Error(`${context}: No valid JSON found in response`);
+  }
+
+  // Step 4: Attempt to parse with sanitization
+  try {
+    const parsed: unknown = JSON.parse(jsonString);
+    console.log(`✅ ${context} - Successfully parsed JSON`);
+    return parsed as T;
+  } catch {
+    // First parse failed - try with sanitization
+    console.log(`⚠️  ${context} - Initial parse failed, attempting sanitization...`);
+
+    try {
+      const sanitized = sanitizeJSONString(jsonString);
+      const parsed: unknown = JSON.parse(sanitized);
+      console.log(`✅ ${context} - Successfully parsed after sanitization`);
+      recordFallback(jsonString.length, 'sanitized');
+      return parsed as T;
+    } catch (secondError) {
+      console.error(`❌ ${context} - JSON parse failed even after sanitization`);
+      console.error(`Attempted to parse: ${jsonString.substring(0, 500)}...`);
+      recordFallback(jsonString.length, 'failed', String(secondError), jsonString.substring(0, 500));
+      throw new Error(`${context}: Failed to parse JSON - ${secondError}`);
+    }
+  }
+}
+
+/**
+ * Fetch with retry logic and timeout
+ * Retries rate limits (429), server errors (5xx) and network errors with exponential backoff
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  {
+    maxRetries = 3,
+    timeoutMs = 300000, // 5 minutes default timeout
+    signal,
+    label = 'LLM'
+  }: FetchRetryOptions = {}
+): Promise<Response> {
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    throwIfCancelled(signal);
+
+    const startedAt = Date.now();
+    // Recorded without waiting - a trace write never delays the request or its retry
+    const recordAttempt = (status: number | null, outcome: HttpAttemptOutcome, retryInMs: number | null, error?: string) =>
+      void recordTraceEvent('http_attempt', {
+        provider: label,
+        attempt: attempt + 1,
+        max_retries: maxRetries,
+        status,
+        outcome,
+        latency_ms: Date.now() - startedAt,
+        retry_in_ms: retryInMs,
+        ...(error !== undefined && { error })
+      });
+
+    try {
+      // Create abort controller for timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      const response = await fetch(url, {
+        ...options,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      // Handle rate limiting (429) with exponential backoff
+      if (response.status === 429) {
+        const retryAfter = parseInt(response.headers.get('Retry-After') || '10');
+        const waitTime = Math.max(retryAfter * 1000, 5000 * Math.pow(2, attempt)); // At least 5s exponential backoff
+        console.log(`⚠️  ${label} rate limited (429) - waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
+        recordAttempt(429, 'rate_limited', waitTime);
+        await abortableSleep(waitTime, signal);
+        continue;
+      }
+
+      // Handle server errors (500, 502, 503, 504) with retry
+      if (response.status >= 500 && response.status < 600) {
+        if (attempt < maxRetries - 1) {
+          const waitTime = 3000 * Math.pow(2, attempt); // Exponential backoff starting at 3s
+          console.log(`⚠️  ${label} server error (${response.status}) - waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
+          recordAttempt(response.status, 'server_error', waitTime);
+          await abortableSleep(waitTime, signal);
+          continue;
+        }
+      }
+
+      // Return response for all other status codes (including 4xx errors)
+      const outcome: HttpAttemptOutcome = response.ok ? 'ok' : response.status >= 500 ? 'server_error' : 'client_error';
+      recordAttempt(response.status, outcome, null);
+      return response;
+    } catch (error) {
+      // Cancellation is final - never retry
+      throwIfCancelled(signal);
+
+      const isLastAttempt = attempt === maxRetries - 1;
+      const err = error as Error;
+
+      if (err.name === 'AbortError') {
+        console.error(`⏱️  ${label} request timeout after ${timeoutMs}ms (attempt ${attempt + 1}/${maxRetries})`);
+      } else {
+        console.error(`❌ ${label} fetch error (attempt ${attempt + 1}/${maxRetries}):`, err.message);
+      }
+
+      // Exponential backoff for network errors
+      const waitTime = 2000 * Math.pow(2, attempt); // 2s, 4s, 8s...
+      recordAttempt(null, err.name === 'AbortError' ? 'timeout' : 'network_error', isLastAttempt ? null : waitTime, err.message);
+
+      if (isLastAttempt) throw error;
+
+      console.log(`⏳ Retrying after ${waitTime}ms...`);
+      await abortableSleep(waitTime, signal);
+    }
+  }
+
+  throw new Error(`${label}: Max retries exceeded`);
+}
@@ -0,0 +1,94 @@
+// Memory Repository Tests - Job claiming and lease expiry (same rules as claim_analysis_job)
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMemoryRepository } from './memory-repository';
+
+/**
+ * A fresh store with one analysis and its pending job
+ */
+async function setup(maxAttempts = 3) {
+  const repository = createMemoryRepository();
+  const analysis = await repository.createAnalysis({ institution_name: 'Northwind University' });
+  const job = await repository.createJob({
+    analysis_id: analysis.id,
+    kind: 'process_analysis',
+    status: 'pending',
+    max_attempts: maxAttempts
+  });
+  return { repository, analysis, job };
+}
+
+describe('memory repository claimJob', () => {
+  it('claims a pending job once and leases it to the worker', async () => {
+    const { repository, job } = await setup();
+
+    const claimed = await repository.claimJob('worker-a', 60_000);
+    assert.equal(claimed?.id, job.id);
+    assert.equal(claimed?.status, 'running');
+    assert.equal(claimed?.locked_by, 'worker-a');
+    assert.equal(claimed?.attempts, 1);
+    assert.ok(new Date(claimed!.lease_expires_at!).getTime() > Date.now());
+
+    assert.equal(await repository.claimJob('worker-b', 60_000), null, 'a leased job is not claimed twice');
+  });
+
+  it('skips jobs that are not due yet', async () => {
+    const { repository } = await setup();
+    const future = new Date(Date.now() + 60_000).toISOString();
+
+    // updateOwnedJob only touches jobs the worker holds - claim, then hand the job back for later
+    const claimed = await repository.claimJob('worker-a', 60_000);
+    assert.ok(claimed);
+    await repository.updateOwnedJob(claimed.id, 'worker-a', {
+      status: 'pending',
+      locked_by: null,
+      lease_expires_at: null,
+      run_after: future
+    });
+
+    assert.equal(await repository.claimJob('worker-b', 60_000), null);
+  });
+
+  it('lets another worker take over a job whose lease expired', async () => {
+    const { repository, job } = await setup();
+
+    await repository.claimJob('worker-a', -1);
+    const reclaimed = await repository.claimJob('worker-b', 60_000);
+
+    assert.equal(reclaimed?.id, job.id);
+    assert.equal(reclaimed?.locked_by, 'worker-b');
+    assert.equal(reclaimed?.attempts, 2);
+    assert.equal(
+      await repository.updateOwnedJob(job.id, 'worker-a', { status: 'completed' }),
+      false,
+      'the worker that lost the lease can no longer update the job'
+    );
+  });
+
+  it('fails the job and its analysis when the lease expires on the final attempt', async () => {
+    const { repository, analysis, job } = await setup(1);
+
+    await repository.claimJob('worker-a', -1);
+    assert.equal(await repository.claimJob('worker-b', 60_000), null);
+
+    const failed = await repository.findActiveJob(analysis.id);
+    assert.equal(failed, null, 'the exhausted job is no longer active');
+    assert.equal((await repository.getAnalysis(analysis.id))?.status, 'failed');
+    assert.deepEqual(
+      (await repository.listProgressEvents(analysis.id)).map(e => [e.type, e.data]),
+      [['failed', { error: 'Lease expired on the final attempt', will_retry: false }]],
+      'progress streams see the failure'
+    );
+    assert.equal(await repository.updateOwnedJob(job.id, 'worker-a', { status: 'completed' }), false);
+  });
+
+  it('leaves a cancelled analysis cancelled when its exhausted job fails', async () => {
+    const { repository, analysis } = await setup(1);
+
+    await repository.claimJob('worker-a', -1);
+    await repository.updateAnalysis(analysis.id, { status: 'cancelled' });
+    await repository.claimJob('worker-b', 60_000);
+
+    assert.equal((await repository.getAnalysis(analysis.id))?.status, 'cancelled');
+  });
+});
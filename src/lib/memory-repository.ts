@@ -0,0 +1,447 @@
+// In-Memory Repository - Storage backend for self-hosting, offline runs and integration tests
+// Mirrors the Supabase tables and their ordering/uniqueness rules. Data lives for the
+// lifetime of the Node process, so pair it with the in-process worker (instrumentation.ts).
+import { randomUUID } from 'crypto';
+import type {
+  Analysis,
+  AnalysisJob,
+  Competitor,
+  NewProgressEvent,
+  NewQueryAnswer,
+  Patch,
+  ProgressEvent,
+  Query,
+  QueryAnswer,
+  Repository,
+  Source,
+  Topic,
+  TraceEvent,
+  TrackedInstitution
+} from '@/types';
+
+interface MemoryTables {
+  analyses: Map<string, Analysis>;
+  topics: Map<string, Topic>;
+  queries: Map<string, Query>;
+  query_answers: Map<string, QueryAnswer>; // Keyed by `${query_id}:${engine}:${sample_index}`
+  competitors: Map<string, Competitor>;
+  sources: Map<string, Source>;
+  analysis_jobs: Map<string, AnalysisJob>;
+  tracked_institutions: Map<string, TrackedInstitution>;
+  analysis_events: ProgressEvent[]; // Append-only, in sequence order
+  trace_events: TraceEvent[]; // Append-only, oldest first
+}
+
+function createTables(): MemoryTables {
+  return {
+    analyses: new Map(),
+    topics: new Map(),
+    queries: new Map(),
+    query_answers: new Map(),
+    competitors: new Map(),
+    sources: new Map(),
+    analysis_jobs: new Map(),
+    tracked_institutions: new Map(),
+    analysis_events: [],
+    trace_events: []
+  };
+}
+
+/**
+ * Apply a patch; null clears a column, matching how Supabase rows read back
+ */
+function applyPatch<T extends object>(row: T, patch: Patch<T>): T {
+  const updated = { ...row } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete updated[key];
+    } else if (value !== undefined) {
+      updated[key] = value;
+    }
+  }
+  return updated as T;
+}
+
+/**
+ * Drop null values from an insert so optional columns are simply absent
+ */
+function withoutNulls<T extends object>(row: T): T {
+  return applyPatch({} as T, row as Patch<T>);
+}
+
+/**
+ * Create a repository over its own set of tables
+ * Each call returns an isolated store - useful for integration tests
+ */
+export function createMemoryRepository(): Repository {
+  const tables = createTables();
+
+  // Insertion order doubles as created_at order for rows created in the same millisecond
+  const now = () => new Date().toISOString();
+  const rowsOf = <T>(table: Map<string, T>) => Array.from(table.values());
+  const appendEvent = (event: NewProgressEvent) => {
+    const row = {
+      ...event,
+      id: randomUUID(),
+      sequence: tables.analysis_events.length + 1,
+      created_at: now()
+    } as ProgressEvent;
+    tables.analysis_events.push(row);
+    return { ...row };
+  };
+
+  return {
+    // Analyses
+    async createAnalysis(analysis) {
+      const row: Analysis = {
+        status: 'pending',
+        progress: 0,
+        total_queries: 0,
+        queries_mentioned: 0,
+        institution_type: null,
+        ...withoutNulls(analysis),
+        id: randomUUID(),
+        created_at: now(),
+        updated_at: now()
+      } as Analysis;
+      tables.analyses.set(row.id, row);
+      return { ...row };
+    },
+
+    async getAnalysis(id) {
+      const row = tables.analyses.get(id);
+      return row ? { ...row } : null;
+    },
+
+    async updateAnalysis(id, patch, unlessStatus) {
+      const row = tables.analyses.get(id);
+      if (!row || (unlessStatus && row.status === unlessStatus)) return false;
+
+      tables.analyses.set(id, applyPatch(row, patch));
+      return true;
+    },
+
+    async updateAnalysisIfStatus(id, statuses, patch) {
+      const row = tables.analyses.get(id);
+      if (!row || !statuses.includes(row.status)) return false;
+
+      tables.analyses.set(id, applyPatch(row, patch));
+      return true;
+    },
+
+    // Topics
+    async createTopic(topic) {
+      const row: Topic = {
+        total_citations: 0,
+        queries_with_mention: 0,
+        ...topic,
+        id: randomUUID(),
+        created_at: now()
+      };
+      tables.topics.set(row.id, row);
+      return { ...row };
+    },
+
+    async listTopics(analysisId) {
+      return rowsOf(tables.topics)
+        .filter(t => t.analysis_id === analysisId)
+        .sort((a, b) => a.topic_order - b.topic_order)
+        .map(t => ({ ...t }));
+    },
+
+    async updateTopic(id, patch) {
+      const row = tables.topics.get(id);
+      if (row) tables.topics.set(id, applyPatch(row, patch));
+    },
+
+    async deleteTopics(analysisId, topicIds) {
+      const matches = (row: { analysis_id: string; topic_id: string }) =>
+        row.analysis_id === analysisId && (!topicIds || topicIds.includes(row.topic_id));
+
+      // Cascade like the Supabase foreign keys
+      for (const [key, answer] of tables.query_answers) {
+        if (matches(answer)) tables.query_answers.delete(key);
+      }
+      for (const [id, query] of tables.queries) {
+        if (matches(query)) tables.queries.delete(id);
+      }
+      for (const [id, topic] of tables.topics) {
+        if (matches({ analysis_id: topic.analysis_id, topic_id: id })) tables.topics.delete(id);
+      }
+    },
+
+    // Queries
+    async createQueries(queries) {
+      return queries.map(query => {
+        const row = {
+          ...withoutNulls(query),
+          id: randomUUID(),
+          created_at: now()
+        } as Query;
+        tables.queries.set(row.id, row);
+        return { ...row };
+      });
+    },
+
+    async getQuery(id) {
+      const row = tables.queries.get(id);
+      return row ? { ...row } : null;
+    },
+
+    async listQueries(analysisId, statuses) {
+      return rowsOf(tables.queries)
+        .filter(q => q.analysis_id === analysisId && (!statuses || statuses.includes(q.status)))
+        .map(q => ({ ...q }));
+    },
+
+    async updateQueries(ids, patch, unlessStatus) {
+      let updated = 0;
+      for (const id of ids) {
+        const row = tables.queries.get(id);
+        if (!row || (unlessStatus && row.status === unlessStatus)) continue;
+
+        tables.queries.set(id, applyPatch(row, patch));
+        updated++;
+      }
+      return updated;
+    },
+
+    async updateQueriesByStatus(analysisId, statuses, patch) {
+      const updated: Query[] = [];
+      for (const row of rowsOf(tables.queries)) {
+        if (row.analysis_id === analysisId && statuses.includes(row.status)) {
+          const next = applyPatch(row, patch);
+          tables.queries.set(row.id, next);
+          updated.push({ ...next });
+        }
+      }
+      return updated;
+    },
+
+    // Query answers
+    async listQueryAnswers(analysisId) {
+      return rowsOf(tables.query_answers)
+        .filter(a => a.analysis_id === analysisId)
+        .map(a => ({ ...a }));
+    },
+
+    async listQueryAnswersForQueries(queryIds) {
+      return rowsOf(tables.query_answers)
+        .filter(a => queryIds.includes(a.query_id))
+        .map(a => ({ ...a }));
+    },
+
+    async upsertQueryAnswer(answer: NewQueryAnswer) {
+      const key = `${answer.query_id}:${answer.engine}:${answer.sample_index}`;
+      const existing = tables.query_answers.get(key);
+      // Like an upsert: omitted columns keep their stored values, null clears them
+      tables.query_answers.set(key, {
+        ...applyPatch(existing ?? ({} as QueryAnswer), answer),
+        id: existing?.id ?? randomUUID(),
+        created_at: existing?.created_at ?? now()
+      });
+    },
+
+    // Competitors and sources
+    async listCompetitors(analysisId) {
+      return rowsOf(tables.competitors)
+        .filter(c => c.analysis_id === analysisId)
+        .sort((a, b) => b.mention_count - a.mention_count)
+        .map(c => ({ ...c }));
+    },
+
+    async replaceCompetitors(analysisId, competitors) {
+      for (const row of rowsOf(tables.competitors)) {
+        if (row.analysis_id === analysisId) tables.competitors.delete(row.id);
+      }
+      // Unique on (analysis_id, brand_name): later rows win, as with upsert
+      const byBrand = new Map(competitors.map(c => [c.brand_name, c]));
+      for (const competitor of byBrand.values()) {
+        const row: Competitor = { ...competitor, id: randomUUID(), created_at: now() };
+        tables.competitors.set(row.id, row);
+      }
+    },
+
+    async listSources(analysisId) {
+      return rowsOf(tables.sources)
+        .filter(s => s.analysis_id === analysisId)
+        .sort((a, b) => b.citation_count - a.citation_count)
+        .map(s => ({ ...s }));
+    },
+
+    async replaceSources(analysisId, sources) {
+      for (const row of rowsOf(tables.sources)) {
+        if (row.analysis_id === analysisId) tables.sources.delete(row.id);
+      }
+      // Unique on (analysis_id, url)
+      const byUrl = new Map(sources.map(s => [s.url, s]));
+      for (const source of byUrl.values()) {
+        const row: Source = { ...source, id: randomUUID(), created_at: now() };
+        tables.sources.set(row.id, row);
+      }
+    },
+
+    // Jobs
+    async findActiveJob(analysisId) {
+      const job = rowsOf(tables.analysis_jobs).find(
+        j => j.analysis_id === analysisId && (j.status === 'pending' || j.status === 'running')
+      );
+      return job ? { ...job } : null;
+    },
+
+    async createJob(job) {
+      const row: AnalysisJob = {
+        ...job,
+        id: randomUUID(),
+        attempts: 0,
+        run_after: now(),
+        created_at: now(),
+        updated_at: now()
+      };
+      tables.analysis_jobs.set(row.id, row);
+      return { ...row };
+    },
+
+    async cancelPendingJobs(analysisId) {
+      for (const job of rowsOf(tables.analysis_jobs)) {
+        if (job.analysis_id === analysisId && job.status === 'pending') {
+          tables.analysis_jobs.set(job.id, { ...job, status: 'cancelled', updated_at: now() });
+        }
+      }
+    },
+
+    // Same rules as claim_analysis_job(); single-threaded, so no locking needed
+    async claimJob(workerId, leaseMs) {
+      const current = Date.now();
+      const isExpired = (job: AnalysisJob) =>
+        job.status === 'running' && !!job.lease_expires_at && new Date(job.lease_expires_at).getTime() < current;
+
+      // A job whose worker died on its last attempt is not retried (as in claim_analysis_job);
+      // the failure is recorded so progress streams following the analysis end
+      for (const job of rowsOf(tables.analysis_jobs).filter(j => isExpired(j) && j.attempts >= j.max_attempts)) {
+        tables.analysis_jobs.set(job.id, applyPatch(job, {
+          status: 'failed',
+          locked_by: null,
+          lease_expires_at: null,
+          last_error: 'Lease expired on the final attempt',
+          updated_at: new Date(current).toISOString()
+        }));
+
+        const analysis = tables.analyses.get(job.analysis_id);
+        if (analysis && analysis.status !== 'cancelled') {
+          tables.analyses.set(analysis.id, { ...analysis, status: 'failed', updated_at: new Date(current).toISOString() });
+          appendEvent({
+            analysis_id: analysis.id,
+            type: 'failed',
+            data: { error: 'Lease expired on the final attempt', will_retry: false }
+          });
+        }
+      }
+
+      const claimable = rowsOf(tables.analysis_jobs).find(job =>
+        (job.status === 'pending' && new Date(job.run_after).getTime() <= current) || isExpired(job)
+      );
+
+      if (!claimable) return null;
+
+      const claimed: AnalysisJob = {
+        ...claimable,
+        status: 'running',
+        locked_by: workerId,
+        lease_expires_at: new Date(current + leaseMs).toISOString(),
+        heartbeat_at: new Date(current).toISOString(),
+        attempts: claimable.attempts + 1,
+        updated_at: new Date(current).toISOString()
+      };
+      tables.analysis_jobs.set(claimed.id, claimed);
+      return { ...claimed };
+    },
+
+    async updateOwnedJob(jobId, workerId, patch, requiredStatus) {
+      const job = tables.analysis_jobs.get(jobId);
+      if (!job || job.locked_by !== workerId) return false;
+      if (requiredStatus && job.status !== requiredStatus) return false;
+
+      tables.analysis_jobs.set(jobId, applyPatch(job, patch));
+      return true;
+    },
+
+    // Tracked institutions
+    async createTrackedInstitution(tracked) {
+      const row = {
+        active: true,
+        ...withoutNulls(tracked),
+        id: randomUUID(),
+        created_at: now(),
+        updated_at: now()
+      } as TrackedInstitution;
+      tables.tracked_institutions.set(row.id, row);
+      return { ...row };
+    },
+
+    async getTrackedInstitution(id) {
+      const row = tables.tracked_institutions.get(id);
+      return row ? { ...row } : null;
+    },
+
+    async listTrackedInstitutions() {
+      return rowsOf(tables.tracked_institutions)
+        .reverse()
+        .map(t => ({ ...t }));
+    },
+
+    async listDueTrackedInstitutions(currentTime) {
+      return rowsOf(tables.tracked_institutions)
+        .filter(t => t.active && new Date(t.next_run_at).getTime() <= new Date(currentTime).getTime())
+        .map(t => ({ ...t }));
+    },
+
+    async updateTrackedInstitution(id, patch, expectedNextRunAt) {
+      const row = tables.tracked_institutions.get(id);
+      if (!row) return false;
+      if (expectedNextRunAt !== undefined && row.next_run_at !== expectedNextRunAt) return false;
+
+      tables.tracked_institutions.set(id, applyPatch(row, patch));
+      return true;
+    },
+
+    async listTrackedRuns(trackedInstitutionId) {
+      return rowsOf(tables.analyses)
+        .filter(a => a.tracked_institution_id === trackedInstitutionId)
+        .map(a => ({ ...a }));
+    },
+
+    // Progress events
+    async appendProgressEvent(event) {
+      return appendEvent(event);
+    },
+
+    async listProgressEvents(analysisId, afterSequence = 0) {
+      return tables.analysis_events
+        .filter(e => e.analysis_id === analysisId && e.sequence > afterSequence)
+        .map(e => ({ ...e }));
+    },
+
+    async appendTraceEvent(event) {
+      const row = { ...event, id: randomUUID(), created_at: event.created_at ?? now() } as TraceEvent;
+      tables.trace_events.push(row);
+      return { ...row };
+    },
+
+    async listTraceEvents(analysisId, queryId) {
+      return tables.trace_events
+        .filter(e => e.analysis_id === analysisId && (!queryId || e.query_id === queryId))
+        .map(e => ({ ...e }));
+    }
+  };
+}
+
+// Shared store for the app - kept on globalThis so every route bundle sees the same data
+const globalStore = globalThis as typeof globalThis & { __memoryRepository?: Repository };
+
+export function getMemoryRepository(): Repository {
+  if (!globalStore.__memoryRepository) {
+    globalStore.__memoryRepository = createMemoryRepository();
+  }
+  return globalStore.__memoryRepository;
+}
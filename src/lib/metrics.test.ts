@@ -0,0 +1,125 @@
+// Metrics Tests - calculateAllMetrics over several samples and engines, on the in-memory repository
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { EngineId } from '@/types';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+const FOCUS = 'Northwind University';
+
+// Focus-brand rank per engine and sample (0 = not mentioned, null = the sample failed)
+type SampleRanks = Partial<Record<EngineId, Array<number | null>>>;
+
+/**
+ * Store an analysis with the given answers and run the metrics over it
+ */
+async function runMetrics(topics: Record<string, SampleRanks[]>) {
+  const { getRepository } = await import('./repository');
+  const { calculateAllMetrics } = await import('./metrics');
+
+  const repository = getRepository();
+  const analysis = await repository.createAnalysis({
+    institution_name: FOCUS,
+    engines: ['openai', 'perplexity'],
+    samples_per_query: 2,
+    status: 'processing'
+  });
+
+  for (const [topicIndex, [topicName, queryRanks]] of Object.entries(topics).entries()) {
+    const topic = await repository.createTopic({
+      analysis_id: analysis.id,
+      topic_name: topicName,
+      topic_order: topicIndex,
+      total_queries: queryRanks.length
+    });
+
+    const queries = await repository.createQueries(queryRanks.map((_, queryIndex) => ({
+      analysis_id: analysis.id,
+      topic_id: topic.id,
+      query_text: `${topicName} query ${queryIndex + 1}`,
+      query_order: queryIndex,
+      status: 'completed',
+      focused_brand: FOCUS
+    })));
+
+    for (const [queryIndex, ranksByEngine] of queryRanks.entries()) {
+      const query = queries[queryIndex];
+      await repository.updateQueries([query.id], {
+        focused_brand_rank: ranksByEngine.openai?.[0] ?? 0,
+        brands_mentioned: [FOCUS, 'Southgate College']
+      });
+
+      for (const [engine, ranks] of Object.entries(ranksByEngine) as Array<[EngineId, Array<number | null>]>) {
+        for (const [sampleIndex, rank] of ranks.entries()) {
+          await repository.upsertQueryAnswer({
+            query_id: query.id,
+            analysis_id: analysis.id,
+            topic_id: topic.id,
+            engine,
+            sample_index: sampleIndex,
+            status: rank === null ? 'failed' : 'completed',
+            focused_brand_rank: rank ?? 0
+          });
+        }
+      }
+    }
+  }
+
+  assert.equal(await calculateAllMetrics(analysis.id), true);
+
+  return {
+    analysis: (await repository.getAnalysis(analysis.id))!,
+    topics: await repository.listTopics(analysis.id),
+    queries: await repository.listQueries(analysis.id)
+  };
+}
+
+describe('calculateAllMetrics', () => {
+  it('scores every primary-engine sample, leaves failed samples out and splits figures by engine', async () => {
+    const { analysis, topics, queries } = await runMetrics({
+      Admissions: [
+        { openai: [1, 0], perplexity: [3, 3] },
+        { openai: [2, 2], perplexity: [0, 0] }
+      ],
+      Placements: [
+        { openai: [0, null], perplexity: [1, 1] }
+      ]
+    });
+
+    // Per-query mention rates 50%, 100% and 0% (the failed sample does not count as a miss)
+    assert.equal(analysis.status, 'completed');
+    assert.equal(analysis.overall_visibility_score, 50);
+    assert.equal(analysis.queries_mentioned, 2);
+    assert.equal(analysis.average_rank, 5 / 3);
+    assert.equal(analysis.weighted_visibility_score, (50 + 50 + 0) / 3);
+    assert.ok(analysis.visibility_ci_lower! < 50 && analysis.visibility_ci_upper! > 50);
+
+    assert.deepEqual(
+      analysis.engine_metrics?.map(m => [m.engine, m.total_answers, m.answers_mentioned]),
+      [['openai', 5, 3], ['perplexity', 6, 4]]
+    );
+
+    const [admissions, placements] = topics;
+    assert.equal(admissions.visibility_percentage, 75);
+    assert.equal(admissions.queries_with_mention, 2);
+    assert.equal(placements.visibility_percentage, 0);
+    assert.equal(placements.queries_with_mention, 0);
+
+    const [first] = queries;
+    assert.equal(first.mention_probability, 0.5);
+    assert.equal(first.rank_mean, 1);
+  });
+
+  it('keeps completed_at when a completed analysis is recomputed', async () => {
+    const { analysis } = await runMetrics({
+      Admissions: [{ openai: [1, 1], perplexity: [1, 1] }]
+    });
+
+    const { getRepository } = await import('./repository');
+    const { calculateAllMetrics } = await import('./metrics');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await calculateAllMetrics(analysis.id);
+
+    assert.equal((await getRepository().getAnalysis(analysis.id))?.completed_at, analysis.completed_at);
+  });
+});
@@ -1,14 +1,31 @@
 // Metrics Calculation Logic
 // All formulas from 04-METRICS-CALCULATION-LOGIC.md
 
-import type { Query, Competitor, Source } from '@/types';
-import { supabaseAdmin } from './supabase';
+import type { Query, Competitor, Source, EngineId, EngineMetrics, SampleStats, ConfidenceInterval, RankWeightTier } from '@/types';
+import { getRepository } from './repository';
+import { resolveAnalysisEngines } from './answer-engine';
+import { resolveCompetitorEntities } from './competitor-resolution';
+import { getVerticalProfile } from './verticals';
+
+// Anything carrying a focus-brand rank: a query row or one engine's answer to it
+type RankedAnswer = Pick<Query, 'focused_brand_rank'>;
+
+// z-score for 95% confidence intervals
+const CONFIDENCE_Z = 1.96;
+
+// Weighted ranking system: Rank 1=100%, 2-3=50%, 4-5=25%, 6+=10%
+export const DEFAULT_RANK_WEIGHTS: RankWeightTier[] = [
+  { max_rank: 1, weight: 100 },
+  { max_rank: 3, weight: 50 },
+  { max_rank: 5, weight: 25 },
+  { max_rank: null, weight: 10 }
+];
 
 /**
  * 1. Calculate Overall Visibility Score
  * Formula: (queries_with_mention / total_queries) × 100
  */
-export function calculateOverallVisibility(queries: Query[]): number {
+export function calculateOverallVisibility(queries: RankedAnswer[]): number {
   if (queries.length === 0) return 0;
   const queriesWithMention = queries.filter(q => (q.focused_brand_rank ?? 0) > 0).length;
   return (queriesWithMention / queries.length) * 100;
@@ -18,7 +35,7 @@ export function calculateOverallVisibility(queries: Query[]): number {
  * 2. Calculate Average Rank
  * Formula: AVG(focused_brand_rank) WHERE rank > 0
  */
-export function calculateAverageRank(queries: Query[]): number {
+export function calculateAverageRank(queries: RankedAnswer[]): number {
   const mentionedQueries = queries.filter(q => (q.focused_brand_rank ?? 0) > 0);
   if (mentionedQueries.length === 0) return 0;
 
@@ -30,41 +47,74 @@ export function calculateAverageRank(queries: Query[]): number {
  * 3. Calculate Competitor Statistics
  * Returns sorted list of competitors by mention count
  * INCLUDES the focus brand in the results
+ * Brand strings are grouped by `entityByAlias` (see resolveCompetitorEntities); an entity
+ * counts once per answer, at its best position
  */
 export function calculateCompetitorStats(
   queries: Query[],
-  focusBrand: string
+  focusBrand: string,
+  weights: RankWeightTier[] = DEFAULT_RANK_WEIGHTS,
+  entityByAlias: Record<string, string> = {}
 ): Array<{
   brand_name: string;
+  aliases: string[];
+  is_focus: boolean;
   mention_count: number;
   mention_percentage: number;
+  mention_ci_lower: number;
+  mention_ci_upper: number;
+  share_of_voice: number;
+  weighted_visibility_score: number;
   average_rank: number;
 }> {
-  const competitorMap = new Map<string, { count: number; ranks: number[] }>();
+  const competitorMap = new Map<string, { count: number; ranks: number[]; weightSum: number; aliases: Set<string> }>();
 
   queries.forEach(query => {
+    const seenInQuery = new Set<string>();
+
     query.brands_mentioned?.forEach((brand, index) => {
       // Include ALL brands (including focus brand)
       if (!brand || brand.trim() === '') return; // Skip empty brands
 
-      if (!competitorMap.has(brand)) {
-        competitorMap.set(brand, { count: 0, ranks: [] });
+      const variant = brand.trim();
+      const entity = entityByAlias[variant] || variant;
+
+      if (!competitorMap.has(entity)) {
+        competitorMap.set(entity, { count: 0, ranks: [], weightSum: 0, aliases: new Set() });
       }
 
-      const stats = competitorMap.get(brand)!;
+      const stats = competitorMap.get(entity)!;
+      if (variant !== entity) stats.aliases.add(variant);
+
+      // Aliases of an entity already seen in this answer are the same mention
+      if (seenInQuery.has(entity)) return;
+      seenInQuery.add(entity);
+
       stats.count++;
       stats.ranks.push(index + 1); // 1-based rank position in brands_mentioned array
+      stats.weightSum += getRankWeight(index + 1, weights);
     });
   });
 
+  const totalMentions = Array.from(competitorMap.values()).reduce((sum, stats) => sum + stats.count, 0);
+
   // Convert to array and calculate percentages
   return Array.from(competitorMap.entries())
-    .map(([brand, stats]) => ({
-      brand_name: brand, // Database column is brand_name
-      mention_count: stats.count,
-      mention_percentage: (stats.count / queries.length) * 100,
-      average_rank: stats.ranks.reduce((a, b) => a + b, 0) / stats.ranks.length
-    }))
+    .map(([entity, stats]) => {
+      const interval = calculateWilsonInterval(stats.count, queries.length);
+      return {
+        brand_name: entity, // Database column is brand_name
+        aliases: Array.from(stats.aliases),
+        is_focus: entity === focusBrand, // Focus-brand variants are resolved to exactly this name
+        mention_count: stats.count,
+        mention_percentage: (stats.count / queries.length) * 100,
+        mention_ci_lower: interval.lower,
+        mention_ci_upper: interval.upper,
+        share_of_voice: totalMentions > 0 ? (stats.count / totalMentions) * 100 : 0,
+        weighted_visibility_score: queries.length > 0 ? stats.weightSum / queries.length : 0,
+        average_rank: stats.ranks.reduce((a, b) => a + b, 0) / stats.ranks.length
+      };
+    })
     .sort((a, b) => b.mention_count - a.mention_count);
 }
 
@@ -99,7 +149,7 @@ export function calculateTopSources(queries: Query[]): Array<{
  * 5. Calculate Topic-Level Visibility
  * Formula: (topic_queries_with_mention / 10) × 100
  */
-export function calculateTopicVisibility(topicQueries: Query[]): number {
+export function calculateTopicVisibility(topicQueries: RankedAnswer[]): number {
   if (topicQueries.length === 0) return 0;
   const mentionedInTopic = topicQueries.filter(q => (q.focused_brand_rank ?? 0) > 0).length;
   return (mentionedInTopic / topicQueries.length) * 100;
@@ -109,7 +159,7 @@ export function calculateTopicVisibility(topicQueries: Query[]): number {
  * 6. Calculate Topic Average Rank
  * Formula: AVG(rank) for queries where mentioned
  */
-export function calculateTopicAverageRank(topicQueries: Query[]): number {
+export function calculateTopicAverageRank(topicQueries: RankedAnswer[]): number {
   const mentioned = topicQueries.filter(q => (q.focused_brand_rank ?? 0) > 0);
   if (mentioned.length === 0) return 0;
 
@@ -141,117 +191,330 @@ export function extractDomain(url: string): string {
 
 /**
  * 9. Get Query Visibility String
- * Maps rank to visibility percentage
+ * Maps rank to visibility percentage using the weighting table
+ */
+export function getQueryVisibility(rank: number, weights: RankWeightTier[] = DEFAULT_RANK_WEIGHTS): string {
+  return `${getRankWeight(rank, weights)}%`;
+}
+
+/**
+ * 10. Get Rank Weight
+ * Weight (percent) of the first tier covering the rank; 0 when not mentioned
+ */
+export function getRankWeight(rank: number, weights: RankWeightTier[] = DEFAULT_RANK_WEIGHTS): number {
+  if (rank <= 0) return 0;
+  const tier = weights.find(t => t.max_rank === null || rank <= t.max_rank);
+  return tier ? tier.weight : 0;
+}
+
+/**
+ * 11. Calculate Weighted Visibility Score
+ * Formula: AVG(rank_weight) over all queries (not mentioned = 0)
+ * Rewards ranking first, unlike the plain mention rate
+ */
+export function calculateWeightedVisibility(
+  queries: RankedAnswer[],
+  weights: RankWeightTier[] = DEFAULT_RANK_WEIGHTS
+): number {
+  if (queries.length === 0) return 0;
+  const totalWeight = queries.reduce((sum, q) => sum + getRankWeight(q.focused_brand_rank ?? 0, weights), 0);
+  return totalWeight / queries.length;
+}
+
+/**
+ * 12. Parse Rank Weights
+ * Validates a user-supplied weighting table; returns null if it is malformed
+ */
+export function parseRankWeights(value: unknown): RankWeightTier[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const tiers: RankWeightTier[] = [];
+  for (const [index, item] of value.entries()) {
+    if (!item || typeof item !== 'object') return null;
+    const { max_rank, weight } = item as Record<string, unknown>;
+    const isLast = index === value.length - 1;
+
+    if (typeof weight !== 'number' || weight < 0 || weight > 100) return null;
+    if (isLast ? max_rank !== null : !Number.isInteger(max_rank) || (max_rank as number) < 1) return null;
+
+    const previous = tiers[tiers.length - 1]?.max_rank ?? 0;
+    if (!isLast && (max_rank as number) <= previous) return null;
+
+    tiers.push({ max_rank: max_rank as number | null, weight });
+  }
+
+  return tiers;
+}
+
+/**
+ * 13. Calculate Per-Engine Metrics
+ * Same visibility/rank formulas, split by the engine that produced each answer
+ */
+export function calculateEngineMetrics(
+  answers: Array<RankedAnswer & { engine: EngineId }>,
+  engines: EngineId[]
+): EngineMetrics[] {
+  return engines.map(engine => {
+    const engineAnswers = answers.filter(a => a.engine === engine);
+    return {
+      engine,
+      total_answers: engineAnswers.length,
+      answers_mentioned: engineAnswers.filter(a => (a.focused_brand_rank ?? 0) > 0).length,
+      visibility_score: calculateOverallVisibility(engineAnswers),
+      average_rank: calculateAverageRank(engineAnswers)
+    };
+  });
+}
+
+/**
+ * 14. Calculate Wilson Confidence Interval
+ * 95% interval for a mention rate of `successes` out of `total` responses, in percent.
+ * Unlike mean ± 1.96·SE it stays within 0-100% and behaves at 0 or all mentions,
+ * which matters with ~11 queries per topic.
  */
-export function getQueryVisibility(rank: number): string {
-  if (rank === 0) return '0%';
-  if (rank === 1) return '100%';
-  return '50%';
+export function calculateWilsonInterval(
+  successes: number,
+  total: number,
+  z: number = CONFIDENCE_Z
+): ConfidenceInterval {
+  if (total === 0) return { lower: 0, upper: 0 };
+
+  const p = successes / total;
+  const z2 = z * z;
+  const denominator = 1 + z2 / total;
+  const center = (p + z2 / (2 * total)) / denominator;
+  const margin = (z / denominator) * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total));
+
+  return {
+    lower: Math.max(0, center - margin) * 100,
+    upper: Math.min(1, center + margin) * 100
+  };
 }
 
 /**
- * 10. Main Function - Calculate All Metrics for Analysis
+ * 15. Calculate Sampling Stability
+ * For the ranks one query received across repeated samples (0 = not mentioned):
+ * - mention_probability = mentioned samples / samples
+ * - rank_mean / rank_variance over the samples that mention the brand
+ * - stability_score = |2p - 1| × 1 / (1 + rank std dev)
+ *   (1 when every sample agrees; 0 when mention is a coin flip)
+ */
+export function calculateSampleStats(ranks: number[]): SampleStats {
+  if (ranks.length === 0) {
+    return { mention_probability: 0, rank_mean: 0, rank_variance: 0, stability_score: 0 };
+  }
+
+  const mentionedRanks = ranks.filter(rank => rank > 0);
+  const mentionProbability = mentionedRanks.length / ranks.length;
+  const rankMean = mentionedRanks.length > 0
+    ? mentionedRanks.reduce((sum, rank) => sum + rank, 0) / mentionedRanks.length
+    : 0;
+  const rankVariance = mentionedRanks.length > 0
+    ? mentionedRanks.reduce((sum, rank) => sum + (rank - rankMean) ** 2, 0) / mentionedRanks.length
+    : 0;
+
+  const mentionAgreement = Math.abs(2 * mentionProbability - 1);
+  const rankConsistency = 1 / (1 + Math.sqrt(rankVariance));
+
+  return {
+    mention_probability: mentionProbability,
+    rank_mean: rankMean,
+    rank_variance: rankVariance,
+    stability_score: mentionAgreement * rankConsistency
+  };
+}
+
+/**
+ * 16. Calculate Topic Sampling Stability
+ * Probability and stability are averaged over the topic's queries;
+ * rank mean/variance pool every mentioning sample in the topic
+ */
+export function calculateTopicSampleStats(queryRanks: number[][]): SampleStats {
+  const sampled = queryRanks.filter(ranks => ranks.length > 0);
+  if (sampled.length === 0) {
+    return { mention_probability: 0, rank_mean: 0, rank_variance: 0, stability_score: 0 };
+  }
+
+  const perQuery = sampled.map(calculateSampleStats);
+  const pooled = calculateSampleStats(sampled.flat().filter(rank => rank > 0));
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    mention_probability: average(perQuery.map(q => q.mention_probability)),
+    rank_mean: pooled.rank_mean,
+    rank_variance: pooled.rank_variance,
+    stability_score: average(perQuery.map(q => q.stability_score))
+  };
+}
+
+/**
+ * Share of queries that completed - failed or cancelled queries keep an analysis below 100%
+ */
+function calculateProgress(queries: Query[]): number {
+  const completed = queries.filter(q => q.status === 'completed').length;
+  return queries.length > 0 ? Math.round((completed / queries.length) * 100) : 0;
+}
+
+/**
+ * 17. Calculate Sampled Visibility
+ * Analysis and topic figures over every sample of the primary engine, given each query's sample ranks
+ * (0 = not mentioned; a single rank per query for unsampled analyses). Queries without a completed
+ * sample (e.g. failed ones) are left out rather than counted as not mentioned:
+ * - visibility / weighted visibility = mean over queries of the per-query mention rate / rank weight
+ * - average rank = mean over every mentioning sample
+ * - queries mentioned = queries mentioning the brand in at least one sample
+ * - the Wilson interval counts queries, not samples, as the independent observations
+ *   (samples of one prompt are correlated, so counting them would overstate precision)
+ */
+export function calculateSampledVisibility(
+  queryRanks: number[][],
+  weights: RankWeightTier[] = DEFAULT_RANK_WEIGHTS
+): { visibility: number; weightedVisibility: number; averageRank: number; queriesMentioned: number; interval: ConfidenceInterval } {
+  const sampled = queryRanks.filter(ranks => ranks.length > 0);
+  if (sampled.length === 0) {
+    return { visibility: 0, weightedVisibility: 0, averageRank: 0, queriesMentioned: 0, interval: { lower: 0, upper: 0 } };
+  }
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const mentionRate = average(sampled.map(ranks => ranks.filter(rank => rank > 0).length / ranks.length));
+  const mentionedRanks = sampled.flat().filter(rank => rank > 0);
+
+  return {
+    visibility: mentionRate * 100,
+    weightedVisibility: average(sampled.map(ranks => average(ranks.map(rank => getRankWeight(rank, weights))))),
+    averageRank: mentionedRanks.length > 0 ? average(mentionedRanks) : 0,
+    queriesMentioned: sampled.filter(ranks => ranks.some(rank => rank > 0)).length,
+    interval: calculateWilsonInterval(mentionRate * sampled.length, sampled.length)
+  };
+}
+
+/**
+ * 18. Main Function - Calculate All Metrics for Analysis
  * This is called after all queries are completed
+ * Returns false (and writes nothing) if the analysis was cancelled meanwhile
  */
-export async function calculateAllMetrics(analysisId: string): Promise<void> {
+export async function calculateAllMetrics(analysisId: string): Promise<boolean> {
   try {
+    const repository = getRepository();
+
     // 1. Fetch all queries for this analysis
-    const { data: queries, error: queriesError } = await supabaseAdmin
-      .from('queries')
-      .select('*')
-      .eq('analysis_id', analysisId);
+    const queries = await repository.listQueries(analysisId);
 
-    if (queriesError) throw queriesError;
-    if (!queries || queries.length === 0) {
+    if (queries.length === 0) {
       throw new Error('No queries found for analysis');
     }
 
+    // Per-engine answers; analyses from before multi-engine support only have query rows
+    const analysis = await repository.getAnalysis(analysisId);
+    if (!analysis) throw new Error('Analysis not found');
+
+    const engines = resolveAnalysisEngines(analysis);
+    const rankWeights = analysis.rank_weights ?? DEFAULT_RANK_WEIGHTS;
+    const storedAnswers = await repository.listQueryAnswers(analysisId);
+
+    // Failed answers are stored with rank 0 - they are left out instead of counting as not mentioned
+    const engineAnswers = storedAnswers.length > 0
+      ? storedAnswers.filter(a => a.status === 'completed')
+      : queries
+          .filter(q => q.status === 'completed')
+          .map(q => ({ query_id: q.id, topic_id: q.topic_id, engine: engines[0], focused_brand_rank: q.focused_brand_rank }));
+
+    // Ranks from every sample of the primary engine, per query (a single rank for unsampled analyses)
+    const sampleRanksByQuery = new Map<string, number[]>();
+    for (const answer of engineAnswers) {
+      if (answer.engine !== engines[0]) continue;
+      const ranks = sampleRanksByQuery.get(answer.query_id) || [];
+      ranks.push(answer.focused_brand_rank ?? 0);
+      sampleRanksByQuery.set(answer.query_id, ranks);
+    }
+
     // 2. Calculate overall metrics
-    const overallVisibility = calculateOverallVisibility(queries);
-    const averageRank = calculateAverageRank(queries);
-    const queriesWithMention = queries.filter(q => (q.focused_brand_rank ?? 0) > 0).length;
-
-    // 3. Update analysis record with overall metrics
-    const { error: analysisUpdateError } = await supabaseAdmin
-      .from('analyses')
-      .update({
-        overall_visibility_score: overallVisibility,
-        average_rank: averageRank,
-        total_queries: queries.length,
-        queries_mentioned: queriesWithMention,
-        progress: 100, // Set to 100% when metrics calculation completes
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', analysisId);
-
-    if (analysisUpdateError) throw analysisUpdateError;
-
-    // 4. Calculate and insert competitor stats
-    const focusBrand = queries[0]?.focused_brand || '';
-    const competitors = calculateCompetitorStats(queries, focusBrand);
-
-    if (competitors.length > 0) {
-      const competitorsToInsert = competitors.map(c => ({
-        ...c,
-        analysis_id: analysisId
-      }));
-
-      const { error: competitorsError } = await supabaseAdmin
-        .from('competitors')
-        .upsert(competitorsToInsert, {
-          onConflict: 'analysis_id,brand_name'
-        });
-
-      if (competitorsError) throw competitorsError;
+    // Headline figures average every completed primary-engine sample
+    const sampleRanksOf = (subset: Query[]) => subset.map(q => sampleRanksByQuery.get(q.id) ?? []);
+    const headline = calculateSampledVisibility(sampleRanksOf(queries), rankWeights);
+
+    // Brand strings are resolved into entities so spellings of one institution are merged
+    // (city names and company suffixes are handled per the analysis' vertical profile)
+    const focusBrand = queries[0]?.focused_brand || analysis.institution_name;
+    const { entityByAlias } = resolveCompetitorEntities(queries, focusBrand, getVerticalProfile(analysis.vertical));
+
+    // 3. Update analysis record with overall metrics (a cancel from another process is kept)
+    // A recompute of a completed analysis (match override) leaves its progress alone, and no run
+    // moves completed_at once set - tracked trends plot each run at that time
+    const isRecompute = analysis.status === 'completed';
+    const updated = await repository.updateAnalysis(analysisId, {
+      overall_visibility_score: headline.visibility,
+      weighted_visibility_score: headline.weightedVisibility,
+      average_rank: headline.averageRank,
+      visibility_ci_lower: headline.interval.lower,
+      visibility_ci_upper: headline.interval.upper,
+      total_queries: queries.length,
+      queries_mentioned: headline.queriesMentioned,
+      engine_metrics: calculateEngineMetrics(engineAnswers, engines),
+      competitor_aliases: Object.fromEntries(
+        Object.entries(entityByAlias).filter(([alias, entity]) => alias !== entity)
+      ),
+      ...(isRecompute ? {} : { progress: calculateProgress(queries) }), // Below 100% while failed queries are left to retry
+      status: 'completed',
+      completed_at: analysis.completed_at ?? new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }, 'cancelled');
+
+    if (!updated) {
+      console.log(`🛑 Analysis ${analysisId} was cancelled - metrics not saved`);
+      return false;
     }
 
-    // 5. Calculate and insert source stats
-    const sources = calculateTopSources(queries);
+    // 4. Store per-query visibility (with this analysis' weights) and sampling stability
+    for (const query of queries) {
+      const ranks = sampleRanksByQuery.get(query.id);
+      await repository.updateQueries([query.id], {
+        visibility: getRankWeight(query.focused_brand_rank ?? 0, rankWeights),
+        ...(ranks ? calculateSampleStats(ranks) : {})
+      });
+    }
 
-    if (sources.length > 0) {
-      const sourcesToInsert = sources.map(s => ({
-        ...s,
-        analysis_id: analysisId
-      }));
+    // 5. Calculate and insert competitor stats
+    // Previous aggregates are replaced so a recompute (e.g. after a retry) leaves no stale rows
+    const competitors = calculateCompetitorStats(queries, focusBrand, rankWeights, entityByAlias);
 
-      const { error: sourcesError } = await supabaseAdmin
-        .from('sources')
-        .upsert(sourcesToInsert, {
-          onConflict: 'analysis_id,url'
-        });
+    await repository.replaceCompetitors(analysisId, competitors.map(c => ({
+      ...c,
+      analysis_id: analysisId
+    })));
 
-      if (sourcesError) throw sourcesError;
-    }
+    // 6. Calculate and insert source stats
+    const sources = calculateTopSources(queries);
 
-    // 6. Calculate topic-level metrics
-    const { data: topics, error: topicsError } = await supabaseAdmin
-      .from('topics')
-      .select('id')
-      .eq('analysis_id', analysisId);
-
-    if (topicsError) throw topicsError;
-
-    if (topics) {
-      for (const topic of topics) {
-        const topicQueries = queries.filter(q => q.topic_id === topic.id);
-
-        const { error: topicUpdateError } = await supabaseAdmin
-          .from('topics')
-          .update({
-            visibility_percentage: calculateTopicVisibility(topicQueries),
-            average_rank: calculateTopicAverageRank(topicQueries),
-            total_citations: calculateTopicCitations(topicQueries),
-            queries_with_mention: topicQueries.filter(q => (q.focused_brand_rank ?? 0) > 0).length
-          })
-          .eq('id', topic.id);
-
-        if (topicUpdateError) throw topicUpdateError;
-      }
+    await repository.replaceSources(analysisId, sources.map(s => ({
+      ...s,
+      analysis_id: analysisId
+    })));
+
+    // 7. Calculate topic-level metrics
+    const topics = await repository.listTopics(analysisId);
+
+    for (const topic of topics) {
+      const topicQueries = queries.filter(q => q.topic_id === topic.id);
+      const topicAnswers = engineAnswers.filter(a => a.topic_id === topic.id);
+      // Same sampled figures as the headline, so topics and the analysis agree
+      const topicVisibility = calculateSampledVisibility(sampleRanksOf(topicQueries), rankWeights);
+
+      await repository.updateTopic(topic.id, {
+        visibility_percentage: topicVisibility.visibility,
+        weighted_visibility_percentage: topicVisibility.weightedVisibility,
+        visibility_ci_lower: topicVisibility.interval.lower,
+        visibility_ci_upper: topicVisibility.interval.upper,
+        average_rank: topicVisibility.averageRank,
+        total_citations: calculateTopicCitations(topicQueries),
+        queries_with_mention: topicVisibility.queriesMentioned,
+        engine_metrics: calculateEngineMetrics(topicAnswers, engines),
+        ...calculateTopicSampleStats(sampleRanksOf(topicQueries))
+      });
     }
 
     console.log(`✅ Metrics calculated successfully for analysis ${analysisId}`);
+    return true;
   } catch (error) {
     console.error(`❌ Failed to calculate metrics for analysis ${analysisId}:`, error);
     throw error;
@@ -259,29 +522,19 @@ export async function calculateAllMetrics(analysisId: string): Promise<void> {
 }
 
 /**
- * 11. Update Analysis Progress
+ * 19. Update Analysis Progress
  * Calculate and update progress percentage
  */
 export async function updateAnalysisProgress(analysisId: string): Promise<number> {
   try {
-    const { data: queries } = await supabaseAdmin
-      .from('queries')
-      .select('status')
-      .eq('analysis_id', analysisId);
-
-    if (!queries) return 0;
-
-    const completed = queries.filter(q => q.status === 'completed').length;
-    const total = queries.length;
-    const progress = total > 0 ? Math.round((completed / total) * 100) : 0;
-
-    await supabaseAdmin
-      .from('analyses')
-      .update({
-        progress,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', analysisId);
+    const repository = getRepository();
+    const queries = await repository.listQueries(analysisId);
+    const progress = calculateProgress(queries);
+
+    await repository.updateAnalysis(analysisId, {
+      progress,
+      updated_at: new Date().toISOString()
+    });
 
     return progress;
   } catch (error) {
@@ -0,0 +1,206 @@
+// Mock Answer Engine - Deterministic offline fixtures for Prompts #1/#2/#3
+// Lets the full pipeline run without OpenAI or Perplexity credentials.
+// Same input → same output, so runs are reproducible and metrics are stable.
+import { createHash } from 'crypto';
+import type { AnswerEngine, AnswerQueryOptions, BrandValidation, BrandValidationOptions, Prompt1RawResponse, Prompt2RawResponse, TopicsAndQueriesResponse, WebAnswer } from '@/types';
+import { extractAndParseJSON } from './llm-utils';
+import { detectBrandInAnswer } from './brand-matching';
+import { getVerticalProfile } from './verticals';
+import { abortableSleep, throwIfCancelled } from './cancellation';
+
+// Brand the fixture answers mention - analyze this name to see non-zero visibility
+const MOCK_FOCUS_BRAND = process.env.MOCK_ENGINE_FOCUS_BRAND || 'Northwind University';
+const MOCK_LOCATION = process.env.MOCK_ENGINE_LOCATION || 'Pune, Maharashtra, India';
+// Optional artificial latency per call, useful for exercising progress and cancellation
+const MOCK_LATENCY_MS = parseInt(process.env.MOCK_ENGINE_LATENCY_MS || '0', 10) || 0;
+
+const MOCK_COMPETITORS = [
+  'Lakeside Institute of Technology',
+  'Riverbend College',
+  'Summit State University',
+  'Crestview Academy',
+  'Harborview School of Management',
+  'Maple Grove University',
+  'Ironwood Polytechnic',
+  'Silverline Business School'
+];
+
+const MOCK_SOURCES = [
+  'https://www.shiksha.com',
+  'https://www.collegedunia.com',
+  'https://www.careers360.com',
+  'https://www.nirfindia.org',
+  'https://en.wikipedia.org',
+  'https://www.topuniversities.com'
+];
+
+const MOCK_TOPICS = [
+  'Undergraduate Engineering Admissions',
+  'MBA and Management Programs',
+  'Campus Placements and Careers'
+];
+
+// 11 prompts per topic, matching what the real Prompt #1 returns
+const MOCK_PROMPT_TEMPLATES = [
+  'best colleges for {topic} in {city}',
+  'top rated {topic} options near {city}',
+  'affordable {topic} with good reviews',
+  'which institutes lead in {topic} 2025',
+  '{topic} rankings in {region}',
+  'compare {topic} colleges in {city}',
+  'how to choose a college for {topic}',
+  '{topic} with scholarships for students',
+  'most reputed {topic} in India',
+  '{topic} with strong industry connections',
+  'private vs government {topic} in {region}'
+];
+
+/**
+ * Stable pseudo-random numbers seeded from a string
+ */
+function seededRandom(seed: string): () => number {
+  let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+  return () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle driven by a seeded generator
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Simulated network delay (no-op unless MOCK_ENGINE_LATENCY_MS is set)
+ */
+async function simulateLatency(signal?: AbortSignal): Promise<void> {
+  throwIfCancelled(signal);
+  if (MOCK_LATENCY_MS > 0) {
+    await abortableSleep(MOCK_LATENCY_MS, signal);
+  }
+}
+
+/**
+ * Fixture Prompt #1 response (raw LLM text, including a markdown fence)
+ */
+function buildPrompt1Fixture(institutionName: string): string {
+  const [city, region] = MOCK_LOCATION.split(',').map(part => part.trim());
+
+  const payload = {
+    company: {
+      name: institutionName.trim(),
+      location: MOCK_LOCATION
+    },
+    topics: MOCK_TOPICS.map(topic => ({
+      topic,
+      prompts: MOCK_PROMPT_TEMPLATES.map(template =>
+        template
+          .replace('{topic}', topic.toLowerCase())
+          .replace('{city}', city)
+          .replace('{region}', region || city)
+      )
+    }))
+  };
+
+  return '```json\n' + JSON.stringify(payload, null, 2) + '\n```';
+}
+
+/**
+ * Fixture Prompt #2 response - brands and citations are derived from the query text
+ * Repeat samples (sample > 0) get their own seed so answers vary like a real engine's
+ */
+function buildPrompt2Fixture(queryText: string, sample: number): string {
+  const random = seededRandom(sample > 0 ? `prompt2:${queryText}#${sample}` : `prompt2:${queryText}`);
+
+  const brands = shuffle(MOCK_COMPETITORS, random).slice(0, 3 + Math.floor(random() * 4));
+
+  // Focus brand appears in roughly 60% of answers, at a varying position
+  if (random() < 0.6) {
+    const position = Math.floor(random() * Math.min(brands.length, 6));
+    brands.splice(position, 0, MOCK_FOCUS_BRAND);
+  }
+
+  const websites = shuffle(MOCK_SOURCES, random).slice(0, 2 + Math.floor(random() * 3));
+
+  return JSON.stringify({
+    Answer: `For "${queryText}", commonly recommended options are ${brands.join(', ')}. Compare fees, accreditation and placement records before shortlisting.`,
+    brands_mentioned: brands,
+    websites_cited: websites
+  });
+}
+
+/**
+ * Fixture Prompt #3 response - uses the rule-based matcher (with the profile's city names) instead of an LLM
+ */
+function buildPrompt3Fixture(brandsMentioned: string[], focusBrand: string, locationWords: string[]): string {
+  const { rank } = detectBrandInAnswer(brandsMentioned, focusBrand, locationWords);
+  const matchedName = rank > 0 ? brandsMentioned[rank - 1] : null;
+
+  return JSON.stringify({
+    found: rank > 0,
+    matched_name: matchedName,
+    canonical_brand: matchedName,
+    position: rank > 0 ? rank : null,
+    confidence: 'high',
+    reasoning: rank > 0 ? `Mock match at position ${rank}` : 'Mock: focus brand not in list'
+  });
+}
+
+async function generateTopics(institutionName: string): Promise<TopicsAndQueriesResponse> {
+  console.log(`📝 [Mock] Generating fixture topics and queries for: ${institutionName}`);
+  await simulateLatency();
+
+  const parsed = extractAndParseJSON<Prompt1RawResponse>(buildPrompt1Fixture(institutionName), 'Mock Prompt #1 (Topics)');
+
+  return {
+    institution_name: parsed.company.name,
+    location: parsed.company.location,
+    institution_type: 'Unknown',
+    topics: parsed.topics
+  };
+}
+
+async function answerQuery(
+  queryText: string,
+  { sample = 0, signal }: AnswerQueryOptions
+): Promise<WebAnswer> {
+  await simulateLatency(signal);
+
+  const parsed = extractAndParseJSON<Prompt2RawResponse>(buildPrompt2Fixture(queryText, sample), 'Mock Prompt #2 (Query)');
+
+  return {
+    answer: parsed.Answer || '',
+    brands_mentioned: parsed.brands_mentioned || [],
+    websites_cited: parsed.websites_cited || []
+  };
+}
+
+async function validateBrand(
+  brandsMentioned: string[],
+  focusBrand: string,
+  { vertical, signal }: BrandValidationOptions = {}
+): Promise<BrandValidation> {
+  await simulateLatency(signal);
+
+  const { locationWords } = getVerticalProfile(vertical);
+  return extractAndParseJSON<BrandValidation>(buildPrompt3Fixture(brandsMentioned, focusBrand, locationWords), 'Mock Prompt #3 (Brand Validation)');
+}
+
+export const mockEngine: AnswerEngine = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  generateTopics,
+  answerQuery,
+  validateBrand
+};
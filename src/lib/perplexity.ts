@@ -1,149 +1,129 @@
-// Perplexity API Client for Prompt #1 (Topics and Queries Generation)
-import type { TopicsAndQueriesResponse } from '@/types';
-import { PROMPT_1_SYSTEM, extractAndParseJSON } from './openai';
+// Perplexity Answer Engine (Sonar, Chat Completions API)
+import type { AnswerEngine, AnswerQueryOptions, BrandValidation, BrandValidationOptions, Prompt1ParsedResponse, Prompt2RawResponse, TopicGenerationOptions, TopicsAndQueriesResponse, WebAnswer } from '@/types';
+import { extractAndParseJSON, fetchWithRetry } from './llm-utils';
+import { recordTraceEvent } from './pipeline-trace';
+import { buildPrompt1System, buildPrompt2System, buildBrandValidationPrompt } from './prompts';
 
 const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
 const PERPLEXITY_API_URL = 'https://api.perplexity.ai/chat/completions';
-const PERPLEXITY_MODEL = 'sonar'; // As specified by user
+const PERPLEXITY_MODEL = process.env.PERPLEXITY_MODEL || 'sonar'; // As specified by user
 
 // Error class for Perplexity API errors
 export class PerplexityError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
-    public response?: any
+    public response?: unknown
   ) {
     super(message);
     this.name = 'PerplexityError';
   }
 }
 
-/**
- * Retry helper with exponential backoff
- * Same pattern as OpenAI client
- */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries: number = 3
-): Promise<Response> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, options);
-
-      // Handle rate limiting (429) with exponential backoff
-      if (response.status === 429) {
-        const retryAfter = parseInt(response.headers.get('Retry-After') || '10');
-        const waitTime = Math.max(retryAfter * 1000, 5000 * Math.pow(2, attempt));
-        console.log(`⚠️  Perplexity rate limited (429) - waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        continue;
-      }
-
-      // Handle server errors (500, 502, 503, 504) with retry
-      if (response.status >= 500 && response.status < 600) {
-        if (attempt < maxRetries - 1) {
-          const waitTime = 3000 * Math.pow(2, attempt);
-          console.log(`⚠️  Perplexity server error (${response.status}) - waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-          continue;
-        }
-      }
-
-      return response;
-    } catch (error: any) {
-      // Network errors (connection timeout, DNS, etc.)
-      if (attempt < maxRetries - 1) {
-        const waitTime = 2000 * Math.pow(2, attempt);
-        console.log(`⚠️  Perplexity network error - waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        continue;
-      }
-      throw error;
-    }
-  }
-
-  throw new PerplexityError('Max retries exceeded');
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
 }
 
 /**
- * Generate topics and queries using Perplexity's Sonar model
- * Replaces OpenAI for Prompt #1
+ * Call the Chat Completions API and return the first choice's content
+ * plus any citations Sonar attached from its own web search
  */
-export async function generateTopicsAndQueriesWithPerplexity(
-  institutionName: string
-): Promise<TopicsAndQueriesResponse> {
+async function createChatCompletion(
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<{ content: string; citations: string[] }> {
   if (!PERPLEXITY_API_KEY) {
     throw new PerplexityError('PERPLEXITY_API_KEY is not configured');
   }
 
-  try {
-    console.log(`📝 Generating topics and queries with Perplexity for: ${institutionName}`);
+  const response = await fetchWithRetry(PERPLEXITY_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model: PERPLEXITY_MODEL,
+      messages
+    })
+  }, { signal, label: 'Perplexity' });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new PerplexityError(
+      `HTTP ${response.status}: ${errorText.substring(0, 500)}`,
+      response.status,
+      errorText
+    );
+  }
 
-    const response = await fetchWithRetry(PERPLEXITY_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: PERPLEXITY_MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: PROMPT_1_SYSTEM
-          },
-          {
-            role: 'user',
-            content: institutionName
-          }
-        ]
-      })
+  const data = await response.json();
+
+  if (data.usage) {
+    void recordTraceEvent('token_usage', {
+      provider: 'Perplexity',
+      model: PERPLEXITY_MODEL,
+      input_tokens: data.usage.prompt_tokens ?? 0,
+      output_tokens: data.usage.completion_tokens ?? 0,
+      total_tokens: data.usage.total_tokens ?? 0
     });
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new PerplexityError(
-        `Perplexity API error: ${response.statusText}`,
-        response.status,
-        errorText
-      );
-    }
+  // Validate response structure for Chat Completions API
+  // Perplexity uses standard OpenAI Chat Completions format
+  if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
+    console.error('❌ Invalid Perplexity API response structure:', JSON.stringify(data, null, 2));
+    throw new PerplexityError('API returned invalid response structure (no choices array)');
+  }
 
-    const data = await response.json();
+  // Extract content from first choice
+  const firstChoice = data.choices[0];
+  if (!firstChoice.message || !firstChoice.message.content) {
+    console.error('❌ No message content in choice:', JSON.stringify(firstChoice, null, 2));
+    throw new PerplexityError('API returned no message content');
+  }
 
-    // Log the full response structure for debugging
-    console.log('📦 Perplexity Response structure:', JSON.stringify({
-      hasChoices: !!data.choices,
-      choicesLength: data.choices?.length
-    }));
+  const content: string = firstChoice.message.content;
 
-    // Validate response structure for Chat Completions API
-    // Perplexity uses standard OpenAI Chat Completions format
-    if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
-      console.error('❌ Invalid Perplexity API response structure:', JSON.stringify(data, null, 2));
-      throw new PerplexityError('API returned invalid response structure (no choices array)');
-    }
+  if (content.trim().length === 0) {
+    console.error('❌ Empty content in Perplexity response.');
+    throw new PerplexityError('API returned empty content.');
+  }
 
-    // Extract content from first choice
-    const firstChoice = data.choices[0];
-    if (!firstChoice.message || !firstChoice.message.content) {
-      console.error('❌ No message content in choice:', JSON.stringify(firstChoice, null, 2));
-      throw new PerplexityError('API returned no message content');
-    }
+  // Log raw response length
+  console.log(`📄 Perplexity response length: ${content.length} chars`);
 
-    const content = firstChoice.message.content;
+  return {
+    content,
+    citations: Array.isArray(data.citations) ? data.citations : []
+  };
+}
 
-    if (!content || content.trim().length === 0) {
-      console.error('❌ Empty content in Perplexity response.');
-      throw new PerplexityError('API returned empty content.');
-    }
+/**
+ * Generate topics and queries using Perplexity's Sonar model
+ * Default engine for Prompt #1
+ */
+export async function generateTopicsAndQueriesWithPerplexity(
+  institutionName: string,
+  options?: TopicGenerationOptions
+): Promise<TopicsAndQueriesResponse> {
+  try {
+    console.log(`📝 Generating topics and queries with Perplexity for: ${institutionName}`);
 
-    // Log raw response length
-    console.log(`📄 Perplexity response length: ${content.length} chars`);
+    const { content } = await createChatCompletion([
+      {
+        role: 'system',
+        content: buildPrompt1System(options)
+      },
+      {
+        role: 'user',
+        content: institutionName
+      }
+    ]);
 
-    // Extract and parse JSON (reuse OpenAI helper function)
-    const parsed = extractAndParseJSON(content, 'Perplexity Prompt #1 (Topics)');
+    // Extract and parse JSON
+    const parsed = extractAndParseJSON<Prompt1ParsedResponse>(content, 'Perplexity Prompt #1 (Topics)');
 
     // Validate response structure
     if (!parsed.topics || !Array.isArray(parsed.topics) || parsed.topics.length === 0) {
@@ -171,3 +151,64 @@ export async function generateTopicsAndQueriesWithPerplexity(
     throw new PerplexityError(`Failed to generate topics: ${error}`);
   }
 }
+
+/**
+ * Answer a single query (Prompt #2)
+ * Sonar always searches the web; location is passed in the prompt for regional results
+ */
+async function answerQuery(
+  queryText: string,
+  { location, vertical, signal }: AnswerQueryOptions
+): Promise<WebAnswer> {
+  const hasLocation = location && location.trim() !== '' && location !== 'Unknown';
+
+  const { content, citations } = await createChatCompletion([
+    {
+      role: 'system',
+      content: buildPrompt2System(vertical)
+    },
+    {
+      role: 'user',
+      content: hasLocation ? `Location: ${location}\nQuery: ${queryText}` : `Query: ${queryText}`
+    }
+  ], signal);
+
+  const parsed = extractAndParseJSON<Prompt2RawResponse>(content, 'Perplexity Prompt #2 (Query)');
+  const websitesCited: string[] = parsed.websites_cited?.length ? parsed.websites_cited : citations;
+
+  return {
+    answer: parsed.Answer || parsed.answer || '',
+    brands_mentioned: parsed.brands_mentioned || [],
+    websites_cited: websitesCited
+  };
+}
+
+/**
+ * Validate brand mention (Prompt #3)
+ */
+async function validateBrand(
+  brandsMentioned: string[],
+  focusBrand: string,
+  { vertical, signal }: BrandValidationOptions = {}
+): Promise<BrandValidation> {
+  const { content } = await createChatCompletion([
+    {
+      role: 'system',
+      content: 'You are a precise brand/entity name matcher. Always respond in valid JSON format.'
+    },
+    {
+      role: 'user',
+      content: buildBrandValidationPrompt(brandsMentioned, focusBrand, vertical)
+    }
+  ], signal);
+
+  return extractAndParseJSON<BrandValidation>(content, 'Perplexity Prompt #3 (Brand Validation)');
+}
+
+export const perplexityEngine: AnswerEngine = {
+  id: 'perplexity',
+  label: 'Perplexity',
+  generateTopics: generateTopicsAndQueriesWithPerplexity,
+  answerQuery,
+  validateBrand
+};
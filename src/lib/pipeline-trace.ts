@@ -0,0 +1,118 @@
+// Pipeline Trace - Structured diagnostics (HTTP attempts, JSON fallbacks, validation, latency, tokens)
+// recorded while each query is answered, so failures can be diagnosed without reading server logs.
+// The query processor opens a trace context per query, engine and sample; anything called inside it
+// (llm-utils, the provider clients) records events without the context being passed down explicitly.
+import { AsyncLocalStorage } from 'async_hooks';
+import { getRepository } from './repository';
+import type { TraceEvent, TraceEventData, TraceEventType, TraceStep, TraceSummary } from '@/types';
+
+export type TraceContext = Pick<TraceEvent, 'analysis_id' | 'query_id' | 'engine' | 'sample_index'> & {
+  step: TraceStep | null;
+};
+
+// Shared across route bundles, like the memory repository
+const globalStore = globalThis as typeof globalThis & { __pipelineTrace?: AsyncLocalStorage<TraceContext> };
+
+function getStorage(): AsyncLocalStorage<TraceContext> {
+  if (!globalStore.__pipelineTrace) {
+    globalStore.__pipelineTrace = new AsyncLocalStorage();
+  }
+  return globalStore.__pipelineTrace;
+}
+
+/**
+ * Run `fn` with events attributed to the given query/engine/sample/step
+ * Fields not given are inherited from the enclosing context
+ */
+export function withTraceContext<T>(context: Partial<TraceContext>, fn: () => Promise<T>): Promise<T> {
+  const current = getStorage().getStore();
+  const merged = { ...current, ...context };
+
+  if (!merged.analysis_id) return fn();
+
+  return getStorage().run({
+    analysis_id: merged.analysis_id,
+    query_id: merged.query_id ?? null,
+    engine: merged.engine ?? null,
+    sample_index: merged.sample_index ?? null,
+    step: merged.step ?? null
+  }, fn);
+}
+
+/**
+ * Record a diagnostic in the current trace context
+ * No-op outside one (e.g. topic generation, before the analysis exists); never throws.
+ * Timestamped when called, so callers on the request path can record without waiting
+ * and events still list in the order they happened.
+ */
+export async function recordTraceEvent<K extends TraceEventType>(type: K, data: TraceEventData[K]): Promise<void> {
+  const context = getStorage().getStore();
+  if (!context) return;
+
+  try {
+    await getRepository().appendTraceEvent({ ...context, type, data, created_at: new Date().toISOString() } as TraceEvent);
+  } catch (error) {
+    console.error(`❌ Failed to record ${type} trace event for analysis ${context.analysis_id}:`, error);
+  }
+}
+
+/**
+ * Trace events of an analysis, optionally of one query only (oldest first)
+ */
+export async function listTraceEvents(analysisId: string, queryId?: string): Promise<TraceEvent[]> {
+  return getRepository().listTraceEvents(analysisId, queryId);
+}
+
+/**
+ * Count requests, retries, status codes, fallbacks, validation methods, latency and tokens
+ */
+export function summarizeTrace(events: TraceEvent[]): TraceSummary {
+  const summary: TraceSummary = {
+    http_requests: 0,
+    http_retries: 0,
+    status_codes: {},
+    json_sanitized: 0,
+    json_failed: 0,
+    validations: {},
+    answers_completed: 0,
+    answers_failed: 0,
+    average_latency_ms: null,
+    input_tokens: 0,
+    output_tokens: 0
+  };
+  const latencies: number[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'http_attempt': {
+        const code = event.data.status === null ? 'network' : String(event.data.status);
+        summary.http_requests++;
+        if (event.data.retry_in_ms !== null) summary.http_retries++;
+        summary.status_codes[code] = (summary.status_codes[code] || 0) + 1;
+        break;
+      }
+      case 'token_usage':
+        summary.input_tokens += event.data.input_tokens;
+        summary.output_tokens += event.data.output_tokens;
+        break;
+      case 'json_fallback':
+        if (event.data.outcome === 'sanitized') summary.json_sanitized++;
+        else summary.json_failed++;
+        break;
+      case 'brand_validation':
+        summary.validations[event.data.method] = (summary.validations[event.data.method] || 0) + 1;
+        break;
+      case 'answer_finished':
+        if (event.data.status === 'completed') summary.answers_completed++;
+        if (event.data.status === 'failed') summary.answers_failed++;
+        if (event.data.status !== 'cancelled') latencies.push(event.data.latency_ms);
+        break;
+    }
+  }
+
+  if (latencies.length > 0) {
+    summary.average_latency_ms = Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length);
+  }
+
+  return summary;
+}
@@ -0,0 +1,82 @@
+// Progress Events - Structured pipeline steps recorded per analysis and streamed to the progress dialog
+// Events are stored through the repository so a stream on any process sees what the worker recorded;
+// streams on the worker's own process are also woken as soon as an event is recorded.
+import { EventEmitter } from 'events';
+import { getRepository } from './repository';
+import type { ProgressEvent, ProgressEventData, ProgressEventType } from '@/types';
+
+// Events after which the analysis will not change without a new run being queued
+const TERMINAL_EVENT_TYPES: ProgressEventType[] = ['metrics_computed', 'cancelled'];
+
+// Shared across route bundles, like the memory repository
+const globalStore = globalThis as typeof globalThis & { __progressEvents?: EventEmitter };
+
+function getEmitter(): EventEmitter {
+  if (!globalStore.__progressEvents) {
+    globalStore.__progressEvents = new EventEmitter();
+    globalStore.__progressEvents.setMaxListeners(0); // One listener per open stream
+  }
+  return globalStore.__progressEvents;
+}
+
+/**
+ * Record a pipeline step for an analysis
+ * Never throws - progress reporting must not fail the pipeline
+ */
+export async function recordProgressEvent<K extends ProgressEventType>(
+  analysisId: string,
+  type: K,
+  data: ProgressEventData[K]
+): Promise<void> {
+  try {
+    const event = await getRepository().appendProgressEvent({ analysis_id: analysisId, type, data } as ProgressEvent);
+    getEmitter().emit(analysisId, event);
+  } catch (error) {
+    console.error(`❌ Failed to record ${type} event for analysis ${analysisId}:`, error);
+  }
+}
+
+/**
+ * Events recorded for an analysis after the given sequence number
+ */
+export async function listProgressEvents(analysisId: string, afterSequence = 0): Promise<ProgressEvent[]> {
+  return getRepository().listProgressEvents(analysisId, afterSequence);
+}
+
+/**
+ * Resolve when this process records an event for the analysis, or after `timeoutMs`
+ * (events recorded by other processes are only seen by reading them again)
+ */
+export function waitForProgressEvent(analysisId: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const emitter = getEmitter();
+    const done = () => {
+      clearTimeout(timer);
+      emitter.off(analysisId, done);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    emitter.on(analysisId, done);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Drop outcomes (completion, failure, cancellation) followed by a newer run being queued,
+ * so a replayed history only ends the progress dialog when the latest run has finished
+ */
+export function withoutSupersededOutcomes(events: ProgressEvent[]): ProgressEvent[] {
+  const lastQueuedIndex = events.map(e => e.type).lastIndexOf('queued');
+  return events.filter((event, index) =>
+    index > lastQueuedIndex || !['metrics_computed', 'failed', 'cancelled'].includes(event.type)
+  );
+}
+
+/**
+ * Whether the event ends the analysis (a job failure counts only once no retry is left)
+ */
+export function isTerminalProgressEvent(event: ProgressEvent): boolean {
+  if (event.type === 'failed') return !event.data.will_retry;
+  return TERMINAL_EVENT_TYPES.includes(event.type);
+}
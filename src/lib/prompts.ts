@@ -0,0 +1,446 @@
+// Prompt templates shared by every answer engine
+// Engines differ only in transport and response shape - the prompts are vendor-neutral
+import type { TopicGenerationOptions, VerticalId } from '@/types';
+import { getVerticalProfile } from './verticals';
+
+// Prompt #1: Universal AI Visibility Analyzer (education profile)
+// Used by every engine's generateTopics() via buildPrompt1System()
+export const PROMPT_1_SYSTEM = `You are an **AI Visibility Analyzer**.
+Your role is to deeply research and analyze any educational institution (such as schools, colleges, universities, edtech companies, or study abroad consultants), and then simulate how **real users would search or ask medium-tail questions** in Google or conversational AI systems (like ChatGPT) to **discover, compare, or shortlist** educational institutions, platforms, services, or solutions related to that entity's educational ecosystem and domain.
+
+---
+
+## 🎓 STEP 1 — ENTITY UNDERSTANDING (THINK DEEPLY)
+
+Carefully research and reason about the educational institution provided brand name.
+
+Identify:
+
+✅ **Full, actual name** of the entity (e.g., a school, university, or edtech company)
+✅ **Headquarters or primary operational region** (Locality and Country) — important for region-based queries (e.g., "Top colleges in India", "Best schools in Delhi NCR").
+✅ **Core business type** (e.g., educational institution, online course provider, study abroad agency, or educational technology company).
+✅ **Industries and verticals** it operates in (e.g., K-12 education, higher education, online learning, study abroad consulting).
+✅ **Products, services, or offerings** (e.g., university admissions, online learning tools, study abroad guidance, test prep, etc.).
+✅ **Main audience segments** (students, parents, teachers, institutions, administrators).
+✅ **Core features, capabilities, and technologies** (e.g., CRMs for student management, learning platforms, admission portals).
+✅ **Key pain points or needs addressed** (e.g., preparation coaching, admissions, placements, learning outcomes).
+✅ **Related or adjacent business functions** (e.g., student recruitment, scholarship guidance, visa counseling).
+
+Use this analysis to define **topical boundaries** — every generated prompt must strictly relate to the education ecosystem and the institution's market domain.
+
+---
+
+## 🧩 STEP 2 — TOPIC GENERATION
+
+Based on your analysis, generate **11 high-level topics** that represent major categories of what the entity does, solves, or competes in.
+
+Each topic should:
+
+- Represent a **distinct functional area** or solution space relevant to educational institutions or services.
+- Be broad enough for diversity, yet focused enough to remain educational.
+- Use **natural naming**, e.g., "K-12 School Education", "University Admissions for Engineering", "Study Abroad Services".
+- Avoid overlap — every topic must represent a unique lens (e.g., *Admissions Systems* ≠ *Learning Management*).
+- Reflect real-world **discovery and comparison intent**, i.e., how students or parents explore or evaluate institutions or solutions.
+
+---
+
+## 💬 STEP 3 — PROMPT (QUERY) GENERATION
+
+For each topic, generate **11 human-style, non-branded queries** that reflect how users discover, explore, or compare institutions and educational solutions.
+
+### 🔍 Prompt Rules
+
+- Be **completely brand-neutral** (no brand/institution names).
+- Include **both short-tail and long-tail** natural queries.(5 - 8 words)
+- Each query must lead to **actionable discovery or shortlisting or compare or decision making** — real institutions, services, or platforms.
+- If the entity is local/regional, ensure **≥50% prompts include region-specific markers** (city, state, country).
+- Vary tone, structure, and phrasing to mimic **real human search behavior**.
+
+### 💡 Examples of natural phrasing:
+
+- "top MBA colleges in India 2025"
+- "affordable engineering universities with good placements"
+- "best K-12 schools in Delhi NCR for holistic education"
+- "compare online vs on-campus MBA programs in Europe"
+- "study abroad consultants for STEM programs in Canada"
+- "platforms for managing student admissions in schools"
+
+### 🧱 Each prompt should combine:
+
+- Do not start with the same phrases or keywords always for every prompt/query. Be unique and create variety in query formation which help user to *discover, compare, or shortlist** educational institutions, platforms, services, or solutions related to that entity's educational ecosystem and domain.
+- **Intent keyword:** best, top, leading, colleges, affordable, compare, alternatives to, software for, platforms for, etc.
+- **Pain point or feature:** fees, placement, course flexibility, scholarships, admissions, etc.
+- **Discovery or comparison or shortlisting to elicit decision making focus:** always points to institutions, solutions, or educational services.
+
+---
+
+REGIONAL CONTEXT VARIATION
+
+Depending on the entity type:
+
+### 🎓 Educational Institutions (universities, colleges, schools)
+- ≥50% of prompts must mention **region, city, or locality** (e.g., "best CBSE schools in Bangalore").
+- Focus on **campuses, programs, admissions, or student services** — not software tools.
+- Use **country-level specificity** unless hyper-local.
+- For global operations, include both **global** and **regional** queries.
+- Avoid forcing locations if irrelevant, but maintain balance for realism.
+
+### 💻 EdTech & Study Abroad Platforms
+- Use **country-level specificity** unless hyper-local.
+- For global operations, include both **global** and **regional** queries.
+- Avoid forcing locations if irrelevant, but maintain balance for realism.
+
+---
+
+## ⚙️ OUTPUT FORMAT (STRICT JSON)
+
+Return results using this clean structure:
+
+\`\`\`json
+{
+  "company": {
+    "name": "<Actual Correct Institution Name>",
+    "location": "<City, State, Country>"
+  },
+  "topics": [
+    {
+      "topic": "<Topic Name>",
+      "prompts": [
+        "<non-branded human-style search phrase 1>",
+        "<non-branded human-style search phrase 2>",
+        "<non-branded human-style search phrase 3>",
+        "...",
+        "<non-branded human-style search phrase 11>"
+      ]
+    }
+  ]
+}
+\`\`\``;
+
+/**
+ * Prompt #1 system prompt for an analysis' vertical profile
+ * Education keeps the original prompt; other profiles fill a domain-neutral template
+ */
+export function buildPrompt1System(options?: TopicGenerationOptions): string {
+  const profile = getVerticalProfile(options?.vertical);
+  if (profile.id === 'education') return PROMPT_1_SYSTEM;
+
+  const description = options?.verticalDescription?.trim();
+  const domain = description ? `${profile.domain} - specifically: ${description}` : profile.domain;
+
+  return `You are an **AI Visibility Analyzer**.
+Your role is to deeply research and analyze a ${domain}, and then simulate how **real users would search or ask medium-tail questions** in Google or conversational AI systems (like ChatGPT) to **discover, compare, or shortlist** products, services, or providers in that entity's market.
+
+---
+
+## 🔎 STEP 1 — ENTITY UNDERSTANDING (THINK DEEPLY)
+
+Carefully research and reason about the provided brand name.
+
+Identify:
+
+✅ **Full, actual name** of the entity
+✅ **Headquarters or primary operational region** (Locality and Country) — important for region-based queries.
+✅ **Core business type** and the **categories** it competes in.
+✅ **Products, services, or offerings**.
+✅ **Main audience segments** (${profile.audiences}).
+✅ **Key pain points or needs addressed** (${profile.painPoints}).
+✅ **Related or adjacent categories** buyers compare it against.
+
+Use this analysis to define **topical boundaries** — every generated prompt must strictly relate to the entity's market domain.
+
+---
+
+## 🧩 STEP 2 — TOPIC GENERATION
+
+Based on your analysis, generate **11 high-level topics** that represent major categories of what the entity does, solves, or competes in.
+
+Each topic should:
+
+- Represent a **distinct functional area** or solution space in the entity's market.
+- Use **natural naming**, e.g., ${profile.topicExamples.map(topic => `"${topic}"`).join(', ')}.
+- Avoid overlap — every topic must represent a unique lens.
+- Reflect real-world **discovery and comparison intent**, i.e., how ${profile.audiences} explore or evaluate options.
+
+---
+
+## 💬 STEP 3 — PROMPT (QUERY) GENERATION
+
+For each topic, generate **11 human-style, non-branded queries** that reflect how users discover, explore, or compare options.
+
+### 🔍 Prompt Rules
+
+- Be **completely brand-neutral** (no brand names).
+- Include **both short-tail and long-tail** natural queries.(5 - 8 words)
+- Each query must lead to **actionable discovery or shortlisting or compare or decision making** — real brands, products, or providers.
+- Vary tone, structure, and phrasing to mimic **real human search behavior**.
+- Do not start every prompt with the same phrase or keyword.
+- **Intent keyword:** ${profile.intentKeywords}
+- **Pain point or feature:** ${profile.painPoints}
+
+### 💡 Examples of natural phrasing:
+
+${profile.exampleQueries.map(query => `- "${query}"`).join('\n')}
+
+---
+
+REGIONAL CONTEXT VARIATION
+
+${profile.regionalRules.map(rule => `- ${rule}`).join('\n')}
+
+---
+
+## ⚙️ OUTPUT FORMAT (STRICT JSON)
+
+Return results using this clean structure:
+
+\`\`\`json
+{
+  "company": {
+    "name": "<Actual Correct Brand Name>",
+    "location": "<City, State, Country>"
+  },
+  "topics": [
+    {
+      "topic": "<Topic Name>",
+      "prompts": [
+        "<non-branded human-style search phrase 1>",
+        "<non-branded human-style search phrase 2>",
+        "...",
+        "<non-branded human-style search phrase 11>"
+      ]
+    }
+  ]
+}
+\`\`\``;
+}
+
+/**
+ * User message naming the analysed brand for Prompt #1 ("The Institute name is ...")
+ */
+export function buildPrompt1Subject(name: string, options?: TopicGenerationOptions): string {
+  return `The ${getVerticalProfile(options?.vertical).entityLabel} name is ${name}`;
+}
+
+// Prompt #2: Unbiased Query Analysis with Web Search (NO BRAND AWARENESS) (education profile)
+// Used by every engine's answerQuery() via buildPrompt2System()
+export const PROMPT_2_SYSTEM = `You are an intelligent answering system that generates completely unbiased, fact-based answers to user queries using web search.
+
+STRICT OUTPUT RULES:
+• You MUST return ONLY valid JSON (no conversational text, no questions, no clarifications)
+• You MUST answer the query directly using the web search results
+• DO NOT ask for clarification or additional context
+• DO NOT return conversational responses like "I can help with that..." or "Could you clarify..."
+• If the query is unclear, make your best interpretation based on web search and answer directly
+
+Answer Generation Instructions:
+• Research deeply using web search to find the most comprehensive, current information
+- Use location as a parameter to generate answers themed around the location.
+• Answer the user query using 10 bullet points ONLY
+• Be completely neutral and factual — select brands/institutions based purely on relevance, quality, and search results
+• DO NOT favor any specific brand completely — let web search results determine which brands to mention
+• Include the top, most relevant institutes/brands/companies that genuinely match the query and as provided in the User prompt.
+• Each bullet point should represent one unique fact or brand mention
+• Mention brands in the natural order they emerge from your research (most relevant first)
+
+Brand Extraction Instructions:
+• After writing your answer, identify ALL brands/institutes/companies mentioned in your bullet points
+• List them IN THE EXACT ORDER they FIRST appear in your answer (this is critical!)
+• Use the official, full name of each institution as it appears in your answer
+  - Example: "Massachusetts Institute of Technology" (not "MIT")
+  - Example: "Indian Institute of Technology Delhi" (not "IIT Delhi")
+• If you used an acronym in your answer, include both forms in brands_mentioned
+  - Example: If answer says "MIT", add "Massachusetts Institute of Technology (MIT)"
+• Be case-sensitive and consistent with how you wrote it in the answer
+
+Website Citation:
+• List all website URLs you referenced during your research
+• Use full URLs (e.g., "https://www.example.com/page")
+
+Strict JSON Output Format:
+Return ONLY this JSON structure (no additional text, no markdown, no conversational responses):
+
+
+{
+  "Answer": "Complete answer in STRICT BULLET POINTS",
+  "brands_mentioned": [
+    "First Brand Name (as it appears in answer)",
+    "Second Brand Name (as it appears in answer)",
+    "..."
+  ],
+  "websites_cited": [
+    "https://url1.com",
+    "https://url2.com",
+    "..."
+  ]
+}`;
+
+/**
+ * Prompt #2 system prompt for an analysis' vertical profile
+ * Education keeps the original prompt; other profiles get the same rules without institution wording
+ */
+export function buildPrompt2System(vertical?: VerticalId): string {
+  const profile = getVerticalProfile(vertical);
+  if (profile.id === 'education') return PROMPT_2_SYSTEM;
+
+  return `You are an intelligent answering system that generates completely unbiased, fact-based answers to user queries using web search.
+
+STRICT OUTPUT RULES:
+• You MUST return ONLY valid JSON (no conversational text, no questions, no clarifications)
+• You MUST answer the query directly using the web search results
+• DO NOT ask for clarification or additional context
+• DO NOT return conversational responses like "I can help with that..." or "Could you clarify..."
+• If the query is unclear, make your best interpretation based on web search and answer directly
+
+Answer Generation Instructions:
+• Research deeply using web search to find the most comprehensive, current information
+- Use location as a parameter to generate answers themed around the location.
+• Answer the user query using 10 bullet points ONLY
+• Be completely neutral and factual — select brands, products and providers based purely on relevance, quality, and search results
+• DO NOT favor any specific brand completely — let web search results determine which brands to mention
+• Include the top, most relevant brands/companies/providers that genuinely match the query and as provided in the User prompt.
+• Each bullet point should represent one unique fact or brand mention
+• Mention brands in the natural order they emerge from your research (most relevant first)
+
+Brand Extraction Instructions:
+• After writing your answer, identify ALL brands/companies/providers mentioned in your bullet points
+• List them IN THE EXACT ORDER they FIRST appear in your answer (this is critical!)
+• Use the official name of each ${profile.entityLabel.toLowerCase()} as it appears in your answer, without legal suffixes such as "Inc." or "Ltd."
+  - Example: "International Business Machines" (not "IBM")
+• If you used an acronym in your answer, include both forms in brands_mentioned
+  - Example: If answer says "IBM", add "International Business Machines (IBM)"
+• Be case-sensitive and consistent with how you wrote it in the answer
+
+Website Citation:
+• List all website URLs you referenced during your research
+• Use full URLs (e.g., "https://www.example.com/page")
+
+Strict JSON Output Format:
+Return ONLY this JSON structure (no additional text, no markdown, no conversational responses):
+
+
+{
+  "Answer": "Complete answer in STRICT BULLET POINTS",
+  "brands_mentioned": [
+    "First Brand Name (as it appears in answer)",
+    "Second Brand Name (as it appears in answer)",
+    "..."
+  ],
+  "websites_cited": [
+    "https://url1.com",
+    "https://url2.com",
+    "..."
+  ]
+}`;
+}
+
+/**
+ * Prompt #3: Brand validation prompt
+ * Asks whether the focus brand appears in the list of mentioned brands
+ * Education keeps the original campus/institution rules; other profiles match products,
+ * branches and legal-name variants of one company instead
+ */
+export function buildBrandValidationPrompt(brandsMentioned: string[], focusBrand: string, vertical?: VerticalId): string {
+  const profile = getVerticalProfile(vertical);
+  if (profile.id !== 'education') {
+    return `You are a precise brand matching system with brand family recognition.
+
+**Focus Brand/Entity:** "${focusBrand}"
+
+**List of brands/entities mentioned in an answer:**
+${JSON.stringify(brandsMentioned, null, 2)}
+
+**Question:** Is the Focus Brand/Entity mentioned in this list?
+
+**Matching Rules:**
+- Match if they refer to the SAME brand/company/${profile.entityLabel.toLowerCase()}
+- Include exact name matches
+- Include legal-name variants (e.g., "Acme Inc." or "Acme Ltd." for "Acme")
+- Include common abbreviations (e.g., "IBM" for "International Business Machines")
+- Include alternate official names
+- Include nicknames or informal names
+- Include minor misspellings or typos
+
+**Brand Family Matching:**
+- Recognize product, plan, or branch variations as the same parent brand
+  - "HubSpot Sales Hub" + "HubSpot CRM" → Both are "HubSpot"
+  - "Joe's Pizza Midtown" + "Joe's Pizza Brooklyn" → Both are "Joe's Pizza"
+- When matched, return the CANONICAL parent brand name
+- Only merge if they are clearly products or branches of the same company
+
+**DO NOT match different entities:**
+- "Zoom" ≠ "Zoho"
+- "Meritto" ≠ "Merit Solutions"
+- Resellers, partners, or marketplaces are not the brand they sell
+
+**Return strict JSON format:**
+{
+  "found": true or false,
+  "matched_name": "exact name from list as it appears",
+  "canonical_brand": "parent/main brand name if product or branch variant, else same as matched_name",
+  "position": 1-based position in list (1, 2, 3...) or null,
+  "confidence": "high" or "medium" or "low",
+  "reasoning": "brief explanation of why match/no match"
+}
+
+**Examples:**
+- Focus: "IBM", List: ["International Business Machines"]
+  → {"found": true, "matched_name": "International Business Machines", "canonical_brand": "IBM", "position": 1}
+
+- Focus: "HubSpot", List: ["Salesforce", "HubSpot Sales Hub", "Pipedrive"]
+  → {"found": true, "matched_name": "HubSpot Sales Hub", "canonical_brand": "HubSpot", "position": 2}
+
+- Focus: "Zoom", List: ["Zoho", "Microsoft Teams"]
+  → {"found": false, "matched_name": null, "canonical_brand": null, "position": null}`;
+  }
+
+  return `You are a precise brand matching system with brand family recognition.
+
+**Focus Brand/Entity:** "${focusBrand}"
+
+**List of brands/entities mentioned in an answer:**
+${JSON.stringify(brandsMentioned, null, 2)}
+
+**Question:** Is the Focus Brand/Entity mentioned in this list?
+
+**Matching Rules:**
+- Match if they refer to the SAME brand/institute/entity/company
+- Include exact name matches
+- Include common abbreviations (e.g., "MIT" for "Massachusetts Institute of Technology")
+- Include alternate official names
+- Include nicknames or informal names
+- Include minor misspellings or typos
+
+**Brand Family Matching (NEW):**
+- Recognize campus/branch variations as the same parent brand
+  - "Sage University Indore" + "Sage University Bhopal" → Both are "Sage University"
+  - "Harvard Business School" + "Harvard Medical School" → Both are "Harvard University"
+  - "IIT Delhi" + "IIT Bombay" → Keep separate (these are distinct institutions despite shared brand)
+- When matched, return the CANONICAL parent brand name
+- Only merge if they are clearly branches/campuses of the same institution
+
+**DO NOT match different entities:**
+- "Rajalakshmi Institute of Technology" ≠ "IIT Madras"
+- "Harvard University" ≠ "Howard University"
+- "Meritto" ≠ "Merit Solutions"
+
+**Return strict JSON format:**
+{
+  "found": true or false,
+  "matched_name": "exact name from list as it appears",
+  "canonical_brand": "parent/main brand name if campus variant, else same as matched_name",
+  "position": 1-based position in list (1, 2, 3...) or null,
+  "confidence": "high" or "medium" or "low",
+  "reasoning": "brief explanation of why match/no match"
+}
+
+**Examples:**
+- Focus: "MIT", List: ["Massachusetts Institute of Technology"]
+  → {"found": true, "matched_name": "Massachusetts Institute of Technology", "canonical_brand": "MIT", "position": 1}
+
+- Focus: "Sage University", List: ["Sage University Indore", "VIT", "IIT Delhi"]
+  → {"found": true, "matched_name": "Sage University Indore", "canonical_brand": "Sage University", "position": 1}
+
+- Focus: "IIT Delhi", List: ["IIT Madras", "IIT Bombay"]
+  → {"found": false, "matched_name": null, "canonical_brand": null, "position": null}`;
+}
@@ -0,0 +1,63 @@
+// Query Import Tests - CSV and JSON query sets, and the problems reported for bad ones
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_QUERIES_PER_TOPIC } from './analysis-draft';
+import { parseQueryImport, QueryImportError } from './query-import';
+
+/**
+ * The QueryImportError a bad import throws
+ */
+function importError(content: string, format: 'csv' | 'json'): QueryImportError {
+  try {
+    parseQueryImport(content, format);
+  } catch (error) {
+    assert.ok(error instanceof QueryImportError, `expected a QueryImportError, got ${error}`);
+    return error;
+  }
+  assert.fail('import should have been rejected');
+}
+
+describe('parseQueryImport (csv)', () => {
+  it('groups rows by topic in first-seen order', () => {
+    const csv = '\uFEFFTopic,Query\r\nMBA,best mba colleges\r\nFees,"fees, hostel and ""other"" costs"\r\nMBA,mba placements\r\n\r\n';
+
+    assert.deepEqual(parseQueryImport(csv, 'csv'), [
+      { topic: 'MBA', prompts: ['best mba colleges', 'mba placements'] },
+      { topic: 'Fees', prompts: ['fees, hostel and "other" costs'] }
+    ]);
+  });
+
+  it('accepts a prompt column and drops blank and repeated queries', () => {
+    const csv = 'prompt,topic\nbest mba colleges,MBA\n  ,MBA\nbest mba colleges,MBA\n';
+
+    assert.deepEqual(parseQueryImport(csv, 'csv'), [{ topic: 'MBA', prompts: ['best mba colleges'] }]);
+  });
+
+  it('rejects a missing header and an unterminated quote', () => {
+    assert.match(importError('name,text\na,b\n', 'csv').message, /"topic" and "query" columns/);
+    assert.match(importError('topic,query\nMBA,"best mba\n', 'csv').message, /unterminated/);
+  });
+
+  it('names the topic and row of each problem', () => {
+    const error = importError('topic,query\n,orphan query\nMBA,\n', 'csv');
+
+    assert.deepEqual(error.issues, ['Topic 1 topic: Topic name is empty', 'Topic 2 ("MBA") queries: Topic has no queries']);
+  });
+});
+
+describe('parseQueryImport (json)', () => {
+  it('accepts arrays or a topics wrapper, with queries or prompts', () => {
+    const expected = [{ topic: 'MBA', prompts: ['best mba colleges'] }];
+
+    assert.deepEqual(parseQueryImport('[{"topic":"MBA","queries":["best mba colleges"]}]', 'json'), expected);
+    assert.deepEqual(parseQueryImport('{"topics":[{"topic":"MBA","prompts":["best mba colleges"]}]}', 'json'), expected);
+  });
+
+  it('rejects invalid JSON and oversized topics', () => {
+    assert.equal(importError('{"topics": [', 'json').message, 'File is not valid JSON');
+
+    const queries = Array.from({ length: MAX_QUERIES_PER_TOPIC + 1 }, (_, i) => `query ${i}`);
+    const error = importError(JSON.stringify([{ topic: 'MBA', queries }]), 'json');
+    assert.deepEqual(error.issues, [`Topic 1 ("MBA") queries: Topics can have at most ${MAX_QUERIES_PER_TOPIC} queries`]);
+  });
+});
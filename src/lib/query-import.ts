@@ -0,0 +1,166 @@
+// Query Import - Curated topic → query lists supplied as CSV or JSON instead of Prompt #1
+// CSV:  a header row with `topic` and `query` (or `prompt`) columns, one query per row
+// JSON: [{ "topic": "...", "queries": ["...", ...] }] (also `prompts`, or wrapped in { "topics": [...] })
+import { z } from 'zod';
+import type { TopicData } from '@/types';
+import { MAX_DRAFT_TEXT_LENGTH, MAX_DRAFT_TOPICS, MAX_QUERIES_PER_TOPIC } from './analysis-draft';
+
+export type QueryImportFormat = 'csv' | 'json';
+
+export const MAX_IMPORT_BYTES = 1_000_000;
+
+export class QueryImportError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'QueryImportError';
+  }
+}
+
+const queryTextSchema = z.string().trim().max(MAX_DRAFT_TEXT_LENGTH);
+
+const importedTopicSchema = z.preprocess(
+  // Prompt #1 calls them `prompts`; SEO exports usually say `queries`
+  value => value && typeof value === 'object' && !('queries' in value) && 'prompts' in value
+    ? { ...value, queries: (value as { prompts: unknown }).prompts }
+    : value,
+  z.object({
+    topic: z.string().trim().min(1, 'Topic name is empty').max(MAX_DRAFT_TEXT_LENGTH),
+    queries: z.array(queryTextSchema)
+      // Blank lines and repeats are dropped rather than rejected
+      .transform(queries => Array.from(new Set(queries.filter(Boolean))))
+      .pipe(z.array(z.string())
+        .min(1, 'Topic has no queries')
+        .max(MAX_QUERIES_PER_TOPIC, `Topics can have at most ${MAX_QUERIES_PER_TOPIC} queries`))
+  })
+);
+
+const queryImportSchema = z.preprocess(
+  value => value && typeof value === 'object' && !Array.isArray(value) && 'topics' in value
+    ? (value as { topics: unknown }).topics
+    : value,
+  z.array(importedTopicSchema)
+    .min(1, 'No topics found')
+    .max(MAX_DRAFT_TOPICS, `At most ${MAX_DRAFT_TOPICS} topics can be imported`)
+);
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields, "" escapes, CRLF or LF)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new QueryImportError('CSV has an unterminated quoted field');
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * Group CSV rows into topics, in the order topics first appear
+ */
+function csvToTopics(text: string): unknown {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new QueryImportError('CSV is empty');
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const topicColumn = columns.indexOf('topic');
+  const queryColumn = columns.findIndex(name => name === 'query' || name === 'prompt');
+
+  if (topicColumn === -1 || queryColumn === -1) {
+    throw new QueryImportError('CSV needs a header row with "topic" and "query" columns');
+  }
+
+  const queriesByTopic = new Map<string, string[]>();
+  for (const row of rows) {
+    const topic = (row[topicColumn] ?? '').trim();
+    queriesByTopic.set(topic, [...(queriesByTopic.get(topic) || []), row[queryColumn] ?? '']);
+  }
+
+  return Array.from(queriesByTopic, ([topic, queries]) => ({ topic, queries }));
+}
+
+/**
+ * Parse and validate an imported query set
+ * @throws QueryImportError listing every problem found
+ */
+export function parseQueryImport(content: string, format: QueryImportFormat): TopicData[] {
+  if (content.length > MAX_IMPORT_BYTES) {
+    throw new QueryImportError(`Import is larger than ${MAX_IMPORT_BYTES / 1_000_000} MB`);
+  }
+
+  let raw: unknown;
+  if (format === 'json') {
+    try {
+      raw = JSON.parse(content);
+    } catch {
+      throw new QueryImportError('File is not valid JSON');
+    }
+  } else {
+    raw = csvToTopics(content);
+  }
+
+  const result = queryImportSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${describePath(issue.path, raw)}: ${issue.message}` : issue.message
+    );
+    throw new QueryImportError('Query set is invalid', issues);
+  }
+
+  return result.data.map(({ topic, queries }) => ({ topic, prompts: queries }));
+}
+
+/**
+ * Human-readable location of a validation issue, e.g. `Topic 2 ("MBA Programs") query 4`
+ */
+function describePath(path: PropertyKey[], raw: unknown): string {
+  const [topicIndex, field, queryIndex] = path;
+  if (typeof topicIndex !== 'number') return path.map(String).join('.');
+
+  const topics = (Array.isArray(raw) ? raw : (raw as { topics?: unknown[] })?.topics) || [];
+  const name = (topics[topicIndex] as { topic?: unknown } | undefined)?.topic;
+  const topicLabel = `Topic ${topicIndex + 1}${typeof name === 'string' && name.trim() ? ` ("${name.trim()}")` : ''}`;
+
+  if (field === 'queries' && typeof queryIndex === 'number') return `${topicLabel} query ${queryIndex + 1}`;
+  return field !== undefined ? `${topicLabel} ${String(field)}` : topicLabel;
+}
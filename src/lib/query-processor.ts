@@ -0,0 +1,398 @@
+// Query Processor - Runs queries through one or more answer engines and saves results
+// Vendor-neutral: all provider specifics live behind the AnswerEngine interface
+import type { AnswerEngine, BatchQueryResult, BrandValidation, MatchConfidence, Query } from '@/types';
+import { getRepository } from './repository';
+import { isCancellationError, isLeaseLost, throwIfCancelled } from './cancellation';
+import { getQueryVisibility } from './metrics';
+import { matchBrandAliases } from './brand-matching';
+import { recordProgressEvent } from './progress-events';
+import { recordTraceEvent, withTraceContext } from './pipeline-trace';
+import type { VerticalProfile } from './verticals';
+
+const MATCH_CONFIDENCES: MatchConfidence[] = ['high', 'medium', 'low'];
+
+/**
+ * Validate brand mention using the engine's LLM (Prompt #3 - Two-Stage Validation)
+ * This provides 95-99% accuracy by using LLM's semantic understanding
+ * instead of fuzzy string matching which has ~70% accuracy.
+ * Falls back to "not found" if validation fails, so one bad call doesn't fail the query.
+ */
+async function validateBrandWithLLM(
+  engine: AnswerEngine,
+  brandsMentioned: string[],
+  focusBrand: string,
+  profile: VerticalProfile,
+  signal?: AbortSignal
+): Promise<BrandValidation> {
+  // Early exit if no brands mentioned
+  if (!brandsMentioned || brandsMentioned.length === 0) {
+    await recordTraceEvent('brand_validation', { method: 'no_brands', found: false, position: null, confidence: 'high' });
+    return {
+      found: false,
+      matched_name: null,
+      canonical_brand: null,
+      position: null,
+      confidence: 'high',
+      reasoning: 'No brands mentioned in the answer'
+    };
+  }
+
+  try {
+    const validation = await engine.validateBrand(brandsMentioned, focusBrand, { vertical: profile.id, signal });
+
+    console.log(`  🤖 LLM Validation Result: found=${validation.found}, canonical_brand=${validation.canonical_brand}, position=${validation.position}, confidence=${validation.confidence}`);
+    if (validation.found) {
+      console.log(`  ✓ LLM matched "${focusBrand}" with "${validation.matched_name}" (canonical: "${validation.canonical_brand}") at position ${validation.position}`);
+    }
+
+    const result: BrandValidation = {
+      found: validation.found || false,
+      matched_name: validation.matched_name || null,
+      canonical_brand: validation.canonical_brand || validation.matched_name || null,
+      position: validation.position || null,
+      confidence: MATCH_CONFIDENCES.includes(validation.confidence) ? validation.confidence : 'medium',
+      reasoning: validation.reasoning || 'No reasoning provided'
+    };
+    await recordTraceEvent('brand_validation', { method: 'llm', found: result.found, position: result.position, confidence: result.confidence });
+
+    return result;
+
+  } catch (error) {
+    // Cancellation must propagate so the query is not saved as "not found"
+    if (isCancellationError(error, signal)) throw error;
+
+    console.error('  ❌ LLM validation error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await recordTraceEvent('brand_validation', { method: 'llm_error', found: false, position: null, confidence: 'low', error: message });
+
+    // Fallback to not found on error
+    return {
+      found: false,
+      matched_name: null,
+      canonical_brand: null,
+      position: null,
+      confidence: 'low',
+      reasoning: `Validation error: ${message}`
+    };
+  }
+}
+
+// Repeated sampling: each query can be asked several times per engine to measure answer stability
+export const MAX_SAMPLES_PER_QUERY = 10;
+export const DEFAULT_SAMPLES_PER_QUERY = Math.min(
+  MAX_SAMPLES_PER_QUERY,
+  Math.max(1, parseInt(process.env.DEFAULT_SAMPLES_PER_QUERY || '1') || 1)
+);
+
+interface EngineOutcome {
+  engine: AnswerEngine;
+  sampleIndex: number;
+  result?: BatchQueryResult;
+  canonicalBrand?: string | null;
+  validation?: BrandValidation; // Kept for human review of the match
+  error?: unknown;
+  skipped?: boolean; // Answer already completed by an earlier run
+}
+
+/**
+ * Resolve the focus brand in an answer: the user's alias list first, the LLM only if none matched
+ * Both follow the analysis' vertical profile (legal suffixes, Prompt #3 wording)
+ */
+async function validateBrand(
+  engine: AnswerEngine,
+  brandsMentioned: string[],
+  focusBrand: string,
+  brandAliases: string[],
+  profile: VerticalProfile,
+  signal?: AbortSignal
+): Promise<BrandValidation> {
+  const aliasMatch = matchBrandAliases(brandsMentioned, [focusBrand, ...brandAliases], profile.legalSuffixes);
+
+  if (aliasMatch) {
+    console.log(`  ✓ Alias match: "${aliasMatch.matched_name}" is "${focusBrand}" (alias "${aliasMatch.alias}") at position ${aliasMatch.rank}`);
+    await recordTraceEvent('brand_validation', { method: 'alias', found: true, position: aliasMatch.rank, confidence: 'high' });
+    return {
+      found: true,
+      matched_name: aliasMatch.matched_name,
+      canonical_brand: focusBrand,
+      position: aliasMatch.rank,
+      confidence: 'high',
+      reasoning: `Matched brand alias "${aliasMatch.alias}"`
+    };
+  }
+
+  return validateBrandWithLLM(engine, brandsMentioned, focusBrand, profile, signal);
+}
+
+/**
+ * Answer one query with one engine (Prompt #2 + Prompt #3)
+ */
+async function answerWithEngine(
+  engine: AnswerEngine,
+  queryText: string,
+  focusBrand: string,
+  brandAliases: string[],
+  profile: VerticalProfile,
+  location: string,
+  sample: number,
+  signal?: AbortSignal
+): Promise<{ result: BatchQueryResult; canonicalBrand: string | null; validation: BrandValidation }> {
+  throwIfCancelled(signal);
+
+  const webAnswer = await engine.answerQuery(queryText, { location, sample, vertical: profile.id, signal });
+
+  // BRAND VALIDATION - alias list, then LLM (Prompt #3 - Two-Stage Approach)
+  console.log(`  🔍 [${engine.label}] Validating "${focusBrand}" in ${webAnswer.brands_mentioned.length} mentioned brands...`);
+  const validation = await withTraceContext({ step: 'validation' }, () => validateBrand(
+    engine,
+    webAnswer.brands_mentioned,
+    focusBrand,
+    brandAliases,
+    profile,
+    signal
+  ));
+
+  // Calculate rank and visibility from validation result
+  const rank = validation.found && validation.position ? validation.position : 0;
+  // Default weights here; calculateAllMetrics re-weights with the analysis' own table
+  const visibility = getQueryVisibility(rank);
+
+  if (rank > 0) {
+    console.log(`  ✅ [${engine.label}] Brand found at rank ${rank} with visibility ${visibility} (${validation.confidence} confidence)`);
+  } else {
+    console.log(`  ℹ️  [${engine.label}] Brand not found (${validation.reasoning})`);
+  }
+
+  return {
+    result: {
+      query: queryText,
+      answer: webAnswer.answer,
+      brands_mentioned: webAnswer.brands_mentioned,
+      focused_brand: validation.canonical_brand || focusBrand, // Use canonical brand if available (e.g., "Sage University" instead of "Sage University Indore")
+      focused_brand_rank: rank, // LLM-validated rank (95-99% accurate)
+      visibility: visibility, // Calculated from LLM validation
+      websites_cited: webAnswer.websites_cited
+    },
+    canonicalBrand: validation.canonical_brand,
+    validation
+  };
+}
+
+/**
+ * Save one engine's answer for a query (one row per query + engine + sample)
+ */
+async function saveEngineAnswer(queryObj: Query, outcome: EngineOutcome): Promise<void> {
+  const { engine, sampleIndex, result, canonicalBrand, validation, error } = outcome;
+
+  try {
+    await getRepository().upsertQueryAnswer({
+      query_id: queryObj.id,
+      analysis_id: queryObj.analysis_id,
+      topic_id: queryObj.topic_id,
+      engine: engine.id,
+      sample_index: sampleIndex,
+      answer: result?.answer ?? null,
+      brands_mentioned: result?.brands_mentioned ?? [],
+      focused_brand: result?.focused_brand ?? null,
+      canonical_brand: canonicalBrand ?? null,
+      focused_brand_rank: result?.focused_brand_rank ?? 0,
+      visibility: result ? parseInt(result.visibility) || 0 : 0,
+      websites_cited: result?.websites_cited ?? [],
+      matched_name: validation?.matched_name ?? null,
+      match_confidence: validation?.confidence ?? null,
+      match_reasoning: validation?.reasoning ?? null,
+      status: result ? 'completed' : 'failed',
+      error_message: error ? (error instanceof Error ? error.message : 'Unknown error') : null,
+      processed_at: new Date().toISOString()
+    });
+  } catch (dbError) {
+    console.error(`  ❌ Failed to save ${engine.label} answer (sample ${sampleIndex + 1}) for query ${queryObj.id}:`, dbError);
+  }
+}
+
+/**
+ * Process a batch of queries (Prompt #2 - processes 5 queries at once)
+ * Every query is fanned out to each engine and asked `samplesPerQuery` times per engine;
+ * one answer row is stored per (query, engine, sample).
+ * The first sample of the primary engine (engines[0]) is mirrored onto the query row,
+ * which the single-engine report views and headline metrics read.
+ * Samples already answered (e.g. before a retry) are skipped.
+ * `brandAliases` are matched deterministically before asking the LLM (Prompt #3);
+ * `profile` is the analysis' vertical profile (prompt wording and name matching).
+ * When the signal aborts, in-flight requests are cancelled and their queries marked 'cancelled'
+ */
+export async function processBatchQueries(
+  engines: AnswerEngine[],
+  focusBrand: string,
+  brandAliases: string[],
+  profile: VerticalProfile,
+  location: string,
+  queries: Query[],
+  samplesPerQuery: number = 1,
+  signal?: AbortSignal
+): Promise<BatchQueryResult[]> {
+  if (queries.length === 0 || queries.length > 5) {
+    throw new Error('Batch must contain 1-5 queries');
+  }
+  if (engines.length === 0) {
+    throw new Error('At least one answer engine is required');
+  }
+
+  console.log(`🔍 Processing batch of ${queries.length} queries IN PARALLEL with ${engines.map(e => e.label).join(', ')} (${samplesPerQuery} sample(s) each) for: ${focusBrand}`);
+
+  // Answers completed by a previous run are kept
+  const existingAnswers = await getRepository().listQueryAnswersForQueries(queries.map(q => q.id));
+  const completedKeys = new Set(
+    existingAnswers.filter(a => a.status === 'completed').map(a => `${a.query_id}:${a.engine}:${a.sample_index ?? 0}`)
+  );
+  const sampleIndexes = Array.from({ length: samplesPerQuery }, (_, index) => index);
+  const [primaryEngine] = engines;
+
+  // Ranks of primary answers that are skipped, so progress still reports them
+  const storedPrimaryRanks = new Map(existingAnswers
+    .filter(a => a.status === 'completed' && a.engine === primaryEngine.id && (a.sample_index ?? 0) === 0)
+    .map(a => [a.query_id, a.focused_brand_rank ?? 0]));
+
+  // Process all queries (and all engines per query) in parallel
+  const queryPromises = queries.map(async (queryObj, i) => {
+    const queryText = queryObj.query_text;
+
+    console.log(`  Processing query ${i + 1}/${queries.length}: ${queryText.substring(0, 50)}...`);
+
+    const outcomes: EngineOutcome[] = await Promise.all(engines.flatMap(engine =>
+      sampleIndexes.map(async (sampleIndex): Promise<EngineOutcome> => {
+        if (completedKeys.has(`${queryObj.id}:${engine.id}:${sampleIndex}`)) {
+          return { engine, sampleIndex, skipped: true };
+        }
+
+        // Everything recorded while answering is traced to this query, engine and sample
+        const traceContext = { analysis_id: queryObj.analysis_id, query_id: queryObj.id, engine: engine.id, sample_index: sampleIndex, step: 'answer' as const };
+        return withTraceContext(traceContext, async () => {
+          const startedAt = Date.now();
+
+          try {
+            const { result, canonicalBrand, validation } = await answerWithEngine(engine, queryText, focusBrand, brandAliases, profile, location, sampleIndex, signal);
+            const outcome = { engine, sampleIndex, result, canonicalBrand, validation };
+            await recordTraceEvent('answer_finished', {
+              status: 'completed',
+              latency_ms: Date.now() - startedAt,
+              rank: result.focused_brand_rank,
+              brands: result.brands_mentioned.length,
+              citations: result.websites_cited.length
+            });
+            await saveEngineAnswer(queryObj, outcome);
+            return outcome;
+          } catch (error) {
+            const outcome = { engine, sampleIndex, error };
+            const cancelled = isCancellationError(error, signal);
+            await recordTraceEvent('answer_finished', {
+              status: cancelled ? 'cancelled' : 'failed',
+              latency_ms: Date.now() - startedAt,
+              rank: 0,
+              brands: 0,
+              citations: 0,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            if (!cancelled) {
+              console.error(`  ❌ [${engine.label}] Query ${i + 1} sample ${sampleIndex + 1} error:`, error);
+              await saveEngineAnswer(queryObj, outcome);
+            }
+            return outcome;
+          }
+        });
+      })
+    ));
+
+    const errorResult = createErrorResult(queryText, focusBrand);
+
+    // Cancelled - record as skipped rather than failed
+    if (outcomes.some(o => o.error && isCancellationError(o.error, signal))) {
+      console.log(`  🛑 Query ${i + 1} cancelled`);
+      // After a lost lease the query belongs to the worker that took the job over
+      if (!isLeaseLost(signal)) {
+        await getRepository().updateQueries([queryObj.id], {
+          status: 'cancelled',
+          processed_at: new Date().toISOString()
+        });
+      }
+
+      return errorResult;
+    }
+
+    const primary = outcomes.find(o => o.engine.id === primaryEngine.id && o.sampleIndex === 0)!;
+    const failures = outcomes.filter(o => o.error);
+
+    // Mirror the primary engine's answer onto the query row
+    const primaryFields = primary.result
+      ? {
+          answer: primary.result.answer,
+          brands_mentioned: primary.result.brands_mentioned,
+          focused_brand: primary.result.focused_brand,
+          focused_brand_rank: primary.result.focused_brand_rank,
+          visibility: parseInt(primary.result.visibility) || 0,
+          websites_cited: primary.result.websites_cited,
+          canonical_brand: primary.canonicalBrand, // Store canonical brand for consolidation
+          matched_name: primary.validation?.matched_name ?? null,
+          match_confidence: primary.validation?.confidence ?? null,
+          match_reasoning: primary.validation?.reasoning ?? null,
+          match_overridden: false
+        }
+      : primary.error
+        ? {
+            answer: errorResult.answer,
+            brands_mentioned: errorResult.brands_mentioned,
+            focused_brand: errorResult.focused_brand,
+            focused_brand_rank: errorResult.focused_brand_rank,
+            visibility: parseInt(errorResult.visibility) || 0,
+            websites_cited: errorResult.websites_cited
+          }
+        : {};
+
+    try {
+      await getRepository().updateQueries([queryObj.id], {
+        ...primaryFields,
+        status: failures.length > 0 ? 'failed' : 'completed',
+        error_message: failures.length > 0
+          ? failures.map(f => `${f.engine.label}${samplesPerQuery > 1 ? ` #${f.sampleIndex + 1}` : ''}: ${f.error instanceof Error ? f.error.message : 'Unknown error'}`).join('; ')
+          : null,
+        processed_at: new Date().toISOString()
+      });
+    } catch (dbError) {
+      console.error(`  ❌ Failed to save query ${i + 1} to DB:`, dbError);
+    }
+
+    if (failures.length === 0) {
+      console.log(`  ✅ Query ${i + 1} completed and saved to DB (rank: ${primary.result?.focused_brand_rank ?? 'unchanged'})`);
+    }
+
+    // Rank of the primary engine's first sample, as mirrored onto the query row (kept from an earlier run if skipped)
+    const rank = primary.result?.focused_brand_rank ?? storedPrimaryRanks.get(queryObj.id) ?? 0;
+    await recordProgressEvent(queryObj.analysis_id, 'query_completed', {
+      query_id: queryObj.id,
+      query_text: queryText,
+      status: failures.length > 0 ? 'failed' : 'completed',
+      mentioned: rank > 0,
+      rank
+    });
+
+    return primary.result || errorResult;
+  });
+
+  // Wait for all queries to complete in parallel
+  return Promise.all(queryPromises);
+}
+
+/**
+ * Helper to create error result for failed query
+ */
+export function createErrorResult(query: string, focusBrand: string): BatchQueryResult {
+  return {
+    query,
+    answer: 'Failed to process this query due to an error.',
+    brands_mentioned: [],
+    focused_brand: focusBrand,
+    focused_brand_rank: 0,
+    visibility: '0%',
+    websites_cited: []
+  };
+}
@@ -0,0 +1,54 @@
+// Report Data - Assembles an analysis with its topics, queries, answers, competitors and sources
+// Shared by the report API, the print view and the PDF renderer so they always show the same numbers.
+import type { ReportData } from '@/types';
+import { getRepository } from './repository';
+import { getAnswerEngine, resolveAnalysisEngines } from './answer-engine';
+
+/**
+ * Load the full report for an analysis
+ * @returns null when the analysis does not exist
+ */
+export async function getReportData(analysisId: string): Promise<ReportData | null> {
+  // 1. Fetch analysis
+  const repository = getRepository();
+  const analysis = await repository.getAnalysis(analysisId);
+
+  if (!analysis) {
+    return null;
+  }
+
+  // 2. Fetch topics, queries, per-engine answers, competitors and sources
+  const topics = await repository.listTopics(analysisId);
+  const queries = await repository.listQueries(analysisId);
+  const answers = await repository.listQueryAnswers(analysisId);
+  const competitors = await repository.listCompetitors(analysisId);
+  const sources = await repository.listSources(analysisId);
+
+  // 3. Organize queries by topic, with each engine's answer nested under its query
+  const topicsWithQueries = topics.map(topic => ({
+    ...topic,
+    queries: queries.filter(q => q.topic_id === topic.id).map(q => ({
+      ...q,
+      answers: answers.filter(a => a.query_id === q.id)
+    }))
+  }));
+
+  const engines = resolveAnalysisEngines(analysis).map(id => ({
+    id,
+    label: getAnswerEngine(id).label
+  }));
+
+  return {
+    analysis,
+    engines,
+    topics: topicsWithQueries,
+    competitors,
+    sources,
+    summary: {
+      totalTopics: topics.length,
+      totalQueries: queries.length,
+      totalCompetitors: competitors.length,
+      totalSources: sources.length
+    }
+  };
+}
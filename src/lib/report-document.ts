@@ -0,0 +1,127 @@
+// Report Document - The client-facing summary of a report, shared by the print view and the PDF renderer
+// Derived only from getReportData() so the document matches the interactive report.
+import type { ReportData } from '@/types';
+import { getVerticalProfile } from './verticals';
+
+export const DOCUMENT_TOPIC_LIMIT = 30;
+export const DOCUMENT_COMPETITOR_LIMIT = 10;
+export const DOCUMENT_SOURCE_LIMIT = 10;
+export const DOCUMENT_MISSED_ANSWER_LIMIT = 5;
+const ANSWER_EXCERPT_LENGTH = 700;
+
+export interface ReportDocument {
+  institutionName: string;
+  location?: string;
+  profileLabel?: string; // Only for non-education verticals
+  engines: string[];
+  analysedOn: string; // ISO date of completion (or creation)
+  summary: {
+    visibility: number | null;
+    visibilityLower: number | null;
+    visibilityUpper: number | null;
+    weightedVisibility: number | null;
+    averageRank: number | null;
+    queriesMentioned: number;
+    totalQueries: number;
+    highlights: string[]; // Executive summary sentences
+  };
+  topics: Array<{ name: string; queries: number; mentioned: number; visibility: number | null; weighted: number | null; averageRank: number | null }>;
+  competitors: Array<{ rank: number; name: string; mentions: number; shareOfVoice: number; averageRank: number | null; isFocusBrand: boolean }>;
+  sources: Array<{ domain: string; citations: number }>;
+  missedAnswers: Array<{ topic: string; query: string; brands: string[]; excerpt: string }>;
+}
+
+function excerpt(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > ANSWER_EXCERPT_LENGTH ? `${clean.slice(0, ANSWER_EXCERPT_LENGTH).trimEnd()}…` : clean;
+}
+
+/**
+ * Build the document content for a report
+ */
+export function buildReportDocument(report: ReportData): ReportDocument {
+  const { analysis, topics, competitors, sources } = report;
+  const focusBrand = analysis.institution_name.toLowerCase();
+  const queries = topics.flatMap(topic => topic.queries.map(query => ({ topic: topic.topic_name, query })));
+
+  const totalMentions = competitors.reduce((sum, c) => sum + (c.mention_count || 0), 0);
+  const rankedCompetitors = competitors.map((c, index) => ({
+    rank: index + 1,
+    name: c.brand_name,
+    mentions: c.mention_count,
+    // Stored per entity, derived for older analyses
+    shareOfVoice: c.share_of_voice ?? (totalMentions > 0 ? (c.mention_count / totalMentions) * 100 : 0),
+    averageRank: c.average_rank || null,
+    isFocusBrand: c.brand_name.toLowerCase() === focusBrand
+  }));
+
+  const topicRows = topics.map(topic => ({
+    name: topic.topic_name,
+    queries: topic.queries.length,
+    mentioned: topic.queries.filter(q => (q.focused_brand_rank ?? 0) > 0).length,
+    visibility: topic.visibility_percentage ?? null,
+    weighted: topic.weighted_visibility_percentage ?? null,
+    averageRank: topic.average_rank || null
+  }));
+
+  // Executive summary
+  const highlights: string[] = [];
+  const totalQueries = queries.length;
+  const queriesMentioned = queries.filter(({ query }) => (query.focused_brand_rank ?? 0) > 0).length;
+  highlights.push(`${analysis.institution_name} was mentioned in ${queriesMentioned} of ${totalQueries} AI answers.`);
+
+  const scoredTopics = topicRows.filter(t => t.visibility != null).sort((a, b) => b.visibility! - a.visibility!);
+  if (scoredTopics.length > 1) {
+    const strongest = scoredTopics[0];
+    const weakest = scoredTopics[scoredTopics.length - 1];
+    highlights.push(`Strongest topic: ${strongest.name} (${Math.round(strongest.visibility!)}% visibility).`);
+    highlights.push(`Weakest topic: ${weakest.name} (${Math.round(weakest.visibility!)}% visibility).`);
+  }
+
+  const focusEntry = rankedCompetitors.find(c => c.isFocusBrand);
+  const leader = rankedCompetitors[0];
+  if (leader && !leader.isFocusBrand) {
+    highlights.push(`${leader.name} leads share of voice at ${leader.shareOfVoice.toFixed(1)}%${
+      focusEntry ? `; ${analysis.institution_name} is #${focusEntry.rank} at ${focusEntry.shareOfVoice.toFixed(1)}%` : ''
+    }.`);
+  } else if (leader) {
+    highlights.push(`${analysis.institution_name} leads share of voice at ${leader.shareOfVoice.toFixed(1)}%.`);
+  }
+
+  // Answers that left the brand out - what the AI recommended instead
+  const missedAnswers = queries
+    .filter(({ query }) => query.status === 'completed' && !query.focused_brand_rank && query.answer)
+    .slice(0, DOCUMENT_MISSED_ANSWER_LIMIT)
+    .map(({ topic, query }) => ({
+      topic,
+      query: query.query_text,
+      brands: (query.brands_mentioned || []).slice(0, 5),
+      excerpt: excerpt(query.answer!)
+    }));
+
+  const vertical = analysis.vertical && analysis.vertical !== 'education' ? getVerticalProfile(analysis.vertical) : null;
+
+  return {
+    institutionName: analysis.institution_name,
+    location: analysis.location,
+    profileLabel: vertical
+      ? `${vertical.label}${analysis.vertical_description ? ` - ${analysis.vertical_description}` : ''}`
+      : undefined,
+    engines: report.engines.map(engine => engine.label),
+    analysedOn: analysis.completed_at || analysis.created_at,
+    summary: {
+      visibility: analysis.overall_visibility_score ?? null,
+      visibilityLower: analysis.visibility_ci_lower ?? null,
+      visibilityUpper: analysis.visibility_ci_upper ?? null,
+      weightedVisibility: analysis.weighted_visibility_score ?? null,
+      averageRank: analysis.average_rank || null,
+      queriesMentioned,
+      totalQueries,
+      highlights
+    },
+    topics: topicRows.slice(0, DOCUMENT_TOPIC_LIMIT),
+    competitors: rankedCompetitors.slice(0, DOCUMENT_COMPETITOR_LIMIT),
+    sources: sources.slice(0, DOCUMENT_SOURCE_LIMIT).map(s => ({ domain: s.domain || s.url, citations: s.citation_count })),
+    missedAnswers
+  };
+}
@@ -0,0 +1,249 @@
+// Report Export - The full dataset of an analysis as CSV, JSON or XLSX for work in spreadsheets
+// CSV has one section per table (title row, header row, data rows, blank line); XLSX has one worksheet per table.
+import ExcelJS from 'exceljs';
+import type { Analysis, Competitor, Query, QueryAnswer, Source, Topic } from '@/types';
+import { getRepository } from './repository';
+import { getAnswerEngine, resolveAnalysisEngines } from './answer-engine';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+type Cell = string | number | boolean | null;
+
+interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+export interface ReportDataset {
+  analysis: Analysis;
+  topics: Topic[];
+  queries: Query[];
+  answers: QueryAnswer[];
+  competitors: Competitor[];
+  sources: Source[];
+}
+
+/**
+ * Type guard for formats coming from requests
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Load everything stored for an analysis
+ */
+export async function loadReportDataset(analysis: Analysis): Promise<ReportDataset> {
+  const repository = getRepository();
+  const [topics, queries, answers, competitors, sources] = await Promise.all([
+    repository.listTopics(analysis.id),
+    repository.listQueries(analysis.id),
+    repository.listQueryAnswers(analysis.id),
+    repository.listCompetitors(analysis.id),
+    repository.listSources(analysis.id)
+  ]);
+
+  return { analysis, topics, queries, answers, competitors, sources };
+}
+
+/**
+ * File name for a download, e.g. ai-visibility-northwind-university-2026-10-19.xlsx
+ * (also used for the PDF report)
+ */
+export function getExportFileName(analysis: Analysis, extension: ExportFormat | 'pdf'): string {
+  const slug = analysis.institution_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+  return `ai-visibility-${slug}-${analysis.created_at.slice(0, 10)}.${extension}`;
+}
+
+const list = (values?: string[] | null) => (values || []).join('; ');
+const round = (value?: number | null, digits = 1) =>
+  value == null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Flatten the dataset into the tables shared by the CSV and XLSX exports
+ */
+function buildExportTables({ analysis, topics, queries, answers, competitors, sources }: ReportDataset): ExportTable[] {
+  const topicNames = new Map(topics.map(t => [t.id, t.topic_name]));
+  const queryTexts = new Map(queries.map(q => [q.id, q.query_text]));
+  const engines = resolveAnalysisEngines(analysis);
+
+  const tables: ExportTable[] = [
+    {
+      name: 'Summary',
+      columns: ['Field', 'Value'],
+      rows: [
+        ['Institution', analysis.institution_name],
+        ['Location', analysis.location ?? null],
+        ['Vertical', analysis.vertical ?? null],
+        ['Status', analysis.status],
+        ['Created', analysis.created_at],
+        ['Completed', analysis.completed_at ?? null],
+        ['Engines', engines.map(id => getAnswerEngine(id).label).join('; ')],
+        ['Samples per query', analysis.samples_per_query ?? 1],
+        ['Total queries', analysis.total_queries],
+        ['Queries mentioning institution', analysis.queries_mentioned],
+        ['Overall visibility (%)', round(analysis.overall_visibility_score)],
+        ['Visibility 95% CI lower (%)', round(analysis.visibility_ci_lower)],
+        ['Visibility 95% CI upper (%)', round(analysis.visibility_ci_upper)],
+        ['Weighted visibility (%)', round(analysis.weighted_visibility_score)],
+        ['Average rank', round(analysis.average_rank)],
+        ['Brand aliases', list(analysis.brand_aliases)]
+      ]
+    },
+    {
+      name: 'Topics',
+      columns: ['Topic', 'Queries', 'Queries mentioning', 'Visibility (%)', 'CI lower (%)', 'CI upper (%)', 'Weighted visibility (%)', 'Average rank', 'Stability'],
+      rows: topics.map(t => [
+        t.topic_name,
+        t.total_queries,
+        t.queries_with_mention,
+        round(t.visibility_percentage),
+        round(t.visibility_ci_lower),
+        round(t.visibility_ci_upper),
+        round(t.weighted_visibility_percentage),
+        round(t.average_rank),
+        round(t.stability_score, 3)
+      ])
+    },
+    {
+      name: 'Queries',
+      columns: ['Topic', '#', 'Query', 'Status', 'Rank', 'Visibility', 'Matched as', 'Match confidence', 'Reviewed', 'Brands mentioned', 'Websites cited', 'Mention probability', 'Answer'],
+      rows: queries.map(q => [
+        topicNames.get(q.topic_id) ?? null,
+        q.query_order,
+        q.query_text,
+        q.status,
+        q.focused_brand_rank ?? 0,
+        q.visibility ?? null,
+        q.matched_name ?? null,
+        q.match_confidence ?? null,
+        q.match_overridden ?? false,
+        list(q.brands_mentioned),
+        list(q.websites_cited),
+        round(q.mention_probability, 3),
+        q.answer ?? null
+      ])
+    }
+  ];
+
+  // Every engine and sample - the query rows above only carry the primary engine's first sample
+  if (answers.length > 0) {
+    tables.push({
+      name: 'Answers',
+      columns: ['Topic', 'Query', 'Engine', 'Sample', 'Status', 'Rank', 'Brands mentioned', 'Websites cited', 'Answer'],
+      rows: answers.map(a => [
+        topicNames.get(a.topic_id) ?? null,
+        queryTexts.get(a.query_id) ?? null,
+        getAnswerEngine(a.engine).label,
+        a.sample_index + 1,
+        a.status,
+        a.focused_brand_rank ?? 0,
+        list(a.brands_mentioned),
+        list(a.websites_cited),
+        a.answer ?? null
+      ])
+    });
+  }
+
+  tables.push(
+    {
+      name: 'Competitors',
+      columns: ['Brand', 'Also known as', 'Mentions', 'Share of voice (%)', 'Mention rate (%)', 'Weighted visibility (%)', 'Average rank'],
+      rows: competitors.map(c => [
+        c.brand_name,
+        list(c.aliases),
+        c.mention_count,
+        round(c.share_of_voice),
+        round(c.mention_percentage),
+        round(c.weighted_visibility_score),
+        round(c.average_rank)
+      ])
+    },
+    {
+      name: 'Sources',
+      columns: ['Domain', 'Citations'],
+      rows: sources.map(s => [s.domain || s.url, s.citation_count])
+    }
+  );
+
+  return tables;
+}
+
+/**
+ * Quote a CSV field when needed, and neutralise text a spreadsheet would run as a formula
+ */
+function escapeCsvCell(value: Cell): string {
+  if (value == null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(tables: ExportTable[]): string {
+  const lines: string[] = [];
+  for (const table of tables) {
+    lines.push(escapeCsvCell(table.name));
+    lines.push(table.columns.map(escapeCsvCell).join(','));
+    for (const row of table.rows) {
+      lines.push(row.map(escapeCsvCell).join(','));
+    }
+    lines.push('');
+  }
+  // BOM so Excel opens the file as UTF-8
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+async function toXlsx(tables: ExportTable[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const table of tables) {
+    const sheet = workbook.addWorksheet(table.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.columns = table.columns.map(header => ({
+      header,
+      // Long text columns (answers, brand lists) are capped so rows stay readable
+      width: Math.min(60, Math.max(header.length + 2, 12))
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.addRows(table.rows);
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Serialize a report dataset in the requested format
+ */
+export async function exportReport(dataset: ReportDataset, format: ExportFormat): Promise<string | Buffer> {
+  if (format === 'json') {
+    const topics = dataset.topics.map(topic => ({
+      ...topic,
+      queries: dataset.queries.filter(q => q.topic_id === topic.id).map(q => ({
+        ...q,
+        answers: dataset.answers.filter(a => a.query_id === q.id)
+      }))
+    }));
+
+    return JSON.stringify({
+      exported_at: new Date().toISOString(),
+      analysis: dataset.analysis,
+      topics,
+      competitors: dataset.competitors,
+      sources: dataset.sources
+    }, null, 2);
+  }
+
+  const tables = buildExportTables(dataset);
+  return format === 'csv' ? toCsv(tables) : toXlsx(tables);
+}
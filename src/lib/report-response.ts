@@ -0,0 +1,168 @@
+// Report Response - The contract of GET /api/report/[id], validated with zod before it is sent
+// Fields the database may leave unset are normalised to null (or [] for lists), and derived
+// numbers (top-rank count, share of voice) are computed here so the report tabs don't recompute them.
+import { z } from 'zod';
+import type { ReportData } from '@/types';
+import { ENGINE_IDS } from './answer-engine';
+import { VERTICAL_IDS } from './verticals';
+
+const optionalNumber = z.number().nullish().transform(value => value ?? null);
+const optionalString = z.string().nullish().transform(value => value ?? null);
+const stringList = z.array(z.string()).nullish().transform(value => value ?? []);
+
+const engineIdSchema = z.enum(ENGINE_IDS);
+const matchConfidenceSchema = z.enum(['high', 'medium', 'low']).nullish().transform(value => value ?? null);
+
+const engineMetricsSchema = z.object({
+  engine: engineIdSchema,
+  total_answers: z.number(),
+  answers_mentioned: z.number(),
+  visibility_score: z.number(),
+  average_rank: z.number()
+});
+
+const engineMetricsList = z.array(engineMetricsSchema).nullish().transform(value => value ?? []);
+
+const reportAnswerSchema = z.object({
+  id: z.string(),
+  engine: engineIdSchema,
+  sample_index: z.number(),
+  answer: optionalString,
+  brands_mentioned: stringList,
+  focused_brand_rank: optionalNumber,
+  websites_cited: stringList,
+  status: z.enum(['completed', 'failed'])
+});
+
+const reportQuerySchema = z.object({
+  id: z.string(),
+  topic_id: z.string(),
+  query_text: z.string(),
+  query_order: z.number(),
+  answer: optionalString,
+  brands_mentioned: stringList,
+  focused_brand: optionalString,
+  focused_brand_rank: optionalNumber,
+  visibility: optionalNumber,
+  websites_cited: stringList,
+  status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled']),
+  // Sampling stability across the primary engine's samples
+  mention_probability: optionalNumber,
+  rank_mean: optionalNumber,
+  rank_variance: optionalNumber,
+  stability_score: optionalNumber,
+  // Brand-match decision, for the review tab
+  matched_name: optionalString,
+  match_confidence: matchConfidenceSchema,
+  match_reasoning: optionalString,
+  match_overridden: z.boolean().nullish().transform(value => value ?? false),
+  match_reviewed_at: optionalString,
+  answers: z.array(reportAnswerSchema) // Every engine and sample
+});
+
+const reportTopicSchema = z.object({
+  id: z.string(),
+  topic_name: z.string(),
+  topic_order: z.number(),
+  total_queries: z.number(),
+  queries_with_mention: z.number(),
+  visibility_percentage: optionalNumber,
+  visibility_ci_lower: optionalNumber,
+  visibility_ci_upper: optionalNumber,
+  weighted_visibility_percentage: optionalNumber,
+  average_rank: optionalNumber,
+  engine_metrics: engineMetricsList,
+  mention_probability: optionalNumber,
+  stability_score: optionalNumber,
+  queries: z.array(reportQuerySchema)
+});
+
+const reportCompetitorSchema = z.object({
+  id: z.string(),
+  brand_name: z.string(),
+  aliases: stringList,
+  mention_count: z.number(),
+  share_of_voice: z.number(), // Computed for older analyses that didn't store it
+  mention_percentage: optionalNumber,
+  mention_ci_lower: optionalNumber,
+  mention_ci_upper: optionalNumber,
+  weighted_visibility_score: optionalNumber,
+  average_rank: optionalNumber
+});
+
+const reportSourceSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  domain: z.string(), // Falls back to the URL when no domain was parsed
+  citation_count: z.number()
+});
+
+const reportAnalysisSchema = z.object({
+  id: z.string(),
+  institution_name: z.string(),
+  location: optionalString,
+  status: z.enum(['draft', 'pending', 'processing', 'completed', 'failed', 'cancelled']),
+  progress: z.number(),
+  created_at: z.string(),
+  completed_at: optionalString,
+  total_queries: z.number(),
+  queries_mentioned: z.number(),
+  top_rank_count: z.number(), // Queries where the focus brand was ranked #1
+  overall_visibility_score: optionalNumber,
+  visibility_ci_lower: optionalNumber,
+  visibility_ci_upper: optionalNumber,
+  weighted_visibility_score: optionalNumber,
+  average_rank: optionalNumber,
+  engine_metrics: engineMetricsList,
+  samples_per_query: z.number().nullish().transform(value => value ?? 1),
+  brand_aliases: stringList,
+  vertical: z.enum(VERTICAL_IDS).nullish().transform(value => value ?? null),
+  vertical_description: optionalString,
+  tracked_institution_id: optionalString
+});
+
+export const reportResponseSchema = z.object({
+  analysis: reportAnalysisSchema,
+  engines: z.array(z.object({ id: engineIdSchema, label: z.string() })),
+  topics: z.array(reportTopicSchema),
+  competitors: z.array(reportCompetitorSchema),
+  sources: z.array(reportSourceSchema),
+  summary: z.object({
+    totalTopics: z.number(),
+    totalQueries: z.number(),
+    totalCompetitors: z.number(),
+    totalSources: z.number()
+  })
+});
+
+export type ReportResponse = z.infer<typeof reportResponseSchema>;
+export type ReportResponseAnalysis = ReportResponse['analysis'];
+export type ReportResponseTopic = ReportResponse['topics'][number];
+export type ReportResponseQuery = ReportResponseTopic['queries'][number];
+export type ReportResponseAnswer = ReportResponseQuery['answers'][number];
+export type ReportResponseCompetitor = ReportResponse['competitors'][number];
+export type ReportResponseSource = ReportResponse['sources'][number];
+export type ReportEngine = ReportResponse['engines'][number];
+
+/**
+ * Build the API response for a report, with computed fields
+ * @throws ZodError when the stored data doesn't match the contract
+ */
+export function toReportResponse(report: ReportData): ReportResponse {
+  const { analysis, topics, competitors, sources } = report;
+  const queries = topics.flatMap(topic => topic.queries);
+  const totalMentions = competitors.reduce((sum, c) => sum + (c.mention_count || 0), 0);
+
+  return reportResponseSchema.parse({
+    ...report,
+    analysis: {
+      ...analysis,
+      top_rank_count: queries.filter(q => q.focused_brand_rank === 1).length
+    },
+    competitors: competitors.map(c => ({
+      ...c,
+      share_of_voice: c.share_of_voice ?? (totalMentions > 0 ? (c.mention_count / totalMentions) * 100 : 0)
+    })),
+    sources: sources.map(s => ({ ...s, domain: s.domain || s.url }))
+  });
+}
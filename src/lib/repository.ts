@@ -0,0 +1,15 @@
+// Storage Repository - Selects the storage backend
+// STORAGE_BACKEND=memory runs without a Supabase project (self-hosted, offline, integration tests);
+// anything else uses Supabase.
+import type { Repository } from '@/types';
+import { supabaseRepository } from './supabase-repository';
+import { getMemoryRepository } from './memory-repository';
+
+export const STORAGE_BACKEND = process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'supabase';
+
+/**
+ * The repository every module reads and writes through
+ */
+export function getRepository(): Repository {
+  return STORAGE_BACKEND === 'memory' ? getMemoryRepository() : supabaseRepository;
+}
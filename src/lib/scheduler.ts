@@ -0,0 +1,35 @@
+// Tracking Scheduler - Starts scheduled runs of tracked institutions
+// Runs only queue analyses; the analysis worker does the processing
+import { runDueTrackedInstitutions } from './tracked-institutions';
+
+// Configuration
+const SCHEDULER_CONFIG = {
+  POLL_INTERVAL_MS: 60000 // Schedules are daily at the finest, so once a minute is plenty
+};
+
+let schedulerStarted = false;
+
+/**
+ * Start the polling scheduler loop (idempotent - one loop per process)
+ * Several processes may run it; due runs are claimed with a compare-and-set
+ */
+export function startScheduler(): void {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  console.log('⏰ Starting tracking scheduler');
+
+  const tick = async () => {
+    try {
+      const started = await runDueTrackedInstitutions();
+      if (started.length > 0) {
+        console.log(`⏰ Queued ${started.length} scheduled run${started.length !== 1 ? 's' : ''}`);
+      }
+    } catch (error) {
+      console.error('❌ Scheduler tick failed:', error);
+    }
+  };
+
+  tick();
+  setInterval(tick, SCHEDULER_CONFIG.POLL_INTERVAL_MS);
+}
@@ -0,0 +1,589 @@
+// Supabase Repository - Production storage backend
+// Tables and the claim_analysis_job() function are defined in supabase-schema.sql and the migrations
+import type {
+  Analysis,
+  AnalysisJob,
+  Competitor,
+  NewAnalysis,
+  NewCompetitor,
+  NewQuery,
+  NewQueryAnswer,
+  NewSource,
+  NewTopic,
+  NewProgressEvent,
+  NewTraceEvent,
+  Patch,
+  ProgressEvent,
+  Query,
+  QueryAnswer,
+  Repository,
+  Source,
+  Topic,
+  TraceEvent,
+  TrackedInstitution,
+  NewTrackedInstitution
+} from '@/types';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from './supabase';
+
+// PostgREST returns at most this many rows per request (max-rows) without reporting the cut-off
+const PAGE_SIZE = 1000;
+
+// Ids per .in() filter - the list goes into the request URL, which servers cap at a few KB
+const ID_CHUNK_SIZE = 200;
+
+// Postgres "invalid input syntax" - e.g. an id that is not a UUID, which cannot match any row
+const INVALID_INPUT_SYNTAX = '22P02';
+
+/**
+ * Read every row of a list by requesting page after page until a short page comes back
+ * `selectPage` must build a fresh request each time, with a total ordering so pages don't overlap
+ */
+async function selectAllRows<T>(
+  selectPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await selectPage(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Split ids into lists small enough for one .in() filter
+ */
+function chunkIds(ids: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + ID_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// Analyses
+
+async function createAnalysis(analysis: NewAnalysis): Promise<Analysis> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('analyses')
+    .insert(analysis)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function getAnalysis(id: string): Promise<Analysis | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('analyses')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error?.code === INVALID_INPUT_SYNTAX) return null;
+  if (error) throw error;
+  return data;
+}
+
+async function updateAnalysis(id: string, patch: Patch<Analysis>, unlessStatus?: Analysis['status']): Promise<boolean> {
+  let request = getSupabaseAdmin()
+    .from('analyses')
+    .update(patch)
+    .eq('id', id);
+
+  if (unlessStatus) {
+    request = request.neq('status', unlessStatus);
+  }
+
+  const { data, error } = await request.select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function updateAnalysisIfStatus(id: string, statuses: Analysis['status'][], patch: Patch<Analysis>): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('analyses')
+    .update(patch)
+    .eq('id', id)
+    .in('status', statuses)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// Topics
+
+async function createTopic(topic: NewTopic): Promise<Topic> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('topics')
+    .insert(topic)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function listTopics(analysisId: string): Promise<Topic[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('topics')
+    .select('*')
+    .eq('analysis_id', analysisId)
+    .order('topic_order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+async function updateTopic(id: string, patch: Patch<Topic>): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('topics')
+    .update(patch)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+// Queries and answers go with their topics (ON DELETE CASCADE)
+async function deleteTopics(analysisId: string, topicIds?: string[]): Promise<void> {
+  let request = getSupabaseAdmin()
+    .from('topics')
+    .delete()
+    .eq('analysis_id', analysisId);
+
+  if (topicIds) request = request.in('id', topicIds);
+
+  const { error } = await request;
+
+  if (error) throw error;
+}
+
+// Queries
+
+async function createQueries(queries: NewQuery[]): Promise<Query[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('queries')
+    .insert(queries)
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+async function getQuery(id: string): Promise<Query | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('queries')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error?.code === INVALID_INPUT_SYNTAX) return null;
+  if (error) throw error;
+  return data;
+}
+
+async function listQueries(analysisId: string, statuses?: Query['status'][]): Promise<Query[]> {
+  return selectAllRows<Query>((from, to) => {
+    let request = getSupabaseAdmin()
+      .from('queries')
+      .select('*')
+      .eq('analysis_id', analysisId);
+
+    if (statuses) {
+      request = request.in('status', statuses);
+    }
+
+    return request
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to);
+  });
+}
+
+async function updateQueries(ids: string[], patch: Patch<Query>, unlessStatus?: Query['status']): Promise<number> {
+  let updated = 0;
+
+  for (const chunk of chunkIds(ids)) {
+    let request = getSupabaseAdmin()
+      .from('queries')
+      .update(patch)
+      .in('id', chunk);
+
+    if (unlessStatus) {
+      request = request.neq('status', unlessStatus);
+    }
+
+    const { data, error } = await request.select('id');
+
+    if (error) throw error;
+    updated += (data || []).length;
+  }
+
+  return updated;
+}
+
+async function updateQueriesByStatus(
+  analysisId: string,
+  statuses: Query['status'][],
+  patch: Patch<Query>
+): Promise<Query[]> {
+  // The matching ids are read page by page, then updated in chunks; the status filter is kept on
+  // the update so rows that moved on in between are left alone
+  const matching = await listQueries(analysisId, statuses);
+  const updated: Query[] = [];
+
+  for (const chunk of chunkIds(matching.map(q => q.id))) {
+    const { data, error } = await getSupabaseAdmin()
+      .from('queries')
+      .update(patch)
+      .in('id', chunk)
+      .in('status', statuses)
+      .select();
+
+    if (error) throw error;
+    updated.push(...(data || []));
+  }
+
+  return updated;
+}
+
+// Query answers
+
+async function listQueryAnswers(analysisId: string): Promise<QueryAnswer[]> {
+  // Up to samples × engines rows per query
+  return selectAllRows<QueryAnswer>((from, to) => getSupabaseAdmin()
+    .from('query_answers')
+    .select('*')
+    .eq('analysis_id', analysisId)
+    .order('id', { ascending: true })
+    .range(from, to));
+}
+
+async function listQueryAnswersForQueries(queryIds: string[]): Promise<QueryAnswer[]> {
+  const answers: QueryAnswer[] = [];
+
+  for (const chunk of chunkIds(queryIds)) {
+    answers.push(...await selectAllRows<QueryAnswer>((from, to) => getSupabaseAdmin()
+      .from('query_answers')
+      .select('*')
+      .in('query_id', chunk)
+      .order('id', { ascending: true })
+      .range(from, to)));
+  }
+
+  return answers;
+}
+
+async function upsertQueryAnswer(answer: NewQueryAnswer): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('query_answers')
+    .upsert(answer, {
+      onConflict: 'query_id,engine,sample_index'
+    });
+
+  if (error) throw error;
+}
+
+// Competitors and sources
+
+async function listCompetitors(analysisId: string): Promise<Competitor[]> {
+  return selectAllRows<Competitor>((from, to) => getSupabaseAdmin()
+    .from('competitors')
+    .select('*')
+    .eq('analysis_id', analysisId)
+    .order('mention_count', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, to));
+}
+
+async function replaceCompetitors(analysisId: string, competitors: NewCompetitor[]): Promise<void> {
+  const { error: deleteError } = await getSupabaseAdmin()
+    .from('competitors')
+    .delete()
+    .eq('analysis_id', analysisId);
+
+  if (deleteError) throw deleteError;
+  if (competitors.length === 0) return;
+
+  const { error } = await getSupabaseAdmin()
+    .from('competitors')
+    .upsert(competitors, {
+      onConflict: 'analysis_id,brand_name'
+    });
+
+  if (error) throw error;
+}
+
+async function listSources(analysisId: string): Promise<Source[]> {
+  return selectAllRows<Source>((from, to) => getSupabaseAdmin()
+    .from('sources')
+    .select('*')
+    .eq('analysis_id', analysisId)
+    .order('citation_count', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, to));
+}
+
+async function replaceSources(analysisId: string, sources: NewSource[]): Promise<void> {
+  const { error: deleteError } = await getSupabaseAdmin()
+    .from('sources')
+    .delete()
+    .eq('analysis_id', analysisId);
+
+  if (deleteError) throw deleteError;
+  if (sources.length === 0) return;
+
+  const { error } = await getSupabaseAdmin()
+    .from('sources')
+    .upsert(sources, {
+      onConflict: 'analysis_id,url'
+    });
+
+  if (error) throw error;
+}
+
+// Jobs
+
+async function findActiveJob(analysisId: string): Promise<AnalysisJob | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('analysis_jobs')
+    .select('*')
+    .eq('analysis_id', analysisId)
+    .in('status', ['pending', 'running'])
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function createJob(
+  job: Pick<AnalysisJob, 'analysis_id' | 'kind' | 'status' | 'max_attempts'>
+): Promise<AnalysisJob> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('analysis_jobs')
+    .insert(job)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function cancelPendingJobs(analysisId: string): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('analysis_jobs')
+    .update({
+      status: 'cancelled',
+      updated_at: new Date().toISOString()
+    })
+    .eq('analysis_id', analysisId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
+
+async function claimJob(workerId: string, leaseMs: number): Promise<AnalysisJob | null> {
+  // SKIP LOCKED inside the function keeps concurrent workers from claiming the same job
+  const { data, error } = await getSupabaseAdmin().rpc('claim_analysis_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: Math.ceil(leaseMs / 1000)
+  });
+
+  if (error) throw error;
+
+  const jobs = (data || []) as AnalysisJob[];
+  return jobs[0] || null;
+}
+
+async function updateOwnedJob(
+  jobId: string,
+  workerId: string,
+  patch: Patch<AnalysisJob>,
+  requiredStatus?: AnalysisJob['status']
+): Promise<boolean> {
+  let request = getSupabaseAdmin()
+    .from('analysis_jobs')
+    .update(patch)
+    .eq('id', jobId)
+    .eq('locked_by', workerId);
+
+  if (requiredStatus) {
+    request = request.eq('status', requiredStatus);
+  }
+
+  const { data, error } = await request.select('id');
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+// Tracked institutions
+
+async function createTrackedInstitution(tracked: NewTrackedInstitution): Promise<TrackedInstitution> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('tracked_institutions')
+    .insert(tracked)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function getTrackedInstitution(id: string): Promise<TrackedInstitution | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('tracked_institutions')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error?.code === INVALID_INPUT_SYNTAX) return null;
+  if (error) throw error;
+  return data;
+}
+
+async function listTrackedInstitutions(): Promise<TrackedInstitution[]> {
+  return selectAllRows<TrackedInstitution>((from, to) => getSupabaseAdmin()
+    .from('tracked_institutions')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, to));
+}
+
+async function listDueTrackedInstitutions(now: string): Promise<TrackedInstitution[]> {
+  return selectAllRows<TrackedInstitution>((from, to) => getSupabaseAdmin()
+    .from('tracked_institutions')
+    .select('*')
+    .eq('active', true)
+    .lte('next_run_at', now)
+    .order('next_run_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to));
+}
+
+async function updateTrackedInstitution(
+  id: string,
+  patch: Patch<TrackedInstitution>,
+  expectedNextRunAt?: string
+): Promise<boolean> {
+  let request = getSupabaseAdmin()
+    .from('tracked_institutions')
+    .update(patch)
+    .eq('id', id);
+
+  // Compare-and-set: only one scheduler advances a due entity
+  if (expectedNextRunAt !== undefined) {
+    request = request.eq('next_run_at', expectedNextRunAt);
+  }
+
+  const { data, error } = await request.select('id');
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+async function listTrackedRuns(trackedInstitutionId: string): Promise<Analysis[]> {
+  return selectAllRows<Analysis>((from, to) => getSupabaseAdmin()
+    .from('analyses')
+    .select('*')
+    .eq('tracked_institution_id', trackedInstitutionId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to));
+}
+
+async function appendProgressEvent(event: NewProgressEvent): Promise<ProgressEvent> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('analysis_events')
+    .insert(event)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function listProgressEvents(analysisId: string, afterSequence = 0): Promise<ProgressEvent[]> {
+  return selectAllRows<ProgressEvent>((from, to) => getSupabaseAdmin()
+    .from('analysis_events')
+    .select('*')
+    .eq('analysis_id', analysisId)
+    .gt('sequence', afterSequence)
+    .order('sequence', { ascending: true })
+    .range(from, to));
+}
+
+async function appendTraceEvent(event: NewTraceEvent): Promise<TraceEvent> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('trace_events')
+    .insert(event)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function listTraceEvents(analysisId: string, queryId?: string): Promise<TraceEvent[]> {
+  return selectAllRows<TraceEvent>((from, to) => {
+    let request = getSupabaseAdmin()
+      .from('trace_events')
+      .select('*')
+      .eq('analysis_id', analysisId);
+
+    if (queryId) {
+      request = request.eq('query_id', queryId);
+    }
+
+    return request
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to);
+  });
+}
+
+export const supabaseRepository: Repository = {
+  createAnalysis,
+  getAnalysis,
+  updateAnalysis,
+  updateAnalysisIfStatus,
+  createTopic,
+  listTopics,
+  updateTopic,
+  deleteTopics,
+  createQueries,
+  getQuery,
+  listQueries,
+  updateQueries,
+  updateQueriesByStatus,
+  listQueryAnswers,
+  listQueryAnswersForQueries,
+  upsertQueryAnswer,
+  listCompetitors,
+  replaceCompetitors,
+  listSources,
+  replaceSources,
+  findActiveJob,
+  createJob,
+  cancelPendingJobs,
+  claimJob,
+  updateOwnedJob,
+  createTrackedInstitution,
+  getTrackedInstitution,
+  listTrackedInstitutions,
+  listDueTrackedInstitutions,
+  updateTrackedInstitution,
+  listTrackedRuns,
+  appendProgressEvent,
+  listProgressEvents,
+  appendTraceEvent,
+  listTraceEvents
+};
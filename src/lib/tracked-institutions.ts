@@ -0,0 +1,181 @@
+// Tracked Institutions - Re-run a frozen query set on a schedule so visibility can be compared over time
+// Each run is a regular analysis (a snapshot) linked through analyses.tracked_institution_id;
+// Prompt #1 is never re-run, so every snapshot asks exactly the same queries.
+import type { Analysis, TopicData, TrackedInstitution, TrackingSchedule } from '@/types';
+import { getRepository } from './repository';
+import { createTopicsAndQueries } from './analysis-draft';
+import { enqueueAnalysisJob } from './job-queue';
+import { resolveAnalysisEngines } from './answer-engine';
+import { recordProgressEvent } from './progress-events';
+
+export const TRACKING_SCHEDULES: TrackingSchedule[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Type guard for schedules coming from requests
+ */
+export function isTrackingSchedule(value: unknown): value is TrackingSchedule {
+  return typeof value === 'string' && (TRACKING_SCHEDULES as string[]).includes(value);
+}
+
+/**
+ * When the next run is due after `from`
+ * Monthly runs keep the day of month where possible (Jan 31 → Feb 28)
+ */
+export function computeNextRunAt(schedule: TrackingSchedule, from: Date = new Date()): string {
+  const next = new Date(from);
+
+  if (schedule === 'daily') {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (schedule === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    const day = next.getUTCDate();
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(day, daysInMonth));
+  }
+
+  return next.toISOString();
+}
+
+/**
+ * Freeze an analysis' current topics and queries (and its settings) into a tracked institution
+ * The first scheduled run is one period from now; use runTrackedInstitution() to run immediately.
+ */
+export async function trackAnalysis(analysis: Analysis, schedule: TrackingSchedule): Promise<TrackedInstitution> {
+  const repository = getRepository();
+  const topicRows = await repository.listTopics(analysis.id);
+  const queries = await repository.listQueries(analysis.id);
+
+  // The stored rows reflect any edits made in the draft editor
+  const topics: TopicData[] = topicRows
+    .map(topic => ({
+      topic: topic.topic_name,
+      prompts: queries
+        .filter(q => q.topic_id === topic.id)
+        .sort((a, b) => a.query_order - b.query_order)
+        .map(q => q.query_text)
+    }))
+    .filter(topic => topic.prompts.length > 0);
+
+  if (topics.length === 0) {
+    throw new Error('Analysis has no queries to track');
+  }
+
+  const tracked = await repository.createTrackedInstitution({
+    institution_name: analysis.institution_name,
+    location: analysis.location,
+    engines: resolveAnalysisEngines(analysis),
+    samples_per_query: analysis.samples_per_query,
+    rank_weights: analysis.rank_weights,
+    brand_aliases: analysis.brand_aliases,
+    vertical: analysis.vertical,
+    vertical_description: analysis.vertical_description,
+    topics,
+    schedule,
+    active: true,
+    next_run_at: computeNextRunAt(schedule),
+    source_analysis_id: analysis.id
+  });
+
+  // A completed analysis is already the first snapshot of the frozen set
+  if (analysis.status === 'completed') {
+    await repository.updateAnalysis(analysis.id, { tracked_institution_id: tracked.id });
+    await repository.updateTrackedInstitution(tracked.id, {
+      last_run_at: analysis.completed_at || analysis.created_at,
+      last_analysis_id: analysis.id
+    });
+  }
+
+  console.log(`📌 Tracking ${tracked.institution_name} ${schedule} (${tracked.id}), first run ${tracked.next_run_at}`);
+  return tracked;
+}
+
+/**
+ * Create and queue a snapshot analysis with the tracked institution's frozen queries
+ */
+export async function runTrackedInstitution(tracked: TrackedInstitution): Promise<Analysis> {
+  const repository = getRepository();
+  const totalQueries = tracked.topics.reduce((sum, topic) => sum + topic.prompts.length, 0);
+
+  const analysis = await repository.createAnalysis({
+    institution_name: tracked.institution_name,
+    location: tracked.location,
+    engine: tracked.engines[0], // Primary answer engine for Prompts #2/#3
+    engines: tracked.engines,
+    samples_per_query: tracked.samples_per_query,
+    rank_weights: tracked.rank_weights,
+    brand_aliases: tracked.brand_aliases,
+    vertical: tracked.vertical,
+    vertical_description: tracked.vertical_description,
+    topics: tracked.topics,
+    tracked_institution_id: tracked.id,
+    status: 'pending',
+    total_queries: totalQueries,
+    progress: 0
+  });
+
+  try {
+    await createTopicsAndQueries(analysis.id, tracked.institution_name, tracked.topics);
+
+    // Same starting point as a started draft: topics and queries exist
+    await repository.updateAnalysis(analysis.id, { progress: 25 });
+    await enqueueAnalysisJob(analysis.id);
+  } catch (error) {
+    // No job will ever pick this run up - fail it rather than leave it pending
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await recordProgressEvent(analysis.id, 'failed', { error: message, will_retry: false });
+    await repository.updateAnalysis(analysis.id, {
+      status: 'failed',
+      updated_at: new Date().toISOString()
+    });
+    throw error;
+  }
+
+  await repository.updateTrackedInstitution(tracked.id, {
+    last_run_at: new Date().toISOString(),
+    last_analysis_id: analysis.id,
+    updated_at: new Date().toISOString()
+  });
+
+  console.log(`🔁 Queued run ${analysis.id} for tracked ${tracked.institution_name} (${totalQueries} queries)`);
+  return analysis;
+}
+
+/**
+ * Start a run for every tracked institution that is due
+ * next_run_at is advanced with a compare-and-set, so concurrent schedulers never double-run an entity.
+ * A run is skipped (but the schedule still advances) while the previous run is unfinished.
+ *
+ * @returns ids of the analyses that were queued
+ */
+export async function runDueTrackedInstitutions(now: Date = new Date()): Promise<string[]> {
+  const repository = getRepository();
+  const due = await repository.listDueTrackedInstitutions(now.toISOString());
+  const started: string[] = [];
+
+  for (const tracked of due) {
+    const claimed = await repository.updateTrackedInstitution(
+      tracked.id,
+      { next_run_at: computeNextRunAt(tracked.schedule, now), updated_at: now.toISOString() },
+      tracked.next_run_at
+    );
+    if (!claimed) continue;
+
+    const previous = tracked.last_analysis_id ? await repository.getAnalysis(tracked.last_analysis_id) : null;
+    if (previous && (previous.status === 'pending' || previous.status === 'processing')) {
+      console.log(`⏭️  Skipping ${tracked.institution_name}: previous run ${previous.id} is still ${previous.status}`);
+      continue;
+    }
+
+    try {
+      const analysis = await runTrackedInstitution(tracked);
+      started.push(analysis.id);
+    } catch (error) {
+      console.error(`❌ Failed to start scheduled run for ${tracked.institution_name}:`, error);
+    }
+  }
+
+  return started;
+}
@@ -0,0 +1,155 @@
+// Vertical Profiles - Per-industry settings for topic generation and brand matching
+// Education is the original (default) profile; the others reuse the same pipeline with
+// their own Prompt #1 wording, example queries and name-matching heuristics.
+import type { VerticalId } from '@/types';
+
+export interface VerticalProfile {
+  id: VerticalId;
+  label: string;
+  entityLabel: string; // How Prompt #1 refers to the analysed brand ("The <entityLabel> name is ...")
+  domain: string; // What kind of entity the analyser researches
+  audiences: string; // Who searches for it
+  topicExamples: string[];
+  exampleQueries: string[];
+  intentKeywords: string;
+  painPoints: string;
+  regionalRules: string[];
+  // Words dropped before building acronyms, so "IIT Delhi" ~ "Indian Institute of Technology Delhi"
+  locationWords: string[];
+  // Trailing words dropped before comparing names, so "Acme Inc." ~ "Acme"
+  legalSuffixes: string[];
+}
+
+// Common Indian city names - the education profile was built for Indian institutions
+const INDIAN_CITY_NAMES = ['delhi', 'mumbai', 'bangalore', 'chennai', 'kolkata', 'hyderabad',
+                           'pune', 'ahmedabad', 'jaipur', 'lucknow', 'bhubaneswar', 'bhubaneshwar',
+                           'noida', 'gurgaon', 'gurugram', 'chandigarh', 'indore', 'nagpur', 'patna',
+                           'bengaluru', 'calcutta', 'bombay', 'madras'];
+
+const COMPANY_SUFFIXES = ['inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation',
+                          'co', 'company', 'gmbh', 'plc', 'pvt', 'private', 'pty', 'sa', 'ag', 'bv'];
+
+export const DEFAULT_VERTICAL: VerticalId = 'education';
+
+export const MAX_VERTICAL_DESCRIPTION_LENGTH = 500;
+
+export const VERTICAL_PROFILES: Record<VerticalId, VerticalProfile> = {
+  education: {
+    id: 'education',
+    label: 'Education',
+    entityLabel: 'Institute',
+    domain: 'educational institution (such as schools, colleges, universities, edtech companies, or study abroad consultants)',
+    audiences: 'students, parents, teachers, institutions, administrators',
+    topicExamples: ['K-12 School Education', 'University Admissions for Engineering', 'Study Abroad Services'],
+    exampleQueries: [
+      'top MBA colleges in India 2025',
+      'affordable engineering universities with good placements',
+      'best K-12 schools in Delhi NCR for holistic education'
+    ],
+    intentKeywords: 'best, top, leading, colleges, affordable, compare, alternatives to, software for, platforms for, etc.',
+    painPoints: 'fees, placement, course flexibility, scholarships, admissions, etc.',
+    regionalRules: ['≥50% of prompts must mention **region, city, or locality** (e.g., "best CBSE schools in Bangalore").'],
+    locationWords: INDIAN_CITY_NAMES,
+    legalSuffixes: []
+  },
+  b2b_software: {
+    id: 'b2b_software',
+    label: 'B2B software',
+    entityLabel: 'Company',
+    domain: 'B2B software company (such as SaaS products, developer tools, enterprise platforms, or IT services)',
+    audiences: 'buyers, IT and engineering teams, operations leaders, founders, procurement',
+    topicExamples: ['CRM for Small Sales Teams', 'Payroll Software for Startups', 'Cloud Cost Monitoring Tools'],
+    exampleQueries: [
+      'best CRM for a 10 person sales team',
+      'alternatives to expensive enterprise help desk software',
+      'compare payroll platforms for remote startups'
+    ],
+    intentKeywords: 'best, top, alternatives to, compare, software for, tools for, platforms for, vs, etc.',
+    painPoints: 'pricing, integrations, security and compliance, ease of setup, support, scalability, etc.',
+    regionalRules: [
+      'Use **country-level specificity** only where buying differs by market (data residency, local payroll or tax rules).',
+      'Most prompts should be global; avoid forcing locations.'
+    ],
+    locationWords: [],
+    legalSuffixes: COMPANY_SUFFIXES
+  },
+  consumer: {
+    id: 'consumer',
+    label: 'Consumer brand',
+    entityLabel: 'Brand',
+    domain: 'consumer brand (such as apparel, food and beverage, electronics, beauty, or direct-to-consumer products)',
+    audiences: 'shoppers, gift buyers, enthusiasts, reviewers, families',
+    topicExamples: ['Running Shoes for Beginners', 'Budget Wireless Earbuds', 'Clean Skincare for Sensitive Skin'],
+    exampleQueries: [
+      'best running shoes for flat feet',
+      'affordable noise cancelling earbuds under $100',
+      'sustainable sneaker brands worth buying'
+    ],
+    intentKeywords: 'best, top, affordable, worth it, compare, alternatives to, brands for, vs, etc.',
+    painPoints: 'price, quality, durability, reviews, ingredients or materials, availability, etc.',
+    regionalRules: [
+      'Use **country-level specificity** where availability or pricing differs (e.g., "best protein bars in the UK").',
+      'For global brands, include both **global** and **regional** queries.'
+    ],
+    locationWords: [],
+    legalSuffixes: COMPANY_SUFFIXES
+  },
+  local_services: {
+    id: 'local_services',
+    label: 'Local services',
+    entityLabel: 'Business',
+    domain: 'local service business (such as clinics, restaurants, salons, repair shops, law firms, or gyms)',
+    audiences: 'residents, visitors, families, small business owners',
+    topicExamples: ['Emergency Plumbing Repairs', 'Family Dental Clinics', 'Late-Night Restaurants'],
+    exampleQueries: [
+      'best family dentist near downtown Austin',
+      'emergency plumber open on weekends in Austin',
+      'affordable yoga studios in east Austin'
+    ],
+    intentKeywords: 'best, top rated, near me, open now, affordable, compare, recommended, etc.',
+    painPoints: 'price, availability, reviews, location, opening hours, booking, etc.',
+    regionalRules: [
+      '≥80% of prompts must mention the **city, neighbourhood, or locality** the business serves.',
+      'Stay within the service area - do not generate national queries.'
+    ],
+    locationWords: [],
+    legalSuffixes: COMPANY_SUFFIXES
+  },
+  custom: {
+    id: 'custom',
+    label: 'Custom',
+    entityLabel: 'Brand',
+    domain: 'brand or organisation',
+    audiences: 'the people who discover, compare and choose this kind of entity',
+    topicExamples: ['<Category or Use Case>', '<Audience-Specific Need>', '<Comparison Theme>'],
+    exampleQueries: [
+      'best <category> for <audience or need>',
+      'compare <category> options in <region>',
+      'alternatives to <well-known option> for <need>'
+    ],
+    intentKeywords: 'best, top, leading, affordable, compare, alternatives to, vs, etc.',
+    painPoints: 'price, quality, features, reviews, availability, etc.',
+    regionalRules: [
+      'Use **country-level specificity** unless hyper-local.',
+      'For global operations, include both **global** and **regional** queries.'
+    ],
+    locationWords: [],
+    legalSuffixes: COMPANY_SUFFIXES
+  }
+};
+
+export const VERTICAL_IDS = Object.keys(VERTICAL_PROFILES) as VerticalId[];
+
+/**
+ * Type guard for vertical identifiers coming from requests or the database
+ */
+export function isVerticalId(value: unknown): value is VerticalId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VERTICAL_PROFILES, value);
+}
+
+/**
+ * Profile for an analysis; analyses created before verticals existed are education
+ */
+export function getVerticalProfile(vertical?: unknown): VerticalProfile {
+  return VERTICAL_PROFILES[isVerticalId(vertical) ? vertical : DEFAULT_VERTICAL];
+}
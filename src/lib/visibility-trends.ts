@@ -0,0 +1,78 @@
+// Visibility Trends - Time series of a tracked institution's completed runs, with deltas since the previous run
+import type { Analysis, Competitor, TrackedInstitution, TrendDeltas, TrendPoint, VisibilityTrend } from '@/types';
+import { getRepository } from './repository';
+
+// Competitors charted besides the focus brand
+export const TREND_COMPETITOR_LIMIT = 5;
+
+function difference(latest: number | null | undefined, previous: number | null | undefined): number | null {
+  if (latest == null || previous == null) return null;
+  return latest - previous;
+}
+
+/**
+ * Build the trend from a tracked institution's runs (oldest first)
+ * Unfinished and failed runs are left out so every point is a full snapshot of the frozen query set.
+ */
+export async function buildVisibilityTrend(tracked: TrackedInstitution, runs: Analysis[]): Promise<VisibilityTrend> {
+  const repository = getRepository();
+  const completed = runs.filter(run => run.status === 'completed');
+  const focusBrand = tracked.institution_name.toLowerCase();
+
+  // The focus entity is named after each run's canonical brand, which can differ from the tracked
+  // name and between runs, so it is charted under the tracked name (older runs match by name)
+  const isFocus = (competitor: Competitor) => competitor.is_focus ?? competitor.brand_name.toLowerCase() === focusBrand;
+
+  const points: TrendPoint[] = [];
+  for (const run of completed) {
+    const topics = await repository.listTopics(run.id);
+    const competitors = await repository.listCompetitors(run.id);
+    const totalMentions = competitors.reduce((sum, c) => sum + (c.mention_count || 0), 0);
+
+    points.push({
+      analysis_id: run.id,
+      run_at: run.completed_at || run.created_at,
+      overall_visibility_score: run.overall_visibility_score ?? null,
+      weighted_visibility_score: run.weighted_visibility_score ?? null,
+      average_rank: run.average_rank || null, // 0 means never mentioned
+      topics: Object.fromEntries(topics.map(t => [t.topic_name, t.visibility_percentage ?? null])),
+      // Share of voice is stored per entity, derived for older analyses
+      competitors: Object.fromEntries(competitors.map(c => [
+        isFocus(c) ? tracked.institution_name : c.brand_name,
+        c.share_of_voice ?? (totalMentions > 0 ? (c.mention_count / totalMentions) * 100 : 0)
+      ]))
+    });
+  }
+
+  const latest = points[points.length - 1];
+  const previous = points[points.length - 2];
+
+  // Focus brand first so its share is always visible, then whoever leads the latest run
+  const competitorNames = latest
+    ? Object.entries(latest.competitors).sort(([, a], [, b]) => b - a).map(([name]) => name)
+    : [];
+  const focusEntry = competitorNames.find(name => name === tracked.institution_name);
+  const competitors = [
+    ...(focusEntry ? [focusEntry] : []),
+    ...competitorNames.filter(name => name !== focusEntry).slice(0, TREND_COMPETITOR_LIMIT)
+  ];
+
+  const topics = tracked.topics.map(t => t.topic);
+
+  // Only the charted brands are returned; a brand missing from a run had no mentions in it
+  for (const point of points) {
+    point.competitors = Object.fromEntries(competitors.map(name => [name, point.competitors[name] ?? 0]));
+  }
+
+  const deltas: TrendDeltas | null = latest && previous
+    ? {
+        overall_visibility_score: difference(latest.overall_visibility_score, previous.overall_visibility_score),
+        weighted_visibility_score: difference(latest.weighted_visibility_score, previous.weighted_visibility_score),
+        average_rank: difference(latest.average_rank, previous.average_rank),
+        topics: Object.fromEntries(topics.map(name => [name, difference(latest.topics[name], previous.topics[name])])),
+        competitors: Object.fromEntries(competitors.map(name => [name, latest.competitors[name] - previous.competitors[name]]))
+      }
+    : null;
+
+  return { points, topics, competitors, deltas };
+}
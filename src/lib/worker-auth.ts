@@ -0,0 +1,20 @@
+// Worker Auth - Guards the cron-driven endpoints (/api/worker, /api/scheduler)
+// Callers send `Authorization: Bearer <WORKER_SECRET>`. Without WORKER_SECRET the endpoints
+// are open in development only; a production deployment refuses every call until it is set.
+
+/**
+ * Whether a request may run a worker or scheduler tick
+ */
+export function isAuthorizedWorkerRequest(request: Request): boolean {
+  const secret = process.env.WORKER_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('❌ WORKER_SECRET is not set - refusing worker and scheduler calls');
+      return false;
+    }
+    return true;
+  }
+
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
@@ -0,0 +1,143 @@
+// Analysis Worker - Claims queued analyses and runs them through the batch processor
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { getRepository } from './repository';
+import { processAnalysis } from './batch-processor';
+import { claimNextJob, heartbeatJob, completeJob, failJob, JOB_CONFIG } from './job-queue';
+import { recordProgressEvent } from './progress-events';
+import { registerAnalysisController, releaseAnalysisController, AnalysisCancelledError, LeaseLostError, isCancellationError, isLeaseLost } from './cancellation';
+import type { AnalysisJob } from '@/types';
+
+// Configuration
+const WORKER_CONFIG = {
+  POLL_INTERVAL_MS: 5000,
+  HEARTBEAT_INTERVAL_MS: JOB_CONFIG.LEASE_MS / 4, // Renew well before the lease lapses
+  MAX_HEARTBEAT_FAILURES: 3, // Consecutive failed renewals before giving the job up (the lease is about to lapse)
+  CANCEL_CHECK_INTERVAL_MS: 5000 // How often to look for cancellation issued from another process
+};
+
+const WORKER_ID = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+let workerStarted = false;
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a single claimed job, keeping its lease alive until processing finishes
+ */
+async function runJob(job: AnalysisJob): Promise<void> {
+  console.log(`\n👷 [${WORKER_ID}] Claimed job ${job.id} for analysis ${job.analysis_id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  const controller = registerAnalysisController(job.analysis_id);
+
+  // Cancellation requested through another process only shows up in the database
+  const cancelCheck = setInterval(async () => {
+    const analysis = await getRepository().getAnalysis(job.analysis_id).catch(() => null);
+
+    if (analysis?.status === 'cancelled' && !controller.signal.aborted) {
+      console.log(`🛑 [${WORKER_ID}] Analysis ${job.analysis_id} was cancelled`);
+      controller.abort(new AnalysisCancelledError());
+    }
+  }, WORKER_CONFIG.CANCEL_CHECK_INTERVAL_MS);
+
+  let heartbeatFailures = 0;
+  const heartbeat = setInterval(async () => {
+    try {
+      const stillOwned = await heartbeatJob(job.id, WORKER_ID);
+      heartbeatFailures = 0;
+      // Another worker may already be re-running these queries - stop before they run twice
+      if (!stillOwned && !controller.signal.aborted) {
+        console.warn(`⚠️  [${WORKER_ID}] Lost lease on job ${job.id} - stopping`);
+        controller.abort(new LeaseLostError());
+      }
+    } catch (error) {
+      heartbeatFailures++;
+      console.error(`❌ [${WORKER_ID}] Heartbeat failed for job ${job.id} (${heartbeatFailures}/${WORKER_CONFIG.MAX_HEARTBEAT_FAILURES}):`, error);
+
+      // An unrenewed lease expires and the job is reclaimed - stop rather than run alongside the new owner
+      if (heartbeatFailures >= WORKER_CONFIG.MAX_HEARTBEAT_FAILURES && !controller.signal.aborted) {
+        console.warn(`⚠️  [${WORKER_ID}] Could not renew lease on job ${job.id} - stopping`);
+        controller.abort(new LeaseLostError());
+      }
+    }
+  }, WORKER_CONFIG.HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await processAnalysis(job.analysis_id, controller.signal);
+    await completeJob(job.id, WORKER_ID);
+    console.log(`✅ [${WORKER_ID}] Job ${job.id} completed`);
+  } catch (error) {
+    // The job is no longer ours to complete or fail
+    if (isLeaseLost(controller.signal)) {
+      console.warn(`⚠️  [${WORKER_ID}] Job ${job.id} abandoned after losing its lease`);
+      return;
+    }
+
+    // A cancelled analysis is finished work, not a failure to retry
+    if (isCancellationError(error, controller.signal)) {
+      await completeJob(job.id, WORKER_ID);
+      console.log(`🛑 [${WORKER_ID}] Job ${job.id} stopped after cancellation`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const willRetry = await failJob(job, WORKER_ID, message);
+    await recordProgressEvent(job.analysis_id, 'failed', { error: message, will_retry: willRetry });
+
+    if (willRetry) {
+      console.warn(`🔁 [${WORKER_ID}] Job ${job.id} failed, will retry: ${message}`);
+    } else {
+      console.error(`❌ [${WORKER_ID}] Job ${job.id} failed permanently: ${message}`);
+
+      await getRepository().updateAnalysis(job.analysis_id, {
+        status: 'failed',
+        updated_at: new Date().toISOString()
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    clearInterval(cancelCheck);
+    releaseAnalysisController(job.analysis_id);
+  }
+}
+
+/**
+ * Claim and run at most one job
+ * Returns true if a job was processed
+ */
+export async function runWorkerOnce(): Promise<boolean> {
+  const job = await claimNextJob(WORKER_ID);
+  if (!job) return false;
+
+  await runJob(job);
+  return true;
+}
+
+/**
+ * Start the polling worker loop (idempotent - one loop per process)
+ */
+export function startWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  console.log(`👷 Starting analysis worker ${WORKER_ID}`);
+
+  (async () => {
+    while (true) {
+      try {
+        const processed = await runWorkerOnce();
+        if (!processed) {
+          await sleep(WORKER_CONFIG.POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error(`❌ [${WORKER_ID}] Worker loop error:`, error);
+        await sleep(WORKER_CONFIG.POLL_INTERVAL_MS);
+      }
+    }
+  })();
+}
@@ -5,7 +5,15 @@ export interface Analysis {
   institution_name: string;
   institution_type: string | null;
   location?: string; // Institution location for regional web search (format: "City, State/Region, Country")
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  engine?: EngineId; // Primary answer engine used for Prompt #2/#3
+  engines?: EngineId[]; // All answer engines queries are fanned out to (primary first)
+  samples_per_query?: number; // Times each query is asked per engine (answer stability)
+  brand_aliases?: string[]; // Other names of the focus institution (acronyms, campuses, former names)
+  vertical?: VerticalId; // Profile selecting the Prompt #1 template and matching heuristics (defaults to education)
+  vertical_description?: string; // What the brand does, for the custom profile
+  tracked_institution_id?: string; // Set when this analysis is a scheduled run (snapshot) of a tracked institution
+  topic_engine?: EngineId; // Answer engine used for Prompt #1
+  status: 'draft' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'; // draft = topics/queries awaiting review
   progress: number;
   research_notes?: ResearchNotes;
   topics?: TopicData[];
@@ -13,6 +21,12 @@ export interface Analysis {
   total_queries: number;
   queries_mentioned: number;
   average_rank?: number;
+  visibility_ci_lower?: number; // 95% Wilson interval around overall_visibility_score (percent)
+  visibility_ci_upper?: number;
+  rank_weights?: RankWeightTier[]; // Weighting table for weighted visibility (defaults to 1=100, 2-3=50, 4-5=25, 6+=10)
+  weighted_visibility_score?: number; // Mean rank weight across queries (percent)
+  competitor_aliases?: Record<string, string>; // Brand string as written → resolved competitor entity (merged spellings only)
+  engine_metrics?: EngineMetrics[];
   created_at: string;
   updated_at: string;
   completed_at?: string;
@@ -42,6 +56,15 @@ export interface Topic {
   total_citations: number;
   queries_with_mention: number;
   total_queries: number;
+  visibility_ci_lower?: number; // 95% Wilson interval around visibility_percentage (percent)
+  visibility_ci_upper?: number;
+  weighted_visibility_percentage?: number; // Mean rank weight across the topic's queries
+  engine_metrics?: EngineMetrics[];
+  // Sampling stability (averaged over the topic's queries)
+  mention_probability?: number;
+  rank_mean?: number;
+  rank_variance?: number;
+  stability_score?: number;
   created_at: string;
 }
 
@@ -58,18 +81,97 @@ export interface Query {
   focused_brand_rank?: number;
   visibility?: number;
   websites_cited?: string[];
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   processed_at?: string;
   error_message?: string;
+  // Brand-match decision for the primary answer (Prompt #3 or alias list)
+  matched_name?: string; // Mention that was taken to be the focus brand
+  match_confidence?: MatchConfidence;
+  match_reasoning?: string;
+  match_overridden?: boolean; // Rank/canonical brand were set by a reviewer
+  match_reviewed_at?: string;
+  // Sampling stability across the primary engine's samples
+  mention_probability?: number;
+  rank_mean?: number;
+  rank_variance?: number;
+  stability_score?: number;
   created_at: string;
 }
 
+// One engine's answer to a query (a query has one per engine per sample)
+export interface QueryAnswer {
+  id: string;
+  query_id: string;
+  analysis_id: string;
+  topic_id: string;
+  engine: EngineId;
+  sample_index: number; // 0-based; the analysis asks each query samples_per_query times
+  answer?: string;
+  brands_mentioned?: string[];
+  focused_brand?: string;
+  canonical_brand?: string;
+  focused_brand_rank?: number;
+  visibility?: number;
+  websites_cited?: string[];
+  status: 'completed' | 'failed';
+  error_message?: string;
+  matched_name?: string;
+  match_confidence?: MatchConfidence;
+  match_reasoning?: string;
+  processed_at?: string;
+  created_at: string;
+}
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+// One row of the rank weighting table: a mention at rank <= max_rank earns `weight` percent
+// Tiers are ordered by max_rank; the last tier (max_rank null) covers every lower rank
+export interface RankWeightTier {
+  max_rank: number | null;
+  weight: number; // Percent (0-100)
+}
+
+// Brand strings from answers grouped into canonical competitor entities
+export interface CompetitorResolution {
+  entityByAlias: Record<string, string>; // Every brand string → its entity
+  aliasesByEntity: Record<string, string[]>; // Entity → the other strings merged into it
+}
+
+// Range a mention rate plausibly falls in, given how few queries it was measured on
+export interface ConfidenceInterval {
+  lower: number; // Percent (0-100)
+  upper: number; // Percent (0-100)
+}
+
+// How consistently the focus brand shows up when the same query is asked repeatedly
+export interface SampleStats {
+  mention_probability: number; // 0-1: share of samples mentioning the brand
+  rank_mean: number; // Mean rank over samples that mention the brand (0 if none)
+  rank_variance: number; // Population variance of those ranks
+  stability_score: number; // 0-1: 1 = every sample agrees on mention and rank
+}
+
+// Visibility of the focus brand in one engine's answers
+export interface EngineMetrics {
+  engine: EngineId;
+  total_answers: number;
+  answers_mentioned: number;
+  visibility_score: number;
+  average_rank: number;
+}
+
 export interface Competitor {
   id: string;
   analysis_id: string;
-  brand_name: string;
-  mention_count: number;
+  brand_name: string; // Canonical entity name
+  aliases?: string[]; // Other spellings merged into this entity
+  is_focus?: boolean; // The analysed brand itself (named after its canonical name, which may differ from institution_name)
+  mention_count: number; // Answers mentioning the entity
   mention_percentage?: number;
+  share_of_voice?: number; // Percent of all competitor mentions
+  mention_ci_lower?: number; // 95% Wilson interval around mention_percentage (percent)
+  mention_ci_upper?: number;
+  weighted_visibility_score?: number; // Mean rank weight across all queries (0 where not mentioned)
   average_rank?: number;
   created_at: string;
 }
@@ -83,6 +185,266 @@ export interface Source {
   created_at: string;
 }
 
+export type TrackingSchedule = 'daily' | 'weekly' | 'monthly';
+
+// An institution re-analysed on a schedule with the same queries, so runs are comparable
+export interface TrackedInstitution {
+  id: string;
+  institution_name: string;
+  location?: string;
+  engines: EngineId[]; // Primary engine first
+  samples_per_query?: number;
+  rank_weights?: RankWeightTier[];
+  brand_aliases?: string[];
+  vertical?: VerticalId;
+  vertical_description?: string;
+  topics: TopicData[]; // Frozen query set - every run asks exactly these
+  schedule: TrackingSchedule;
+  active: boolean; // Paused entities keep their runs but are not scheduled
+  next_run_at: string;
+  last_run_at?: string;
+  last_analysis_id?: string; // Most recent run
+  source_analysis_id?: string; // Analysis the query set was frozen from
+  created_at: string;
+  updated_at: string;
+}
+
+// One completed run of a tracked institution, as plotted on the trend dashboard
+export interface TrendPoint {
+  analysis_id: string;
+  run_at: string; // completed_at, or created_at for older rows
+  overall_visibility_score: number | null;
+  weighted_visibility_score: number | null;
+  average_rank: number | null;
+  topics: Record<string, number | null>; // Topic name → visibility percentage
+  competitors: Record<string, number>; // Brand → share of voice (0 when not mentioned)
+}
+
+// Change between the two most recent completed runs (latest minus previous)
+export interface TrendDeltas {
+  overall_visibility_score: number | null;
+  weighted_visibility_score: number | null;
+  average_rank: number | null; // Negative is an improvement
+  topics: Record<string, number | null>;
+  competitors: Record<string, number>;
+}
+
+export interface VisibilityTrend {
+  points: TrendPoint[]; // Oldest first
+  topics: string[]; // Frozen topic order
+  competitors: string[]; // Focus brand first, then the latest run's top competitors
+  deltas: TrendDeltas | null; // Null until there are two completed runs
+}
+
+// A stretch of answer text that is unchanged, only in the later run, or only in the earlier one
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// A brand listed in both runs at a different position (1-based)
+export interface BrandMove {
+  brand: string;
+  from: number;
+  to: number;
+}
+
+// One side of a run-to-run comparison of the same query
+export interface QueryRunSnapshot {
+  analysis_id: string;
+  query_id: string;
+  run_at: string;
+  focused_brand_rank: number; // 0 = not mentioned
+  brands_mentioned: string[];
+  websites_cited: string[];
+}
+
+// The same query answered in two runs, earlier run first
+export interface QueryDiff {
+  query_text: string;
+  topic_name: string;
+  before: QueryRunSnapshot;
+  after: QueryRunSnapshot;
+  answer: DiffSegment[];
+  brands: { added: string[]; removed: string[]; moved: BrandMove[] };
+  websites: { added: string[]; removed: string[] };
+}
+
+// Headline numbers for one side of an analysis comparison
+export interface ComparedAnalysis {
+  id: string;
+  institution_name: string;
+  location?: string;
+  vertical?: VerticalId;
+  created_at: string;
+  overall_visibility_score: number | null;
+  weighted_visibility_score: number | null;
+  average_rank: number | null;
+  queries_mentioned: number;
+  total_queries: number;
+}
+
+export interface ComparedTopicSide {
+  visibility_percentage: number | null;
+  weighted_visibility_percentage: number | null;
+  average_rank: number | null;
+  total_queries: number;
+}
+
+// A topic aligned by name across both analyses (null where only one side has it)
+export interface ComparedTopic {
+  topic_name: string;
+  a: ComparedTopicSide | null;
+  b: ComparedTopicSide | null;
+}
+
+export interface ComparedCompetitorSide {
+  mention_count: number;
+  share_of_voice: number;
+  average_rank: number | null;
+}
+
+export interface ComparedCompetitor {
+  brand_name: string;
+  a: ComparedCompetitorSide | null;
+  b: ComparedCompetitorSide | null;
+}
+
+export interface ComparedDomain {
+  domain: string;
+  a_citations: number;
+  b_citations: number;
+}
+
+export interface AnalysisComparison {
+  a: ComparedAnalysis;
+  b: ComparedAnalysis;
+  topics: ComparedTopic[]; // A's topic order, then topics only B has
+  competitors: {
+    shared: ComparedCompetitor[]; // By combined share of voice
+    only_a: ComparedCompetitor[];
+    only_b: ComparedCompetitor[];
+  };
+  domains: {
+    shared: ComparedDomain[]; // By combined citations
+    only_a: ComparedDomain[];
+    only_b: ComparedDomain[];
+  };
+}
+
+// Everything stored for one analysis, as assembled by getReportData() (the API sends it as a ReportResponse)
+export interface ReportQuery extends Query {
+  answers: QueryAnswer[]; // Every engine and sample
+}
+
+export interface ReportTopic extends Topic {
+  queries: ReportQuery[];
+}
+
+export interface ReportData {
+  analysis: Analysis;
+  engines: Array<{ id: EngineId; label: string }>;
+  topics: ReportTopic[];
+  competitors: Competitor[];
+  sources: Source[];
+  summary: {
+    totalTopics: number;
+    totalQueries: number;
+    totalCompetitors: number;
+    totalSources: number;
+  };
+}
+
+// Payload of each pipeline step streamed to the progress dialog (GET /api/analysis/[id]/events)
+export interface ProgressEventData {
+  topics_generated: { topics: number; queries: number };
+  queued: { job_id: string }; // Also marks the start of a retry - earlier outcomes no longer apply
+  processing_started: { total_queries: number; pending_queries: number; batches: number; engines: string[] };
+  batch_started: { batch: number; total_batches: number; queries: number };
+  batch_finished: { batch: number; total_batches: number; status: 'completed' | 'failed'; error?: string };
+  query_completed: { query_id: string; query_text: string; status: 'completed' | 'failed'; mentioned: boolean; rank: number };
+  metrics_computed: { progress: number; total_queries: number; queries_mentioned: number; overall_visibility_score: number | null };
+  failed: { error: string; will_retry: boolean };
+  cancelled: { cancelled_queries: number };
+}
+
+export type ProgressEventType = keyof ProgressEventData;
+
+// One recorded pipeline step; sequence increases with every event, so a stream resumes after the last one it sent
+export type ProgressEvent = {
+  [K in ProgressEventType]: {
+    id: string;
+    analysis_id: string;
+    sequence: number;
+    type: K;
+    data: ProgressEventData[K];
+    created_at: string;
+  }
+}[ProgressEventType];
+
+// Diagnostics recorded while a query is answered, shown in the trace viewer (GET /api/analysis/[id]/trace)
+export type HttpAttemptOutcome = 'ok' | 'client_error' | 'rate_limited' | 'server_error' | 'timeout' | 'network_error';
+
+export interface TraceEventData {
+  http_attempt: { provider: string; attempt: number; max_retries: number; status: number | null; outcome: HttpAttemptOutcome; latency_ms: number; retry_in_ms: number | null; error?: string };
+  token_usage: { provider: string; model: string; input_tokens: number; output_tokens: number; total_tokens: number };
+  json_fallback: { context: string; length: number; outcome: 'sanitized' | 'failed'; error?: string; excerpt?: string }; // Initial JSON.parse failed
+  brand_validation: { method: 'alias' | 'llm' | 'no_brands' | 'llm_error'; found: boolean; position: number | null; confidence: MatchConfidence; error?: string };
+  answer_finished: { status: 'completed' | 'failed' | 'cancelled'; latency_ms: number; rank: number; brands: number; citations: number; error?: string };
+}
+
+export type TraceEventType = keyof TraceEventData;
+
+// Prompt being run when the event was recorded: #2 answers the query, #3 validates the brand
+export type TraceStep = 'answer' | 'validation';
+
+// One recorded diagnostic, scoped to the query, engine and sample being answered
+export type TraceEvent = {
+  [K in TraceEventType]: {
+    id: string;
+    analysis_id: string;
+    query_id: string | null;
+    engine: EngineId | null;
+    sample_index: number | null;
+    step: TraceStep | null;
+    type: K;
+    data: TraceEventData[K];
+    created_at: string;
+  }
+}[TraceEventType];
+
+// Counts over a set of trace events (a whole analysis or one query)
+export interface TraceSummary {
+  http_requests: number;
+  http_retries: number;
+  status_codes: Record<string, number>; // 'network' for attempts without a response
+  json_sanitized: number;
+  json_failed: number;
+  validations: Partial<Record<TraceEventData['brand_validation']['method'], number>>;
+  answers_completed: number;
+  answers_failed: number;
+  average_latency_ms: number | null; // Of finished answers (Prompt #2 + #3)
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface AnalysisJob {
+  id: string;
+  analysis_id: string;
+  kind: 'process_analysis';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  max_attempts: number;
+  locked_by?: string;
+  lease_expires_at?: string;
+  heartbeat_at?: string;
+  run_after: string;
+  last_error?: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
 // OpenRouter API Types
 export interface TopicsAndQueriesResponse {
   institution_name: string;
@@ -101,6 +463,17 @@ export interface Prompt1RawResponse {
   topics: TopicData[];
 }
 
+// Prompt 1 as parsed: the nested structure, or the older flat one
+export type Prompt1ParsedResponse = Partial<Prompt1RawResponse & TopicsAndQueriesResponse>;
+
+// Prompt 2 as parsed (models capitalise the answer key inconsistently)
+export interface Prompt2RawResponse {
+  Answer?: string;
+  answer?: string;
+  brands_mentioned?: string[];
+  websites_cited?: string[];
+}
+
 export interface BatchQueryResult {
   query: string;
   answer: string;
@@ -115,6 +488,122 @@ export interface BatchQueryResponse {
   results: BatchQueryResult[];
 }
 
+// Answer Engine Types
+export type EngineId = 'openai' | 'perplexity' | 'mock';
+
+export interface WebAnswer {
+  answer: string;
+  brands_mentioned: string[];
+  websites_cited: string[];
+}
+
+export interface BrandValidation {
+  found: boolean;
+  matched_name: string | null;
+  canonical_brand: string | null;
+  position: number | null;
+  confidence: MatchConfidence;
+  reasoning: string;
+}
+
+export type VerticalId = 'education' | 'b2b_software' | 'consumer' | 'local_services' | 'custom';
+
+export interface TopicGenerationOptions {
+  vertical: VerticalId;
+  verticalDescription?: string; // Custom profile only
+}
+
+export interface AnswerQueryOptions {
+  location: string; // Used for regional web search
+  sample?: number; // Index when the same query is asked repeatedly (0 = first ask)
+  vertical?: VerticalId; // Wording of Prompt #2 (education when omitted)
+  signal?: AbortSignal;
+}
+
+export interface BrandValidationOptions {
+  vertical?: VerticalId; // Wording and matching rules of Prompt #3 (education when omitted)
+  signal?: AbortSignal;
+}
+
+// A vendor behind the pipeline: one implementation per LLM provider
+export interface AnswerEngine {
+  id: EngineId;
+  label: string;
+  generateTopics(institutionName: string, options?: TopicGenerationOptions): Promise<TopicsAndQueriesResponse>; // Prompt #1
+  answerQuery(queryText: string, options: AnswerQueryOptions): Promise<WebAnswer>; // Prompt #2
+  validateBrand(brandsMentioned: string[], focusBrand: string, options?: BrandValidationOptions): Promise<BrandValidation>; // Prompt #3
+}
+
+// Storage Types
+// Partial update where columns may be cleared with null
+export type Patch<T> = { [K in keyof T]?: T[K] | null };
+
+export type NewAnalysis = Pick<Analysis, 'institution_name'> & Patch<Omit<Analysis, 'id' | 'created_at' | 'updated_at'>>;
+export type NewTopic = Pick<Topic, 'analysis_id' | 'topic_name' | 'topic_order' | 'total_queries'>;
+export type NewQuery = Pick<Query, 'analysis_id' | 'topic_id' | 'query_text' | 'query_order' | 'status'> & Patch<Pick<Query, 'focused_brand'>>;
+export type NewQueryAnswer = Pick<QueryAnswer, 'query_id' | 'analysis_id' | 'topic_id' | 'engine' | 'sample_index' | 'status'> & Patch<Omit<QueryAnswer, 'id' | 'created_at'>>;
+export type NewCompetitor = Omit<Competitor, 'id' | 'created_at'>;
+export type NewSource = Omit<Source, 'id' | 'created_at'>;
+export type NewProgressEvent = Omit<ProgressEvent, 'id' | 'sequence' | 'created_at'>;
+export type NewTraceEvent = Omit<TraceEvent, 'id' | 'created_at'> & Partial<Pick<TraceEvent, 'created_at'>>;
+export type NewTrackedInstitution = Pick<TrackedInstitution, 'institution_name' | 'engines' | 'topics' | 'schedule' | 'next_run_at'> & Patch<Omit<TrackedInstitution, 'id' | 'created_at' | 'updated_at'>>;
+
+// Persistence for analyses and everything derived from them: one implementation per backend
+export interface Repository {
+  // Analyses
+  createAnalysis(analysis: NewAnalysis): Promise<Analysis>;
+  getAnalysis(id: string): Promise<Analysis | null>;
+  updateAnalysis(id: string, patch: Patch<Analysis>, unlessStatus?: Analysis['status']): Promise<boolean>; // False if nothing was updated (missing, or in `unlessStatus`)
+  updateAnalysisIfStatus(id: string, statuses: Analysis['status'][], patch: Patch<Analysis>): Promise<boolean>; // Atomic status transition: false unless the analysis was in one of `statuses`
+
+  // Topics (ordered by topic_order)
+  createTopic(topic: NewTopic): Promise<Topic>;
+  listTopics(analysisId: string): Promise<Topic[]>;
+  updateTopic(id: string, patch: Patch<Topic>): Promise<void>;
+  deleteTopics(analysisId: string, topicIds?: string[]): Promise<void>; // Only `topicIds` when given; also deletes their queries and answers (draft edits)
+
+  // Queries (ordered by creation)
+  createQueries(queries: NewQuery[]): Promise<Query[]>;
+  getQuery(id: string): Promise<Query | null>;
+  listQueries(analysisId: string, statuses?: Query['status'][]): Promise<Query[]>;
+  updateQueries(ids: string[], patch: Patch<Query>, unlessStatus?: Query['status']): Promise<number>; // Rows updated (rows in `unlessStatus` are skipped)
+  updateQueriesByStatus(analysisId: string, statuses: Query['status'][], patch: Patch<Query>): Promise<Query[]>; // Returns updated rows
+
+  // Per-engine answers (one per query + engine + sample)
+  listQueryAnswers(analysisId: string): Promise<QueryAnswer[]>;
+  listQueryAnswersForQueries(queryIds: string[]): Promise<QueryAnswer[]>;
+  upsertQueryAnswer(answer: NewQueryAnswer): Promise<void>; // Unique on (query_id, engine, sample_index); omitted columns keep their values
+
+  // Aggregates - replaced wholesale on every metrics run
+  listCompetitors(analysisId: string): Promise<Competitor[]>; // By mention_count desc
+  replaceCompetitors(analysisId: string, competitors: NewCompetitor[]): Promise<void>;
+  listSources(analysisId: string): Promise<Source[]>; // By citation_count desc
+  replaceSources(analysisId: string, sources: NewSource[]): Promise<void>;
+
+  // Job queue
+  findActiveJob(analysisId: string): Promise<AnalysisJob | null>;
+  createJob(job: Pick<AnalysisJob, 'analysis_id' | 'kind' | 'status' | 'max_attempts'>): Promise<AnalysisJob>;
+  cancelPendingJobs(analysisId: string): Promise<void>;
+  claimJob(workerId: string, leaseMs: number): Promise<AnalysisJob | null>; // Oldest due pending job, or running job with expired lease
+  updateOwnedJob(jobId: string, workerId: string, patch: Patch<AnalysisJob>, requiredStatus?: AnalysisJob['status']): Promise<boolean>; // False if the worker no longer holds the job
+
+  // Tracked institutions and their runs
+  createTrackedInstitution(tracked: NewTrackedInstitution): Promise<TrackedInstitution>;
+  getTrackedInstitution(id: string): Promise<TrackedInstitution | null>;
+  listTrackedInstitutions(): Promise<TrackedInstitution[]>; // Newest first
+  listDueTrackedInstitutions(now: string): Promise<TrackedInstitution[]>; // Active with next_run_at <= now
+  updateTrackedInstitution(id: string, patch: Patch<TrackedInstitution>, expectedNextRunAt?: string): Promise<boolean>; // False if next_run_at no longer matches (another scheduler got there first)
+  listTrackedRuns(trackedInstitutionId: string): Promise<Analysis[]>; // Oldest first
+
+  // Progress events (ordered by sequence)
+  appendProgressEvent(event: NewProgressEvent): Promise<ProgressEvent>;
+  listProgressEvents(analysisId: string, afterSequence?: number): Promise<ProgressEvent[]>;
+
+  // Trace events (oldest first)
+  appendTraceEvent(event: NewTraceEvent): Promise<TraceEvent>;
+  listTraceEvents(analysisId: string, queryId?: string): Promise<TraceEvent[]>;
+}
+
 // Configuration
 export const BATCH_CONFIG = {
   QUERIES_PER_BATCH: 5,